@@ -0,0 +1,277 @@
+// scripts/build-relationships.ts
+//
+// Merges the regional relationship files in mapdata/data into
+// public/data/relationships.json, validating them on the way.
+//
+// Usage:
+//   npm run data:relationships              validate, merge and write the public file
+//   npm run data:relationships -- --check   validate only, write nothing
+//   npm run data:relationships -- --strict  also fail on warnings (coverage gaps)
+//   npm run data:relationships -- --replace-published
+//                                           write even over published rows that differ
+//                                           from their regional source
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import countries from 'i18n-iso-countries';
+import { CUSTOM_COUNTRY_CODES } from '../src/Utils/CountryCodes';
+import type { CountryData, RelationshipData } from '../src/types/data';
+
+const ROOT = resolve(dirname(fileURLToPath(import.meta.url)), '..');
+const SOURCE_DIR = resolve(ROOT, 'mapdata/data');
+const OUTPUT_FILE = resolve(ROOT, 'public/data/relationships.json');
+
+// Order matters: sources are written to the public file in this order
+const REGIONAL_FILES = [
+  'relationships_asia.json',
+  'relationships_eu.json',
+  'relationships_northA.json',
+  'relationship_southA.json',
+  'relationship_ocenia.json',
+  'relationship_africa.json',
+];
+
+const MIN_SCORE = -10;
+const MAX_SCORE = 10;
+
+// Codes the regional files used before they switched to the shared alias table
+const RENAMED_CODES: Record<string, string> = {
+  RKS: 'XKX', // Kosovo
+  SML: 'SOL', // Somaliland
+};
+
+type IssueLevel = 'error' | 'warning';
+
+interface Issue {
+  level: IssueLevel;
+  file: string;
+  source?: string;
+  message: string;
+}
+
+interface MergeResult {
+  data: RelationshipData;
+  sourceFiles: Map<string, string>;
+  issues: Issue[];
+}
+
+// Codes on the map that aren't ISO 3166-1 (Kosovo, Somaliland, ...) come from the shared alias table
+function isKnownCountryCode(code: string): boolean {
+  return CUSTOM_COUNTRY_CODES.has(code) || (/^[A-Z]{3}$/.test(code) && countries.isValid(code));
+}
+
+function describeUnknownCode(code: string): string {
+  const renamed = RENAMED_CODES[code];
+  return renamed ? `"${code}" is now "${renamed}"` : `"${code}"`;
+}
+
+// Lists the first few entries, so long lists stay on one line
+const preview = (items: string[], count = 8) => items.slice(0, count).join(', ') + (items.length > count ? ', ...' : '');
+
+function isCountryData(value: unknown): value is CountryData {
+  if (typeof value !== 'object' || value === null) return false;
+  const candidate = value as Partial<CountryData>;
+  return typeof candidate.name === 'string'
+    && typeof candidate.relations === 'object'
+    && candidate.relations !== null;
+}
+
+function readRegionalFile(file: string, issues: Issue[]): Record<string, unknown> | null {
+  try {
+    const parsed: unknown = JSON.parse(readFileSync(resolve(SOURCE_DIR, file), 'utf8'));
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+      issues.push({ level: 'error', file, message: 'Top level must be an object keyed by country code' });
+      return null;
+    }
+    return parsed as Record<string, unknown>;
+  } catch (err) {
+    issues.push({ level: 'error', file, message: `Could not read file: ${(err as Error).message}` });
+    return null;
+  }
+}
+
+function mergeRegionalFiles(): MergeResult {
+  const data: RelationshipData = {};
+  const sourceFiles = new Map<string, string>();
+  const issues: Issue[] = [];
+
+  REGIONAL_FILES.forEach(file => {
+    const regional = readRegionalFile(file, issues);
+    if (!regional) return;
+
+    Object.entries(regional).forEach(([source, value]) => {
+      const issue = (level: IssueLevel, message: string) => issues.push({ level, file, source, message });
+
+      if (!isCountryData(value)) {
+        issue('error', 'Entry must have a string "name" and a "relations" object');
+        return;
+      }
+      if (!isKnownCountryCode(source)) {
+        issue('error', `Unknown country code ${describeUnknownCode(source)}`);
+      }
+      const previousFile = sourceFiles.get(source);
+      if (previousFile) {
+        issue('error', `Duplicate source, already defined in ${previousFile}`);
+        return;
+      }
+
+      Object.entries(value.relations).forEach(([partner, score]) => {
+        if (partner === source) {
+          issue('error', 'Self-relation: a country cannot score itself');
+        }
+        if (!isKnownCountryCode(partner)) {
+          issue('error', `Unknown partner code ${describeUnknownCode(partner)}`);
+        }
+        if (typeof score !== 'number' || !Number.isFinite(score) || score < MIN_SCORE || score > MAX_SCORE) {
+          issue('error', `Score for ${partner} must be a number in [${MIN_SCORE}, ${MAX_SCORE}], got ${JSON.stringify(score)}`);
+        }
+      });
+
+      sourceFiles.set(source, file);
+      data[source] = value;
+    });
+  });
+
+  // Coverage gaps: sources that leave out other sources
+  const sources = Object.keys(data);
+  sources.forEach(source => {
+    const missing = sources.filter(other => other !== source && data[source].relations[other] === undefined);
+    if (missing.length > 0) {
+      issues.push({
+        level: 'warning',
+        file: sourceFiles.get(source)!,
+        source,
+        message: `Missing scores for ${missing.length} partner(s): ${preview(missing)}`,
+      });
+    }
+  });
+
+  return { data, sourceFiles, issues };
+}
+
+function readPublishedFile(): RelationshipData | null {
+  try {
+    return JSON.parse(readFileSync(OUTPUT_FILE, 'utf8')) as RelationshipData;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Fails on every row whose scores in the published file differ from its
+ * regional source, so a rebuild never replaces published scores unnoticed.
+ * The regional files are never touched: resolve a conflict by editing them,
+ * or pass --replace-published once the listed changes are intended.
+ */
+function comparePublishedFile({ data, sourceFiles, issues }: MergeResult, level: IssueLevel) {
+  const published = readPublishedFile();
+  if (!published) return;
+  const publishedFile = 'public/data/relationships.json';
+
+  Object.entries(data).forEach(([source, { relations }]) => {
+    const previous = published[source]?.relations;
+    if (!previous) return;
+    const changed = Object.keys(relations)
+      .filter(partner => previous[partner] !== undefined && previous[partner] !== relations[partner])
+      .map(partner => `${partner} ${previous[partner]}→${relations[partner]}`);
+    const dropped = Object.keys(previous).filter(partner => relations[partner] === undefined);
+    if (changed.length === 0 && dropped.length === 0) return;
+
+    const differences = [
+      changed.length > 0 && `${changed.length} score(s) differ (${preview(changed)})`,
+      dropped.length > 0 && `${dropped.length} score(s) only published (${preview(dropped)})`,
+    ].filter(Boolean);
+    issues.push({
+      level,
+      file: sourceFiles.get(source)!,
+      source,
+      message: `Conflicts with ${publishedFile}: ${differences.join('; ')}`,
+    });
+  });
+
+  Object.keys(published)
+    .filter(source => !data[source])
+    .forEach(source => issues.push({ level: 'warning', file: publishedFile, source, message: 'Published row has no regional source' }));
+}
+
+function printCoverageReport({ data, sourceFiles }: MergeResult) {
+  const sources = Object.keys(data);
+  const sourceSet = new Set(sources);
+  const partnerCodes = new Set<string>();
+  let scoredPairs = 0;
+
+  sources.forEach(source => {
+    Object.keys(data[source].relations).forEach(partner => {
+      partnerCodes.add(partner);
+      if (sourceSet.has(partner) && partner !== source) scoredPairs++;
+    });
+  });
+
+  const possiblePairs = sources.length * (sources.length - 1);
+  const fill = possiblePairs > 0 ? (scoredPairs / possiblePairs) * 100 : 0;
+
+  console.log('\nCoverage report');
+  console.log('---------------');
+  REGIONAL_FILES.forEach(file => {
+    const count = sources.filter(source => sourceFiles.get(source) === file).length;
+    console.log(`  ${file.padEnd(28)} ${String(count).padStart(4)} sources`);
+  });
+  console.log(`  Sources:                     ${sources.length}`);
+  console.log(`  Distinct partner codes:      ${partnerCodes.size}`);
+  console.log(`  Source-to-source pairs:      ${scoredPairs} / ${possiblePairs} (${fill.toFixed(1)}%)`);
+
+  const withoutRows = Array.from(partnerCodes).filter(code => !sourceSet.has(code)).sort();
+  if (withoutRows.length > 0) {
+    console.log(`  Partners without their own row (${withoutRows.length}): ${withoutRows.join(', ')}`);
+  }
+
+  const leastCovered = sources
+    .map(source => ({ source, count: Object.keys(data[source].relations).length }))
+    .sort((a, b) => a.count - b.count)
+    .slice(0, 10);
+  console.log('  Least covered sources:');
+  leastCovered.forEach(({ source, count }) => {
+    console.log(`    ${source} (${data[source].name}): ${count} partners`);
+  });
+}
+
+function printIssues(issues: Issue[]) {
+  issues.forEach(({ level, file, source, message }) => {
+    const location = source ? `${file} > ${source}` : file;
+    const log = level === 'error' ? console.error : console.warn;
+    log(`${level.toUpperCase().padEnd(7)} ${location}: ${message}`);
+  });
+}
+
+function main() {
+  const args = new Set(process.argv.slice(2));
+  const checkOnly = args.has('--check');
+  const strict = args.has('--strict');
+  const replacePublished = args.has('--replace-published');
+
+  const result = mergeRegionalFiles();
+  comparePublishedFile(result, replacePublished ? 'warning' : 'error');
+  const errors = result.issues.filter(issue => issue.level === 'error');
+  const warnings = result.issues.filter(issue => issue.level === 'warning');
+
+  printIssues(result.issues);
+  printCoverageReport(result);
+  const conflicts = result.issues.filter(({ message }) => message.startsWith('Conflicts with'));
+  if (conflicts.length > 0) {
+    (replacePublished ? console.warn : console.error)(`\n${conflicts.length} published row(s) differ from their regional source: ${conflicts.map(({ source }) => source).join(', ')}`);
+  }
+  console.log(`\n${errors.length} error(s), ${warnings.length} warning(s)`);
+
+  if (errors.length > 0 || (strict && warnings.length > 0)) {
+    console.error(`Not writing ${OUTPUT_FILE}: fix the problems above first.`);
+    process.exit(1);
+  }
+
+  if (checkOnly) return;
+
+  writeFileSync(OUTPUT_FILE, JSON.stringify(result.data, null, 2) + '\n');
+  console.log(`Wrote ${Object.keys(result.data).length} sources to ${OUTPUT_FILE}`);
+}
+
+main();
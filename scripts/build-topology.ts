@@ -0,0 +1,202 @@
+// scripts/build-topology.ts
+//
+// Converts the raw world map GeoJSON in mapdata/data into TopoJSON files in
+// public/data, one per level of detail. Shared borders become shared arcs, so
+// neighbouring countries are simplified consistently and the app can stroke
+// every border once.
+//
+// Each file also holds the disputed areas from disputed_areas.json and, per
+// boundary perspective, the country outlines that perspective swaps in.
+//
+// Before writing, every country must resolve to a distinct code; the report
+// also lists the countries public/data/relationships.json has no row for.
+//
+// Usage:
+//   npm run data:topology
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { feature, quantize } from 'topojson-client';
+import { topology } from 'topojson-server';
+import { presimplify, quantile, simplify } from 'topojson-simplify';
+import polygonClipping, { type MultiPolygon as ClippingMultiPolygon } from 'polygon-clipping';
+import * as d3 from 'd3';
+import type { Feature, FeatureCollection, Geometry, MultiPolygon } from 'geojson';
+import type { Objects, Topology } from 'topojson-specification';
+import { DISPUTED_AREAS_OBJECT, MAP_DETAIL_LEVELS, WORLD_MAP_OBJECT, WORLD_MAP_PROPERTIES } from '../src/Utils/WorldMap';
+import { getPerspectiveObjectName } from '../src/Utils/Boundaries';
+import { getCountryCode } from '../src/Utils/Format_country_name';
+import { findCountryByCode, getCountryCodeDiagnostics } from '../src/Utils/CountryCodes';
+import type { BoundaryPerspective, DisputedAreaSource } from '../src/types/boundary';
+import type { RelationshipData } from '../src/types/data';
+
+const ROOT = resolve(dirname(fileURLToPath(import.meta.url)), '..');
+const SOURCE_DIR = resolve(ROOT, 'mapdata/data');
+const SOURCE_FILE = resolve(SOURCE_DIR, 'world_map_low.json');
+const DISPUTED_AREAS_FILE = resolve(SOURCE_DIR, 'disputed_areas.json');
+const RELATIONSHIPS_FILE = resolve(ROOT, 'public/data/relationships.json');
+const OUTPUT_DIR = resolve(ROOT, 'public/data');
+
+// Grid size the coordinates are snapped to; 1e5 keeps sub-kilometre precision
+const QUANTIZATION = 1e5;
+// Rings smaller than this (in steradians, about 40,000 km²) keep every point, so
+// small countries and islands don't collapse to nothing at the coarser levels
+const SMALL_RING_AREA = 1e-3;
+
+// Official outlines a boundary perspective swaps in for a country
+const ALTERNATE_OUTLINES: { perspective: BoundaryPerspective; country: string; file: string }[] = [
+  { perspective: 'IND', country: 'IND', file: 'India_mainmap.geojson' },
+];
+
+function readCountries(): FeatureCollection {
+  const source = JSON.parse(readFileSync(SOURCE_FILE, 'utf8')) as FeatureCollection;
+  const features = source.features.map((country): Feature => {
+    const properties = Object.fromEntries(
+      WORLD_MAP_PROPERTIES
+        .filter(key => country.properties?.[key] !== undefined)
+        .map(key => [key, country.properties?.[key]])
+    );
+    return { type: 'Feature', properties, geometry: country.geometry };
+  });
+  return { type: 'FeatureCollection', features };
+}
+
+// Fails on countries without a distinct code, which the app could never select or colour
+function checkCountryCodes(countries: FeatureCollection): boolean {
+  const relationships = JSON.parse(readFileSync(RELATIONSHIPS_FILE, 'utf8')) as RelationshipData;
+  const { unresolved, duplicates, withoutData, sources } = getCountryCodeDiagnostics(countries.features, new Set(Object.keys(relationships)));
+
+  console.log('Country codes');
+  console.log('-------------');
+  Object.entries(sources).forEach(([source, count]) => {
+    console.log(`  ${source.padEnd(8)} ${String(count).padStart(4)} countries`);
+  });
+  withoutData.forEach(({ code, name, alias }) => {
+    const reason = alias?.sovereign ? `dependency of ${alias.sovereign}` : alias?.kind ?? 'state';
+    console.warn(`  No relationships for ${code} (${name}, ${reason})`);
+  });
+  unresolved.forEach(properties => {
+    console.error(`ERROR   Unresolved country: ${JSON.stringify(properties)}`);
+  });
+  duplicates.forEach(({ code, names }) => {
+    console.error(`ERROR   ${code} is shared by ${names.join(', ')}`);
+  });
+  console.log('');
+  return unresolved.length === 0 && duplicates.length === 0;
+}
+
+function findCountry(countries: FeatureCollection, code: string): Feature {
+  const country = findCountryByCode(countries.features, code);
+  if (!country) throw new Error(`No country with code ${code} on the map`);
+  return country;
+}
+
+// polygon-clipping works on bare coordinate arrays
+function toClipping(geometry: Geometry | null): ClippingMultiPolygon {
+  if (geometry?.type === 'Polygon') return [geometry.coordinates as ClippingMultiPolygon[number]];
+  if (geometry?.type === 'MultiPolygon') return geometry.coordinates as ClippingMultiPolygon;
+  return [];
+}
+
+// polygon-clipping winds exterior rings counter-clockwise; d3-geo expects them clockwise
+function fromClipping(coordinates: ClippingMultiPolygon): MultiPolygon {
+  return {
+    type: 'MultiPolygon',
+    coordinates: coordinates.map(polygon => polygon.map(ring => [...ring].reverse())),
+  };
+}
+
+/**
+ * The outlines each perspective swaps in. The official outline is merged with
+ * the map's own (so coastline differences don't leave gaps) and cut out of the
+ * neighbours it overlaps, so borders still line up.
+ */
+function buildAlternateOutlines(countries: FeatureCollection): Map<BoundaryPerspective, Feature[]> {
+  const outlines = new Map<BoundaryPerspective, Feature[]>();
+
+  ALTERNATE_OUTLINES.forEach(({ perspective, country, file }) => {
+    const source = JSON.parse(readFileSync(resolve(SOURCE_DIR, file), 'utf8')) as FeatureCollection;
+    const official = source.features.flatMap(feature => toClipping(feature.geometry));
+    const target = findCountry(countries, country);
+
+    const replaced: Feature[] = [{ ...target, geometry: fromClipping(polygonClipping.union(toClipping(target.geometry), official)) }];
+    countries.features.forEach(neighbour => {
+      if (neighbour === target) return;
+      const coordinates = toClipping(neighbour.geometry);
+      if (polygonClipping.intersection(coordinates, official).length === 0) return;
+      replaced.push({ ...neighbour, geometry: fromClipping(polygonClipping.difference(coordinates, official)) });
+    });
+
+    outlines.set(perspective, [...(outlines.get(perspective) ?? []), ...replaced]);
+    console.log(`${perspective}: ${file} replaces ${replaced.map(getCountryCode).join(', ')}`);
+  });
+  return outlines;
+}
+
+// Outlines of the disputed areas, carrying their metadata as properties
+function buildDisputedAreas(countries: FeatureCollection): FeatureCollection {
+  const sources = JSON.parse(readFileSync(DISPUTED_AREAS_FILE, 'utf8')) as DisputedAreaSource[];
+  const features = sources.map(({ geometry: source, ...properties }): Feature => {
+    const geometry = 'country' in source
+      ? findCountry(countries, source.country).geometry
+      : fromClipping(polygonClipping.intersection(toClipping(findCountry(countries, source.within).geometry), [[source.extent]]));
+    return { type: 'Feature', properties, geometry };
+  });
+  return { type: 'FeatureCollection', features };
+}
+
+function protectSmallRings(source: Topology<Objects>, presimplified: Topology<Objects>) {
+  const geometries = Object.values(source.objects).flatMap(object => (object.type === 'GeometryCollection' ? object.geometries : [object]));
+  geometries.forEach(geometry => {
+    const polygons = geometry.type === 'Polygon' ? [geometry.arcs]
+      : geometry.type === 'MultiPolygon' ? geometry.arcs
+      : [];
+    polygons.flat().forEach(ring => {
+      const { geometry: polygon } = feature(source, { type: 'Polygon', arcs: [ring] });
+      if (d3.geoArea(polygon) >= SMALL_RING_AREA) return;
+      ring.forEach(index => {
+        // Negative indexes refer to reversed arcs
+        presimplified.arcs[index < 0 ? ~index : index].forEach(point => { point[2] = Infinity; });
+      });
+    });
+  });
+}
+
+function main() {
+  const countries = readCountries();
+  if (!checkCountryCodes(countries)) {
+    console.error('Not writing the topologies: add the countries above to COUNTRY_CODE_ALIASES first.');
+    process.exit(1);
+  }
+
+  const objects: Record<string, FeatureCollection> = {
+    [WORLD_MAP_OBJECT]: countries,
+    [DISPUTED_AREAS_OBJECT]: buildDisputedAreas(countries),
+  };
+  buildAlternateOutlines(countries).forEach((features, perspective) => {
+    objects[getPerspectiveObjectName(perspective)] = { type: 'FeatureCollection', features };
+  });
+
+  // topojson-simplify's typings don't allow null properties, which the server's output type does
+  const source = topology(objects, QUANTIZATION) as Topology<Objects>;
+  const base = presimplify(source);
+  protectSmallRings(source, base);
+
+  MAP_DETAIL_LEVELS.forEach(level => {
+    // simplify() also drops the weights presimplify() added to every point
+    const minWeight = level.retain >= 1 ? 0 : quantile(base, level.retain);
+    // presimplify() decodes the arcs, so quantize again for compact delta-encoded output
+    const simplified = quantize(simplify(base, minWeight), QUANTIZATION);
+    const outputFile = resolve(OUTPUT_DIR, level.file);
+    const json = JSON.stringify(simplified);
+    writeFileSync(outputFile, json + '\n');
+
+    const points = simplified.arcs.reduce((total, arc) => total + arc.length, 0);
+    console.log(`${level.key.padEnd(7)} ${String(points).padStart(7)} points  ${(json.length / 1024).toFixed(0).padStart(5)} kB  ${outputFile}`);
+  });
+
+  console.log(`Wrote ${countries.features.length} countries at ${MAP_DETAIL_LEVELS.length} levels of detail`);
+}
+
+main();
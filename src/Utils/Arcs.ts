@@ -0,0 +1,186 @@
+// src/utils/Arcs.ts
+import * as d3 from 'd3';
+import type { Feature, LineString, Polygon } from 'geojson';
+import type { RelationshipData } from '../types/data';
+
+// Points sampled along each great circle; d3 resamples further when projecting
+const ARC_SEGMENTS = 32;
+// Grid resolution used to find an interior point when the centroid falls outside the outline
+const INTERIOR_GRID_SIZE = 12;
+
+// Which side of the selected country's relationships get arcs
+export type ArcDirection = 'both' | 'allies' | 'adversaries';
+
+export interface ArcSettings {
+  // Number of arcs per side (allies and adversaries each)
+  count: number;
+  // Minimum absolute score for a relationship to get an arc
+  threshold: number;
+  direction: ArcDirection;
+  // Only draw arcs to members of this alliance or detected bloc
+  alliance: string | null;
+}
+
+export const ARC_DIRECTIONS: { key: ArcDirection; label: string }[] = [
+  { key: 'both', label: 'Both' },
+  { key: 'allies', label: 'Allies' },
+  { key: 'adversaries', label: 'Adversaries' },
+];
+
+export const MAX_ARC_COUNT = 20;
+export const MAX_ARC_THRESHOLD = 10;
+
+export const DEFAULT_ARC_SETTINGS: ArcSettings = {
+  count: 5,
+  threshold: 0,
+  direction: 'both',
+  alliance: null,
+};
+
+export const ARC_POSITIVE_COLOR = '#00FFFF';
+export const ARC_NEGATIVE_COLOR = '#FF288C';
+
+export const getArcColor = (score: number) => (score > 0 ? ARC_POSITIVE_COLOR : ARC_NEGATIVE_COLOR);
+
+/**
+ * The partners an arc is drawn to from the selected country: only the compared
+ * country in compare mode, otherwise its strongest allies and adversaries that
+ * pass the arc settings.
+ */
+export function getArcConnections(
+  relationshipData: RelationshipData,
+  selectedId: string,
+  comparedId: string | null,
+  settings: ArcSettings,
+  alliances: { [key: string]: string[] }
+): [string, number][] {
+  const relations = relationshipData[selectedId]?.relations || {};
+  if (comparedId) {
+    return [[comparedId, relations[comparedId] || 0]];
+  }
+
+  const members = settings.alliance ? new Set(alliances[settings.alliance] || []) : null;
+  const sortedRelations = Object.entries(relations)
+    .filter(([code, score]) => Math.abs(score) >= settings.threshold && (!members || members.has(code)))
+    .sort(([, a], [, b]) => Math.abs(b) - Math.abs(a));
+
+  const allies = settings.direction === 'adversaries'
+    ? []
+    : sortedRelations.filter(([, score]) => score > 0).slice(0, settings.count);
+  const adversaries = settings.direction === 'allies'
+    ? []
+    : sortedRelations.filter(([, score]) => score < 0).slice(0, settings.count);
+  return [...allies, ...adversaries];
+}
+
+/**
+ * Countries whose ties are drawn as a chain of arcs instead of the selected
+ * country's arcs: a route from the route finder, or else the highlighted
+ * triangle closed into a loop while it is around the selected country and
+ * no country is compared.
+ */
+export function getHighlightedChain(
+  highlightedRoute: string[] | null,
+  highlightedTriad: [string, string, string] | null,
+  selectedId: string | null,
+  comparedId: string | null
+): string[] | null {
+  if (highlightedRoute && highlightedRoute.length > 1) return highlightedRoute;
+  if (highlightedTriad && selectedId && !comparedId && highlightedTriad.includes(selectedId)) {
+    return [...highlightedTriad, highlightedTriad[0]];
+  }
+  return null;
+}
+
+// Mean of both directions when both are scored
+function getMutualScore(relationshipData: RelationshipData, a: string, b: string): number {
+  const scores = [relationshipData[a]?.relations[b], relationshipData[b]?.relations[a]]
+    .filter((s): s is number => s !== undefined);
+  return scores.length === 0 ? 0 : scores.reduce((sum, s) => sum + s, 0) / scores.length;
+}
+
+/**
+ * Every arc to draw as [from, to, score]: each link of a highlighted chain,
+ * otherwise the selected country's connections from getArcConnections.
+ */
+export function getArcPairs(
+  relationshipData: RelationshipData,
+  selectedId: string | null,
+  comparedId: string | null,
+  settings: ArcSettings,
+  alliances: { [key: string]: string[] },
+  chain: string[] | null
+): [string, string, number][] {
+  if (chain) {
+    return chain.slice(1).map((to, i) => [chain[i], to, getMutualScore(relationshipData, chain[i], to)]);
+  }
+  if (!selectedId || !relationshipData[selectedId]) return [];
+  return getArcConnections(relationshipData, selectedId, comparedId, settings, alliances)
+    .map(([targetCode, score]) => [selectedId, targetCode, score]);
+}
+
+const representativePoints = new WeakMap<Feature, [number, number]>();
+
+// The polygon with the largest area: the mainland of a country with islands or overseas territories
+function getMainPolygon(feature: Feature): Polygon | null {
+  const { geometry } = feature;
+  if (geometry?.type === 'Polygon') return geometry;
+  if (geometry?.type !== 'MultiPolygon') return null;
+
+  const polygons = geometry.coordinates.map((coordinates): Polygon => ({ type: 'Polygon', coordinates }));
+  return d3.greatest(polygons, polygon => d3.geoArea(polygon)) ?? null;
+}
+
+// The grid point inside the polygon closest to the given target
+function getClosestInteriorPoint(polygon: Polygon, target: [number, number]): [number, number] | null {
+  const [[west, south], [east, north]] = d3.geoBounds(polygon);
+  // Bounds crossing the antimeridian have west > east
+  const width = (east < west ? east + 360 : east) - west;
+  let closest: [number, number] | null = null;
+  let closestDistance = Infinity;
+
+  for (let i = 0; i <= INTERIOR_GRID_SIZE; i++) {
+    for (let j = 0; j <= INTERIOR_GRID_SIZE; j++) {
+      const lon = west + (width * i) / INTERIOR_GRID_SIZE;
+      const point: [number, number] = [lon > 180 ? lon - 360 : lon, south + ((north - south) * j) / INTERIOR_GRID_SIZE];
+      const distance = d3.geoDistance(point, target);
+      if (distance < closestDistance && d3.geoContains(polygon, point)) {
+        closest = point;
+        closestDistance = distance;
+      }
+    }
+  }
+  return closest;
+}
+
+/**
+ * A point inside the country where its arcs start and end. Uses the main
+ * polygon, so the USA isn't anchored between Alaska and the lower 48 and
+ * France isn't pulled towards its overseas departments. Concave outlines
+ * whose centroid falls outside fall back to the nearest interior point.
+ */
+export function getRepresentativePoint(feature: Feature): [number, number] {
+  const cached = representativePoints.get(feature);
+  if (cached) return cached;
+
+  const polygon = getMainPolygon(feature);
+  let point = d3.geoCentroid(polygon ?? feature);
+  if (polygon && !d3.geoContains(polygon, point)) {
+    point = getClosestInteriorPoint(polygon, point) ?? point;
+  }
+
+  representativePoints.set(feature, point);
+  return point;
+}
+
+/**
+ * The arc between two countries as a great-circle line. d3.geoPath clips it
+ * on the orthographic globe and cuts it at the antimeridian on Mercator.
+ */
+export function getArcLine(source: Feature, target: Feature): LineString {
+  const interpolate = d3.geoInterpolate(getRepresentativePoint(source), getRepresentativePoint(target));
+  return {
+    type: 'LineString',
+    coordinates: d3.range(ARC_SEGMENTS + 1).map(i => interpolate(i / ARC_SEGMENTS)),
+  };
+}
@@ -0,0 +1,64 @@
+// src/utils/Asymmetry.ts
+import type { RelationshipData } from '../types/data';
+
+export interface AsymmetricPair {
+  a: string;
+  b: string;
+  aToB: number;
+  bToA: number;
+  // Absolute gap between the two directions, in [0, 20]
+  gap: number;
+}
+
+// A gap this large (or scores of opposite sign) means the tie is not reciprocated
+export const UNRECIPROCATED_GAP = 5;
+
+export function getAsymmetryGap(aToB: number, bToA: number): number {
+  return Math.round(Math.abs(aToB - bToA) * 10) / 10;
+}
+
+// True when B does not return A's view: B has no score for A, the signs disagree, or the gap is large
+export function isUnreciprocated(aToB: number, bToA: number | undefined): boolean {
+  if (bToA === undefined) return true;
+  if (aToB > 0 && bToA < 0) return true;
+  if (aToB < 0 && bToA > 0) return true;
+  return getAsymmetryGap(aToB, bToA) >= UNRECIPROCATED_GAP;
+}
+
+/**
+ * Lists every unordered pair scored in both directions, most asymmetric first.
+ * Pairs scored in only one direction are skipped since there is nothing to compare.
+ */
+export function getAsymmetricPairs(relationshipData: RelationshipData): AsymmetricPair[] {
+  const pairs: AsymmetricPair[] = [];
+  Object.entries(relationshipData).forEach(([a, countryData]) => {
+    Object.entries(countryData.relations).forEach(([b, aToB]) => {
+      // Visit each unordered pair once
+      if (a >= b) return;
+      const bToA = relationshipData[b]?.relations[a];
+      if (bToA === undefined) return;
+      pairs.push({ a, b, aToB, bToA, gap: getAsymmetryGap(aToB, bToA) });
+    });
+  });
+  return pairs.sort((x, y) => y.gap - x.gap);
+}
+
+// Mean gap across all of a country's two-way scored partners
+export function getAverageAsymmetry(relationshipData: RelationshipData): Map<string, number> {
+  const totals = new Map<string, { sum: number; count: number }>();
+  const add = (code: string, gap: number) => {
+    const entry = totals.get(code) || { sum: 0, count: 0 };
+    entry.sum += gap;
+    entry.count += 1;
+    totals.set(code, entry);
+  };
+
+  getAsymmetricPairs(relationshipData).forEach(({ a, b, gap }) => {
+    add(a, gap);
+    add(b, gap);
+  });
+
+  const averages = new Map<string, number>();
+  totals.forEach(({ sum, count }, code) => averages.set(code, Math.round((sum / count) * 10) / 10));
+  return averages;
+}
@@ -0,0 +1,106 @@
+// src/utils/Balance.ts
+import type { RelationshipData } from '../types/data';
+
+// Ties weaker than this (mean of both directions) count as neutral and close no triangle
+export const BALANCE_TIE_THRESHOLD = 3;
+
+export interface Triad {
+  members: [string, string, string];
+  // Signed ties between members 0-1, 1-2 and 2-0
+  ties: [number, number, number];
+}
+
+export interface BalanceIndex {
+  // Triangles whose three ties are all friendly or hostile enough to count
+  triads: number;
+  balanced: number;
+  // Share of balanced triangles, or null when there are none
+  index: number | null;
+}
+
+export interface AllianceBalance extends BalanceIndex {
+  alliance: string;
+  members: number;
+}
+
+const round = (value: number) => Number(value.toFixed(1));
+
+/**
+ * The tie between two countries as the mean of both directions, or the one
+ * that is scored. Ties below the threshold are neutral and returned as null.
+ */
+export function getTie(relationshipData: RelationshipData, a: string, b: string): number | null {
+  const scores = [relationshipData[a]?.relations[b], relationshipData[b]?.relations[a]]
+    .filter((s): s is number => s !== undefined);
+  if (scores.length === 0) return null;
+  const tie = scores.reduce((sum, s) => sum + s, 0) / scores.length;
+  return Math.abs(tie) < BALANCE_TIE_THRESHOLD ? null : round(tie);
+}
+
+// A triangle is balanced when an even number of its ties are hostile
+export const isBalanced = (ties: number[]) => ties.filter(tie => tie < 0).length % 2 === 0;
+
+export const countHostileTies = ({ ties }: Triad) => ties.filter(tie => tie < 0).length;
+
+// The pairs of a triangle with their tie, for drawing it
+export function getTriadPairs({ members: [a, b, c], ties: [ab, bc, ca] }: Triad): [string, string, number][] {
+  return [[a, b, ab], [b, c, bc], [c, a, ca]];
+}
+
+/**
+ * The unbalanced triangles the country is part of: two of its friends that
+ * are hostile to each other, a friend hostile to it and friendly with one of
+ * its rivals, or three mutual rivals. Strongest tensions first.
+ */
+export function getUnbalancedTriads(relationshipData: RelationshipData, countryId: string): Triad[] {
+  const partners = Object.keys(relationshipData)
+    .filter(code => code !== countryId)
+    .map(code => [code, getTie(relationshipData, countryId, code)] as const)
+    .filter((entry): entry is readonly [string, number] => entry[1] !== null);
+
+  const triads: Triad[] = [];
+  partners.forEach(([b, ab], i) => {
+    partners.slice(i + 1).forEach(([c, ac]) => {
+      const bc = getTie(relationshipData, b, c);
+      if (bc === null || isBalanced([ab, bc, ac])) return;
+      triads.push({ members: [countryId, b, c], ties: [ab, bc, ac] });
+    });
+  });
+
+  const tension = ({ ties }: Triad) => ties.reduce((sum, tie) => sum + Math.abs(tie), 0);
+  return triads.sort((x, y) => tension(y) - tension(x));
+}
+
+/**
+ * Structural balance of a group: the share of triangles among its members
+ * whose ties are balanced. 1 means friends of friends are always friends.
+ */
+export function getBalanceIndex(relationshipData: RelationshipData, groupMembers: string[]): BalanceIndex {
+  const members = groupMembers.filter(code => relationshipData[code]);
+  const ties = members.map(a => members.map(b => (a === b ? null : getTie(relationshipData, a, b))));
+
+  let triads = 0;
+  let balanced = 0;
+  for (let i = 0; i < members.length; i++) {
+    for (let j = i + 1; j < members.length; j++) {
+      const ij = ties[i][j];
+      if (ij === null) continue;
+      for (let k = j + 1; k < members.length; k++) {
+        const jk = ties[j][k];
+        const ki = ties[k][i];
+        if (jk === null || ki === null) continue;
+        triads++;
+        if (isBalanced([ij, jk, ki])) balanced++;
+      }
+    }
+  }
+
+  return { triads, balanced, index: triads > 0 ? balanced / triads : null };
+}
+
+// Balance index of every alliance, most balanced first; alliances without triangles come last
+export function getAllianceBalances(relationshipData: RelationshipData, alliances: { [key: string]: string[] }): AllianceBalance[] {
+  return Object.entries(alliances)
+    .map(([alliance, members]) => ({ alliance, members: members.length, ...getBalanceIndex(relationshipData, members) }))
+    .sort((a, b) => (b.index ?? -1) - (a.index ?? -1) || a.alliance.localeCompare(b.alliance));
+}
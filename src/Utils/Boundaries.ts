@@ -0,0 +1,43 @@
+// src/utils/Boundaries.ts
+import type { BoundaryPerspective, DisputedAreaProperties } from '../types/boundary';
+
+export const DISPUTED_AREA_COLOR = '#94a3b8';
+
+const BOUNDARY_PERSPECTIVE_LABELS: Record<BoundaryPerspective, string> = {
+  default: 'World view',
+  IND: "India's official view",
+};
+
+const BOUNDARY_PERSPECTIVE_DESCRIPTIONS: Record<BoundaryPerspective, string> = {
+  default: 'Natural Earth outlines, with disputed areas hatched.',
+  IND: 'Survey of India outline; Kashmir and Arunachal Pradesh are drawn as Indian territory.',
+};
+
+export const getBoundaryPerspectiveLabel = (perspective: BoundaryPerspective) =>
+  BOUNDARY_PERSPECTIVE_LABELS[perspective] || perspective;
+
+export const getBoundaryPerspectiveDescription = (perspective: BoundaryPerspective) =>
+  BOUNDARY_PERSPECTIVE_DESCRIPTIONS[perspective] || '';
+
+// Topology object holding the outlines a perspective swaps in, keyed by the same properties as the countries
+export const getPerspectiveObjectName = (perspective: BoundaryPerspective) => `countries_${perspective}`;
+
+export const isDisputedAreaShown = (area: DisputedAreaProperties, perspective: BoundaryPerspective) =>
+  !area.hiddenIn.includes(perspective);
+
+// "A", "A and B", "A, B and C"
+const joinNames = (names: string[]) =>
+  names.length <= 1 ? names.join('') : `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`;
+
+/**
+ * Tooltip lines for a disputed area: who administers it, who claims it and why.
+ * `nameOf` turns country codes into display names.
+ */
+export function describeDisputedArea(area: DisputedAreaProperties, nameOf: (code: string) => string): string {
+  return [
+    `${area.name} (disputed)`,
+    `Administered by ${joinNames(area.administeredBy.map(nameOf))}`,
+    `Claimed by ${joinNames(area.claimants.map(nameOf))}`,
+    area.note,
+  ].join('\n');
+}
@@ -0,0 +1,100 @@
+// src/utils/Cohesion.ts
+import type { RelationshipData } from '../types/data';
+
+export interface MemberPair {
+  a: string;
+  b: string;
+  // Mean of both directions when both are scored
+  score: number;
+}
+
+export interface MemberRivalry {
+  code: string;
+  // Mean score this member gives the alliance's rivals
+  score: number;
+}
+
+export interface OutsiderAlignment {
+  code: string;
+  // Mean of the scores exchanged with members, in both directions
+  score: number;
+}
+
+export interface AllianceCohesion {
+  // Members that have relationship data, in alliance order
+  members: string[];
+  // Mean of every member-to-member score, or null when no pair is scored
+  meanScore: number | null;
+  weakestPair: MemberPair | null;
+  // Non-members the alliance views negatively on average
+  rivals: string[];
+  friendliestToRivals: MemberRivalry[];
+  mostAlignedOutsiders: OutsiderAlignment[];
+}
+
+const MAX_LISTED = 5;
+
+const round = (value: number) => Number(value.toFixed(1));
+
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+/**
+ * Internal cohesion of an alliance and how it relates to the rest of the
+ * world. Works for any list of member codes, declared or detected.
+ */
+export function getAllianceCohesion(relationshipData: RelationshipData, allianceMembers: string[]): AllianceCohesion {
+  const members = allianceMembers.filter(code => relationshipData[code]);
+  const memberSet = new Set(members);
+  const outsiders = Object.keys(relationshipData).filter(code => !memberSet.has(code));
+  const scoreOf = (from: string, to: string) => relationshipData[from]?.relations[to];
+
+  // Internal scores and the weakest pair
+  const internalScores: number[] = [];
+  let weakestPair: MemberPair | null = null;
+  members.forEach((a, i) => {
+    members.slice(i + 1).forEach(b => {
+      const scores = [scoreOf(a, b), scoreOf(b, a)].filter((s): s is number => s !== undefined);
+      if (scores.length === 0) return;
+      internalScores.push(...scores);
+      const pairScore = round(mean(scores));
+      if (!weakestPair || pairScore < weakestPair.score) {
+        weakestPair = { a, b, score: pairScore };
+      }
+    });
+  });
+
+  // Rivals: outsiders the members score below zero on average
+  const rivals = outsiders.filter(code => {
+    const scores = members.map(member => scoreOf(member, code)).filter((s): s is number => s !== undefined);
+    return scores.length > 0 && mean(scores) < 0;
+  });
+
+  const friendliestToRivals = rivals.length === 0 ? [] : members
+    .map(code => {
+      const scores = rivals.map(rival => scoreOf(code, rival)).filter((s): s is number => s !== undefined);
+      return scores.length > 0 ? { code, score: round(mean(scores)) } : null;
+    })
+    .filter((entry): entry is MemberRivalry => entry !== null)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_LISTED);
+
+  const mostAlignedOutsiders = outsiders
+    .map(code => {
+      const scores = members
+        .flatMap(member => [scoreOf(code, member), scoreOf(member, code)])
+        .filter((s): s is number => s !== undefined);
+      return scores.length > 0 ? { code, score: round(mean(scores)) } : null;
+    })
+    .filter((entry): entry is OutsiderAlignment => entry !== null)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_LISTED);
+
+  return {
+    members,
+    meanScore: internalScores.length > 0 ? round(mean(internalScores)) : null,
+    weakestPair,
+    rivals,
+    friendliestToRivals,
+    mostAlignedOutsiders,
+  };
+}
@@ -5,4 +5,22 @@ import * as d3 from 'd3';
 export const ColorScale = d3.scaleLinear<string>()
   .domain([-10, 0, 10]) // Input: Hostile -> Neutral -> Ally
   .range(['#e74c3c', '#f1c40f', '#2ecc71']) // Output: Red -> Yellow -> Green
-  .clamp(true); // Ensures values outside the domain are clamped to the range
\ No newline at end of file
+  .clamp(true); // Ensures values outside the domain are clamped to the range
+
+// Scale for how far apart two countries' scores are (0 = full agreement, 20 = opposite extremes)
+export const DivergenceScale = d3.scaleLinear<string>()
+  .domain([0, 10, 20])
+  .range(['#38bdf8', '#a78bfa', '#db2777'])
+  .clamp(true);
+
+// Scale for predicted score changes in a scenario (worse -> unchanged -> better)
+export const DeltaScale = d3.scaleLinear<string>()
+  .domain([-3, 0, 3])
+  .range(['#dc2626', '#9ca3af', '#16a34a'])
+  .clamp(true);
+
+// Scale for how alike two countries' views are (opposite -> unrelated -> alike)
+export const SimilarityScale = d3.scaleLinear<string>()
+  .domain([-1, 0, 1])
+  .range(['#db2777', '#9ca3af', '#0ea5e9'])
+  .clamp(true);
@@ -0,0 +1,202 @@
+// src/utils/Communities.ts
+import type { RelationshipData } from '../types/data';
+import { buildRelationshipNetwork } from './Network';
+
+export interface DetectedBloc {
+  name: string;
+  members: string[];
+}
+
+export interface MembershipComparison {
+  shared: string[];
+  onlyInBloc: string[];
+  onlyInAlliance: string[];
+  // Size of the overlap relative to the union, in [0, 1]
+  jaccard: number;
+}
+
+// Blocs smaller than this are treated as unaligned rather than offered as pseudo-alliances
+export const MIN_BLOC_SIZE = 3;
+
+export const DETECTED_BLOC_PREFIX = 'Detected Bloc';
+
+// Almost every pair is mildly positive, so only strong ties are kept; otherwise the whole world is one bloc
+export const BLOC_TIE_THRESHOLD = 6;
+
+/**
+ * Undirected graph of the friendly ties reaching minWeight, weighted the same
+ * way as the network view: the mean of both directions when both are scored.
+ */
+function buildPositiveGraph(relationshipData: RelationshipData, minWeight: number): { nodes: string[]; weights: Map<number, number>[] } {
+  const nodes = Object.keys(relationshipData).sort();
+  const index = new Map(nodes.map((code, i) => [code, i]));
+  const weights = nodes.map(() => new Map<number, number>());
+
+  buildRelationshipNetwork(relationshipData, {}, minWeight).edges.forEach(({ source, target, score }) => {
+    if (score <= 0) return;
+    const i = index.get(source)!;
+    const j = index.get(target)!;
+    weights[i].set(j, score);
+    weights[j].set(i, score);
+  });
+
+  return { nodes, weights };
+}
+
+// One Louvain level: greedily move nodes between communities while modularity improves
+function moveNodes(weights: Map<number, number>[], resolution: number): { community: number[]; moved: boolean } {
+  const n = weights.length;
+  const degree = weights.map(neighbours => Array.from(neighbours.values()).reduce((sum, w) => sum + w, 0));
+  const totalDegree = degree.reduce((sum, k) => sum + k, 0);
+  const community = Array.from({ length: n }, (_, i) => i);
+  const communityDegree = [...degree];
+  let moved = false;
+
+  if (totalDegree === 0) return { community, moved };
+
+  let improved = true;
+  while (improved) {
+    improved = false;
+    for (let i = 0; i < n; i++) {
+      const current = community[i];
+
+      // Weight from node i into each neighbouring community
+      const linksTo = new Map<number, number>();
+      weights[i].forEach((w, j) => {
+        if (j === i) return;
+        linksTo.set(community[j], (linksTo.get(community[j]) || 0) + w);
+      });
+
+      communityDegree[current] -= degree[i];
+      let best = current;
+      let bestGain = (linksTo.get(current) || 0) - resolution * communityDegree[current] * degree[i] / totalDegree;
+      linksTo.forEach((w, c) => {
+        const gain = w - resolution * communityDegree[c] * degree[i] / totalDegree;
+        if (gain > bestGain) {
+          bestGain = gain;
+          best = c;
+        }
+      });
+      communityDegree[best] += degree[i];
+
+      if (best !== current) {
+        community[i] = best;
+        improved = true;
+        moved = true;
+      }
+    }
+  }
+
+  // Renumber communities as 0..k-1
+  const renumber = new Map<number, number>();
+  return {
+    community: community.map(c => {
+      if (!renumber.has(c)) renumber.set(c, renumber.size);
+      return renumber.get(c)!;
+    }),
+    moved,
+  };
+}
+
+// Collapse each community into a single node whose edges sum the original weights
+function aggregate(weights: Map<number, number>[], community: number[]): Map<number, number>[] {
+  const size = Math.max(...community) + 1;
+  const aggregated = Array.from({ length: size }, () => new Map<number, number>());
+  weights.forEach((neighbours, i) => {
+    neighbours.forEach((w, j) => {
+      const a = community[i];
+      const b = community[j];
+      aggregated[a].set(b, (aggregated[a].get(b) || 0) + w);
+    });
+  });
+  return aggregated;
+}
+
+/**
+ * Louvain community detection over the positive-weight relationship graph.
+ * Returns the community index of every country, with 0 being the largest.
+ */
+export function detectCommunities(
+  relationshipData: RelationshipData,
+  minWeight = BLOC_TIE_THRESHOLD,
+  resolution = 1
+): Map<string, number> {
+  const { nodes, weights } = buildPositiveGraph(relationshipData, minWeight);
+  if (nodes.length === 0) return new Map();
+
+  // membership[i] tracks the current community of original node i across levels
+  let membership = nodes.map((_, i) => i);
+  let graph = weights;
+
+  for (;;) {
+    const { community, moved } = moveNodes(graph, resolution);
+    if (!moved) break;
+    membership = membership.map(c => community[c]);
+    graph = aggregate(graph, community);
+  }
+
+  // Relabel so that the largest community comes first
+  const sizes = new Map<number, number>();
+  membership.forEach(c => sizes.set(c, (sizes.get(c) || 0) + 1));
+  const order = Array.from(sizes.keys()).sort((a, b) => sizes.get(b)! - sizes.get(a)! || a - b);
+  const rank = new Map(order.map((c, i) => [c, i]));
+
+  return new Map(nodes.map((code, i) => [code, rank.get(membership[i])!]));
+}
+
+// Detection is cached per dataset since the map, sidebar and panels all ask for it
+const blocCache = new WeakMap<RelationshipData, DetectedBloc[]>();
+
+export function getDetectedBlocs(relationshipData: RelationshipData): DetectedBloc[] {
+  const cached = blocCache.get(relationshipData);
+  if (cached) return cached;
+
+  const groups = new Map<number, string[]>();
+  detectCommunities(relationshipData).forEach((community, code) => {
+    groups.set(community, [...(groups.get(community) || []), code]);
+  });
+
+  const blocs = Array.from(groups.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([, members]) => members)
+    .filter(members => members.length >= MIN_BLOC_SIZE)
+    .map((members, i) => ({ name: `${DETECTED_BLOC_PREFIX} ${i + 1}`, members: members.sort() }));
+
+  blocCache.set(relationshipData, blocs);
+  return blocs;
+}
+
+// Blocs in the same shape as alliances.json, so they can be offered next to the declared alliances
+export function getDetectedBlocAlliances(relationshipData: RelationshipData): { [key: string]: string[] } {
+  return Object.fromEntries(getDetectedBlocs(relationshipData).map(bloc => [bloc.name, bloc.members]));
+}
+
+export function compareMembership(blocMembers: string[], allianceMembers: string[]): MembershipComparison {
+  const bloc = new Set(blocMembers);
+  const alliance = new Set(allianceMembers);
+  const shared = blocMembers.filter(code => alliance.has(code));
+  const onlyInBloc = blocMembers.filter(code => !alliance.has(code));
+  const onlyInAlliance = allianceMembers.filter(code => !bloc.has(code));
+  const unionSize = shared.length + onlyInBloc.length + onlyInAlliance.length;
+  return {
+    shared,
+    onlyInBloc,
+    onlyInAlliance,
+    jaccard: unionSize === 0 ? 0 : shared.length / unionSize,
+  };
+}
+
+// The declared alliance whose membership overlaps the bloc the most
+export function getClosestAlliance(
+  blocMembers: string[],
+  alliances: { [key: string]: string[] }
+): { name: string; comparison: MembershipComparison } | null {
+  let best: { name: string; comparison: MembershipComparison } | null = null;
+  Object.entries(alliances).forEach(([name, members]) => {
+    const comparison = compareMembership(blocMembers, members);
+    if (!best || comparison.jaccard > best.comparison.jaccard) {
+      best = { name, comparison };
+    }
+  });
+  return best;
+}
@@ -0,0 +1,74 @@
+// src/utils/Comparison.ts
+import type { RelationshipData } from '../types/data';
+
+export interface ComparisonRow {
+  code: string;
+  scoreA: number;
+  scoreB: number;
+  // Absolute gap between the two countries' scores toward this country, in [0, 20]
+  divergence: number;
+}
+
+export interface CountryComparison {
+  // How A scores B and how B scores A
+  mutual: { aToB: number | null; bToA: number | null };
+  rows: ComparisonRow[];
+  sharedAlliances: string[];
+}
+
+export function getDivergence(scoreA: number, scoreB: number): number {
+  // Rounded so that fractional composite scores don't print as 3.0000000004
+  return Math.round(Math.abs(scoreA - scoreB) * 10) / 10;
+}
+
+/**
+ * Lines up two countries' scores toward every third country.
+ * Partners missing from one side count as neutral (0), matching how the map colors them.
+ */
+export function compareCountries(
+  relationshipData: RelationshipData,
+  alliances: { [key: string]: string[] },
+  codeA: string,
+  codeB: string
+): CountryComparison {
+  const relationsA = relationshipData[codeA]?.relations || {};
+  const relationsB = relationshipData[codeB]?.relations || {};
+
+  const partnerCodes = new Set([...Object.keys(relationsA), ...Object.keys(relationsB)]);
+  partnerCodes.delete(codeA);
+  partnerCodes.delete(codeB);
+
+  const rows = Array.from(partnerCodes).map(code => {
+    const scoreA = relationsA[code] || 0;
+    const scoreB = relationsB[code] || 0;
+    return { code, scoreA, scoreB, divergence: getDivergence(scoreA, scoreB) };
+  });
+
+  const sharedAlliances = Object.entries(alliances)
+    .filter(([, members]) => members.includes(codeA) && members.includes(codeB))
+    .map(([name]) => name)
+    .sort();
+
+  return {
+    mutual: {
+      aToB: relationsA[codeB] ?? null,
+      bToA: relationsB[codeA] ?? null,
+    },
+    rows,
+    sharedAlliances,
+  };
+}
+
+// Countries both sides feel the same about, strongest shared stances first
+export function getMostAgreed(rows: ComparisonRow[], limit = 5): ComparisonRow[] {
+  return [...rows]
+    .sort((a, b) => a.divergence - b.divergence || Math.abs(b.scoreA + b.scoreB) - Math.abs(a.scoreA + a.scoreB))
+    .slice(0, limit);
+}
+
+// Countries the two sides are most split on
+export function getMostDisputed(rows: ComparisonRow[], limit = 5): ComparisonRow[] {
+  return [...rows]
+    .sort((a, b) => b.divergence - a.divergence)
+    .slice(0, limit);
+}
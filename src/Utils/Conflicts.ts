@@ -0,0 +1,148 @@
+// src/utils/Conflicts.ts
+import type { RelationshipData } from '../types/data';
+import {
+  CONFLICT_INTENSITIES,
+  CONFLICT_TYPES,
+  type ConflictFilters,
+  type ConflictIntensity,
+  type ConflictType,
+  type ConflictZone,
+} from '../types/conflict';
+
+export interface ConflictPairScores {
+  a: string;
+  b: string;
+  aToB: number | undefined;
+  bToA: number | undefined;
+}
+
+export const CONFLICT_INTENSITY_COLORS: Record<ConflictIntensity, string> = {
+  high: '#ef4444',
+  medium: '#eab308',
+  low: '#22c55e',
+};
+
+const CONFLICT_TYPE_LABELS: Record<ConflictType, string> = {
+  civil_war: 'Civil War',
+  international: 'International',
+  insurgency: 'Insurgency',
+  border_dispute: 'Border Dispute',
+  other: 'Other',
+};
+
+export const getConflictTypeLabel = (type: ConflictType) => CONFLICT_TYPE_LABELS[type] || type;
+
+export const getConflictIntensityLabel = (intensity: ConflictIntensity) =>
+  intensity.charAt(0).toUpperCase() + intensity.slice(1);
+
+export const getConflictYearsLabel = (conflict: ConflictZone) =>
+  conflict.endYear === undefined ? `Since ${conflict.startYear}` : `${conflict.startYear}–${conflict.endYear}`;
+
+export const DEFAULT_CONFLICT_FILTERS: ConflictFilters = {
+  types: [...CONFLICT_TYPES],
+  intensities: [...CONFLICT_INTENSITIES],
+  fromYear: null,
+  toYear: null,
+};
+
+// Returns a description of what's wrong with the entry, or null when it's a valid ConflictZone
+function getConflictProblem(value: unknown): string | null {
+  if (typeof value !== 'object' || value === null) return 'must be an object';
+  const entry = value as Record<string, unknown>;
+
+  if (typeof entry.id !== 'string' || entry.id === '') return '"id" must be a non-empty string';
+  if (typeof entry.name !== 'string') return '"name" must be a string';
+  if (typeof entry.description !== 'string') return '"description" must be a string';
+  if (!Array.isArray(entry.countries) || entry.countries.some(code => typeof code !== 'string')) {
+    return '"countries" must be an array of country codes';
+  }
+  if (!CONFLICT_INTENSITIES.includes(entry.intensity as ConflictIntensity)) {
+    return `"intensity" must be one of ${CONFLICT_INTENSITIES.join(', ')}`;
+  }
+  if (!CONFLICT_TYPES.includes(entry.type as ConflictType)) {
+    return `"type" must be one of ${CONFLICT_TYPES.join(', ')}`;
+  }
+  if (!Number.isInteger(entry.startYear)) return '"startYear" must be a year';
+  if (entry.endYear !== undefined) {
+    if (!Number.isInteger(entry.endYear)) return '"endYear" must be a year when present';
+    if ((entry.endYear as number) < (entry.startYear as number)) return '"endYear" is before "startYear"';
+  }
+  return null;
+}
+
+/**
+ * Validates raw conflicts.json content. Throws on the first invalid entry so
+ * that a broken data file surfaces as a load error instead of a broken overlay.
+ */
+export function parseConflictZones(raw: unknown): ConflictZone[] {
+  if (!Array.isArray(raw)) {
+    throw new Error('Invalid conflict data: expected an array of conflicts');
+  }
+
+  const ids = new Set<string>();
+  raw.forEach((entry, i) => {
+    const problem = getConflictProblem(entry);
+    const label = typeof entry?.id === 'string' ? `"${entry.id}"` : `#${i}`;
+    if (problem) {
+      throw new Error(`Invalid conflict data: entry ${label} ${problem}`);
+    }
+    if (ids.has(entry.id)) {
+      throw new Error(`Invalid conflict data: duplicate id ${label}`);
+    }
+    ids.add(entry.id);
+  });
+
+  return raw as ConflictZone[];
+}
+
+// Whether the conflict was active at any point in the (inclusive) year range
+export function isConflictActive(conflict: ConflictZone, fromYear: number | null, toYear: number | null): boolean {
+  if (toYear !== null && conflict.startYear > toYear) return false;
+  if (fromYear !== null && conflict.endYear !== undefined && conflict.endYear < fromYear) return false;
+  return true;
+}
+
+export function filterConflicts(conflicts: ConflictZone[], filters: ConflictFilters): ConflictZone[] {
+  return conflicts.filter(conflict =>
+    filters.types.includes(conflict.type)
+    && filters.intensities.includes(conflict.intensity)
+    && isConflictActive(conflict, filters.fromYear, filters.toYear)
+  );
+}
+
+// Conflicts drawn as the map overlay: the selected conflict alone, or every conflict passing the filters
+export function getOverlayConflicts(
+  conflicts: ConflictZone[],
+  showConflicts: boolean,
+  filters: ConflictFilters,
+  selectedConflict: string | null
+): ConflictZone[] {
+  if (selectedConflict) return conflicts.filter(conflict => conflict.id === selectedConflict);
+  return showConflicts ? filterConflicts(conflicts, filters) : [];
+}
+
+// Highest intensity of any listed conflict per participating country
+export function getConflictIntensityByCountry(conflicts: ConflictZone[]): Map<string, ConflictIntensity> {
+  const byCountry = new Map<string, ConflictIntensity>();
+  conflicts.forEach(conflict => {
+    conflict.countries.forEach(code => {
+      const current = byCountry.get(code);
+      if (!current || CONFLICT_INTENSITIES.indexOf(conflict.intensity) > CONFLICT_INTENSITIES.indexOf(current)) {
+        byCountry.set(code, conflict.intensity);
+      }
+    });
+  });
+  return byCountry;
+}
+
+// Scores between every pair of participants, in both directions
+export function getConflictPairScores(conflict: ConflictZone, relationshipData: RelationshipData): ConflictPairScores[] {
+  return conflict.countries.flatMap((a, i) =>
+    conflict.countries.slice(i + 1).map(b => ({
+      a,
+      b,
+      aToB: relationshipData[a]?.relations[b],
+      bToA: relationshipData[b]?.relations[a],
+    }))
+  );
+}
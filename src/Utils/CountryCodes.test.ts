@@ -0,0 +1,130 @@
+// src/utils/CountryCodes.test.ts
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import type { Feature, FeatureCollection } from 'geojson';
+import { BOUNDARY_PERSPECTIVES } from '../types/boundary';
+import {
+  COUNTRY_CODE_ALIASES,
+  createCountryLookup,
+  getCountryCodeDiagnostics,
+  resolveCountryCode,
+} from './CountryCodes';
+import type { CountryFeatureProperties } from './Format_country_name';
+import { MAP_DETAIL_LEVELS, parseWorldTopology, type WorldTopology } from './WorldMap';
+
+const readJson = <T>(path: string): T => JSON.parse(readFileSync(new URL(`../../${path}`, import.meta.url), 'utf8')) as T;
+
+// Country features the app shows for a level of detail, with the outlines a perspective swaps in
+const readTopology = (file: string, perspective = BOUNDARY_PERSPECTIVES[0]): Feature[] =>
+  parseWorldTopology(readJson<WorldTopology>(`public/data/${file}`), perspective).countries.features;
+
+// Every map the app ships, in every perspective, and the source the build script reads
+const SHIPPED_MAPS: [string, () => Feature[]][] = [
+  ...MAP_DETAIL_LEVELS.flatMap(({ file }) => BOUNDARY_PERSPECTIVES.map((perspective): [string, () => Feature[]] =>
+    [`public/data/${file} (${perspective})`, () => readTopology(file, perspective)])),
+  ['mapdata/data/world_map_low.json', () => readJson<FeatureCollection>('mapdata/data/world_map_low.json').features],
+];
+
+const propertiesOf = (feature: Feature) => feature.properties as CountryFeatureProperties;
+
+describe('shipped maps', () => {
+  describe.each(SHIPPED_MAPS)('%s', (_, load) => {
+    const features = load();
+
+    it('resolves every feature', () => {
+      const unresolved = features.filter(feature => resolveCountryCode(propertiesOf(feature)).code === null);
+      expect(unresolved.map(propertiesOf)).toEqual([]);
+    });
+
+    it('resolves every feature to a distinct code', () => {
+      const codes = features.map(feature => resolveCountryCode(propertiesOf(feature)).code);
+      const duplicates = codes.filter((code, i) => codes.indexOf(code) !== i);
+      expect(duplicates).toEqual([]);
+    });
+
+    it('reports nothing unresolved or duplicated', () => {
+      const { unresolved, duplicates, sources } = getCountryCodeDiagnostics(features);
+      expect(unresolved).toEqual([]);
+      expect(duplicates).toEqual([]);
+      expect(Object.values(sources).reduce((sum, count) => sum + count, 0)).toBe(features.length);
+    });
+  });
+});
+
+describe('resolveCountryCode', () => {
+  it.each([
+    [{ name: 'France', iso_a3: '-99', adm0_a3: 'FRA', iso_n3: '-99' }, 'FRA'],
+    [{ name: 'Norway', iso_a3: '-99', adm0_a3: 'NOR', iso_n3: '-99' }, 'NOR'],
+    [{ name: 'Kosovo', iso_a3: '-99', adm0_a3: 'KOS', iso_n3: '-99' }, 'XKX'],
+    [{ name: 'Somaliland', iso_a3: '-99', adm0_a3: 'SOL', iso_n3: '-99' }, 'SOL'],
+    [{ name: 'N. Cyprus', iso_a3: '-99', adm0_a3: 'CYN', iso_n3: '-99' }, 'CYP-NORTH'],
+    [{ name: 'S. Sudan', iso_a3: 'SSD', adm0_a3: 'SDS', iso_n3: '728' }, 'SSD'],
+    [{ name: 'Palestine', iso_a3: 'PSE', adm0_a3: 'PSX', iso_n3: '275' }, 'PSE'],
+    [{ name: 'W. Sahara', iso_a3: 'ESH', adm0_a3: 'SAH', iso_n3: '732' }, 'ESH'],
+  ])('resolves %o to %s through the alias table', (properties, code) => {
+    expect(resolveCountryCode(properties)).toEqual({ code, source: 'alias' });
+  });
+
+  it('resolves aliases by name when a map has no adm0_a3', () => {
+    expect(resolveCountryCode({ name: 'Kosovo' })).toEqual({ code: 'XKX', source: 'alias' });
+    expect(resolveCountryCode({ name: 'Northern Cyprus' })).toEqual({ code: 'CYP-NORTH', source: 'alias' });
+  });
+
+  it('falls back from iso_a3 to adm0_a3, iso_n3 and the name', () => {
+    expect(resolveCountryCode({ name: 'Germany', iso_a3: 'DEU', adm0_a3: 'DEU' })).toEqual({ code: 'DEU', source: 'iso_a3' });
+    expect(resolveCountryCode({ iso_a3: '-99', adm0_a3: 'DEU' })).toEqual({ code: 'DEU', source: 'adm0_a3' });
+    expect(resolveCountryCode({ iso_a3: '-99', iso_n3: '276' })).toEqual({ code: 'DEU', source: 'iso_n3' });
+    expect(resolveCountryCode({ name: 'Germany' })).toEqual({ code: 'DEU', source: 'name' });
+  });
+
+  it('never makes up a code', () => {
+    expect(resolveCountryCode({ name: 'Atlantis', iso_a3: '-99', adm0_a3: 'ATL' })).toEqual({ code: null, source: null });
+    expect(resolveCountryCode(null)).toEqual({ code: null, source: null });
+  });
+});
+
+describe('createCountryLookup', () => {
+  const features = readTopology(MAP_DETAIL_LEVELS[0].file);
+  const lookup = createCountryLookup(features);
+
+  it('accepts codes in any case', () => {
+    expect(lookup('deu')).toBe('DEU');
+    expect(lookup(' XKX ')).toBe('XKX');
+    expect(lookup('cyp-north')).toBe('CYP-NORTH');
+  });
+
+  it('accepts names as the map spells them', () => {
+    expect(lookup('S. Sudan')).toBe('SSD');
+    expect(lookup('w. sahara')).toBe('ESH');
+  });
+
+  it('accepts alias and ISO names', () => {
+    expect(lookup('Northern Cyprus')).toBe('CYP-NORTH');
+    expect(lookup('Somaliland')).toBe('SOL');
+    expect(lookup('United Kingdom')).toBe('GBR');
+  });
+
+  it('returns null for anything else', () => {
+    expect(lookup('Atlantis')).toBeNull();
+  });
+});
+
+describe('getCountryCodeDiagnostics', () => {
+  const feature = (properties: CountryFeatureProperties): Feature => ({ type: 'Feature', properties, geometry: { type: 'Point', coordinates: [0, 0] } });
+
+  it('lists unresolved features, duplicate codes and codes without data', () => {
+    const features = [
+      feature({ name: 'Germany', iso_a3: 'DEU', adm0_a3: 'DEU' }),
+      feature({ name: 'Deutschland', iso_a3: 'DEU', adm0_a3: 'DEU' }),
+      feature({ name: 'Atlantis', iso_a3: '-99', adm0_a3: 'ATL' }),
+      feature({ name: 'Greenland', iso_a3: 'GRL', adm0_a3: 'GRL' }),
+      feature({ name: 'Kosovo', iso_a3: '-99', adm0_a3: 'KOS' }),
+    ];
+    const diagnostics = getCountryCodeDiagnostics(features, new Set(['DEU', 'XKX']));
+
+    expect(diagnostics.unresolved).toEqual([{ name: 'Atlantis', iso_a3: '-99', adm0_a3: 'ATL' }]);
+    expect(diagnostics.duplicates).toEqual([{ code: 'DEU', names: ['Germany', 'Deutschland'] }]);
+    expect(diagnostics.withoutData).toEqual([{ code: 'GRL', name: 'Greenland', alias: COUNTRY_CODE_ALIASES.GRL }]);
+    expect(diagnostics.sources).toEqual({ alias: 2, iso_a3: 2, adm0_a3: 0, iso_n3: 0, name: 0 });
+  });
+});
@@ -0,0 +1,202 @@
+// src/utils/CountryCodes.ts
+import type { Feature } from 'geojson';
+
+import countries from 'i18n-iso-countries';
+import en from 'i18n-iso-countries/langs/en.json';
+import type { CountryFeatureProperties } from './Format_country_name';
+
+countries.registerLocale(en);
+
+// Why a map feature needs an explicit code rather than its ISO 3166-1 one
+export type CountryCodeAliasKind =
+  | 'state' // Recognised state that Natural Earth codes differently from ISO
+  | 'unrecognised' // State with limited or no recognition
+  | 'dependency' // Territory governed by another state
+  | 'territory'; // Territory without an agreed sovereign
+
+export interface CountryCodeAlias {
+  code: string;
+  kind: CountryCodeAliasKind;
+  // State that governs a dependency
+  sovereign?: string;
+  // Names the feature goes by, for maps that carry no adm0_a3
+  names: string[];
+}
+
+// Keyed by Natural Earth's adm0_a3, which every feature has, unlike iso_a3
+// (-99 for France, Norway and unrecognised states)
+export const COUNTRY_CODE_ALIASES: Record<string, CountryCodeAlias> = {
+  FRA: { code: 'FRA', kind: 'state', names: ['France'] },
+  NOR: { code: 'NOR', kind: 'state', names: ['Norway'] },
+  SDS: { code: 'SSD', kind: 'state', names: ['S. Sudan', 'South Sudan'] },
+  KOS: { code: 'XKX', kind: 'unrecognised', names: ['Kosovo'] },
+  SOL: { code: 'SOL', kind: 'unrecognised', names: ['Somaliland'] },
+  CYN: { code: 'CYP-NORTH', kind: 'unrecognised', names: ['N. Cyprus', 'Northern Cyprus'] },
+  TWN: { code: 'TWN', kind: 'unrecognised', names: ['Taiwan'] },
+  PSX: { code: 'PSE', kind: 'unrecognised', names: ['Palestine'] },
+  SAH: { code: 'ESH', kind: 'territory', names: ['W. Sahara', 'Western Sahara'] },
+  FLK: { code: 'FLK', kind: 'dependency', sovereign: 'GBR', names: ['Falkland Is.', 'Falkland Islands'] },
+  GRL: { code: 'GRL', kind: 'dependency', sovereign: 'DNK', names: ['Greenland'] },
+  PRI: { code: 'PRI', kind: 'dependency', sovereign: 'USA', names: ['Puerto Rico'] },
+  NCL: { code: 'NCL', kind: 'dependency', sovereign: 'FRA', names: ['New Caledonia'] },
+};
+
+const aliasesByName = new Map(
+  Object.values(COUNTRY_CODE_ALIASES).flatMap(alias => alias.names.map(name => [name, alias] as const))
+);
+
+// Alias codes that aren't ISO 3166-1 (Kosovo, Somaliland, ...)
+export const CUSTOM_COUNTRY_CODES = new Set(
+  Object.values(COUNTRY_CODE_ALIASES)
+    .map(alias => alias.code)
+    .filter(code => !countries.isValid(code))
+);
+
+// Where a resolved code came from, in the order the sources are tried
+export type CountryCodeSource = 'alias' | 'iso_a3' | 'adm0_a3' | 'iso_n3' | 'name';
+
+export interface CountryCodeResolution {
+  code: string | null;
+  source: CountryCodeSource | null;
+}
+
+const isIsoAlpha3 = (code: string | undefined): code is string =>
+  !!code && /^[A-Z]{3}$/.test(code) && countries.isValid(code);
+
+/**
+ * Resolves feature properties to the code used as key in the relationship
+ * data. The alias table wins; after that the ISO codes are tried and the
+ * English name last. Never makes up a code: a feature nothing matches
+ * resolves to null.
+ */
+export function resolveCountryCode(properties: CountryFeatureProperties | null | undefined): CountryCodeResolution {
+  if (!properties) return { code: null, source: null };
+  const { name, iso_a3, adm0_a3, iso_n3 } = properties;
+
+  const alias = (adm0_a3 && COUNTRY_CODE_ALIASES[adm0_a3]) || (name && aliasesByName.get(name));
+  if (alias) return { code: alias.code, source: 'alias' };
+
+  if (isIsoAlpha3(iso_a3)) return { code: iso_a3, source: 'iso_a3' };
+  if (isIsoAlpha3(adm0_a3)) return { code: adm0_a3, source: 'adm0_a3' };
+
+  if (iso_n3) {
+    const alpha3 = countries.numericToAlpha3(String(iso_n3));
+    if (alpha3) return { code: alpha3, source: 'iso_n3' };
+  }
+
+  if (name) {
+    const alpha3 = countries.getAlpha3Code(name, 'en');
+    if (alpha3) return { code: alpha3, source: 'name' };
+  }
+
+  return { code: null, source: null };
+}
+
+// Resolutions are cached per feature object, so re-rendering never resolves twice
+const featureCodes = new WeakMap<Feature, string | null>();
+
+export function getFeatureCountryCode(feature: Feature): string | null {
+  let code = featureCodes.get(feature);
+  if (code === undefined) {
+    code = resolveCountryCode(feature.properties as CountryFeatureProperties | null).code;
+    featureCodes.set(feature, code);
+  }
+  return code;
+}
+
+export interface CountryCodeIndex {
+  // Each feature with a code, keyed by it; on duplicates the first feature wins
+  byCode: Map<string, Feature>;
+  find: (code: string | null | undefined) => Feature | undefined;
+}
+
+const indexes = new WeakMap<Feature[], CountryCodeIndex>();
+
+// Resolves every feature of a collection once and looks them up by code
+export function getCountryCodeIndex(features: Feature[]): CountryCodeIndex {
+  let index = indexes.get(features);
+  if (!index) {
+    const byCode = new Map<string, Feature>();
+    features.forEach(feature => {
+      const code = getFeatureCountryCode(feature);
+      if (code && !byCode.has(code)) byCode.set(code, feature);
+    });
+    index = { byCode, find: code => (code ? byCode.get(code) : undefined) };
+    indexes.set(features, index);
+  }
+  return index;
+}
+
+export const findCountryByCode = (features: Feature[], code: string | null | undefined) =>
+  getCountryCodeIndex(features).find(code);
+
+/**
+ * Turns what a person or another tool wrote for a country back into its code:
+ * a code, a name as the map spells it (what the CSV export writes), an alias
+ * name or an ISO 3166 English name. Case doesn't matter.
+ */
+export function createCountryLookup(features: Feature[]): (value: string) => string | null {
+  const { byCode } = getCountryCodeIndex(features);
+  const codesByName = new Map<string, string>();
+  aliasesByName.forEach((alias, name) => codesByName.set(name.toLowerCase(), alias.code));
+  byCode.forEach((feature, code) => {
+    const name = (feature.properties as CountryFeatureProperties | null)?.name;
+    if (name) codesByName.set(name.toLowerCase(), code);
+  });
+
+  return value => {
+    const trimmed = value.trim();
+    const upper = trimmed.toUpperCase();
+    if (byCode.has(upper) || CUSTOM_COUNTRY_CODES.has(upper) || isIsoAlpha3(upper)) return upper;
+    return codesByName.get(trimmed.toLowerCase()) ?? countries.getAlpha3Code(trimmed, 'en') ?? null;
+  };
+}
+
+export interface CountryCodeDiagnostics {
+  // Features no source resolved
+  unresolved: CountryFeatureProperties[];
+  // Codes more than one feature resolved to, with the features' names
+  duplicates: { code: string; names: string[] }[];
+  // Codes that resolved but have no entry in the given data, e.g. relationships.json
+  withoutData: { code: string; name: string; alias?: CountryCodeAlias }[];
+  // How many features each source resolved
+  sources: Record<CountryCodeSource, number>;
+}
+
+/**
+ * Checks how the features of a map resolve: which don't, which collide and,
+ * given the codes the data knows, which resolve to a code without data.
+ * Dependencies and territories without data are expected and listed with
+ * their alias so reports can tell them apart.
+ */
+export function getCountryCodeDiagnostics(features: Feature[], knownCodes?: Set<string>): CountryCodeDiagnostics {
+  const diagnostics: CountryCodeDiagnostics = {
+    unresolved: [],
+    duplicates: [],
+    withoutData: [],
+    sources: { alias: 0, iso_a3: 0, adm0_a3: 0, iso_n3: 0, name: 0 },
+  };
+  const namesByCode = new Map<string, string[]>();
+
+  features.forEach(feature => {
+    const properties = (feature.properties ?? {}) as CountryFeatureProperties;
+    const { code, source } = resolveCountryCode(properties);
+    if (!code || !source) {
+      diagnostics.unresolved.push(properties);
+      return;
+    }
+    diagnostics.sources[source]++;
+    const name = properties.name ?? code;
+    namesByCode.set(code, [...(namesByCode.get(code) ?? []), name]);
+
+    if (knownCodes && !knownCodes.has(code)) {
+      const alias = Object.values(COUNTRY_CODE_ALIASES).find(candidate => candidate.code === code);
+      diagnostics.withoutData.push({ code, name, ...(alias && { alias }) });
+    }
+  });
+
+  namesByCode.forEach((names, code) => {
+    if (names.length > 1) diagnostics.duplicates.push({ code, names });
+  });
+  return diagnostics;
+}
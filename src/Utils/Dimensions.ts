@@ -0,0 +1,77 @@
+// src/utils/Dimensions.ts
+import type { DimensionScores, RelationshipData, RelationshipDimension, RelationshipDimensionData } from '../types/data';
+
+// Which score drives the map: the overall score, a single dimension, or a weighted composite
+export type ScoreDimension = 'overall' | RelationshipDimension | 'composite';
+
+export const RELATIONSHIP_DIMENSIONS: { key: RelationshipDimension; label: string }[] = [
+  { key: 'diplomatic', label: 'Diplomatic' },
+  { key: 'trade', label: 'Trade' },
+  { key: 'military', label: 'Military Cooperation' },
+  { key: 'cultural', label: 'Cultural Ties' },
+];
+
+export const DEFAULT_DIMENSION_WEIGHTS: DimensionScores = {
+  diplomatic: 1,
+  trade: 1,
+  military: 1,
+  cultural: 1,
+};
+
+export function getScoreDimensionLabel(dimension: ScoreDimension): string {
+  if (dimension === 'overall') return 'Overall';
+  if (dimension === 'composite') return 'Weighted Composite';
+  return RELATIONSHIP_DIMENSIONS.find(d => d.key === dimension)?.label ?? dimension;
+}
+
+// Weighted mean of the dimension scores, rounded to one decimal place.
+// Falls back to the overall score when every weight is zero.
+export function getCompositeScore(
+  overall: number,
+  scores: Partial<DimensionScores> | undefined,
+  weights: DimensionScores
+): number {
+  let weightedSum = 0;
+  let totalWeight = 0;
+  RELATIONSHIP_DIMENSIONS.forEach(({ key }) => {
+    const weight = Math.max(0, weights[key]);
+    weightedSum += (scores?.[key] ?? overall) * weight;
+    totalWeight += weight;
+  });
+  if (totalWeight === 0) return overall;
+  return Math.round((weightedSum / totalWeight) * 10) / 10;
+}
+
+/**
+ * Projects the relationship data onto the selected dimension, so that every
+ * consumer can keep reading a single number from `relations`.
+ * Dimension breakdowns are not versioned, so pairs without one keep the
+ * (possibly historical) overall score from the input data.
+ */
+export function applyScoreDimension(
+  data: RelationshipData,
+  dimensionData: RelationshipDimensionData | null | undefined,
+  dimension: ScoreDimension,
+  weights: DimensionScores
+): RelationshipData {
+  if (dimension === 'overall' || !dimensionData) return data;
+
+  const projected: RelationshipData = {};
+  Object.entries(data).forEach(([sourceCode, countryData]) => {
+    const breakdowns = dimensionData[sourceCode];
+    if (!breakdowns) {
+      projected[sourceCode] = countryData;
+      return;
+    }
+
+    const relations: { [partnerCode: string]: number } = {};
+    Object.entries(countryData.relations).forEach(([partnerCode, overall]) => {
+      const scores = breakdowns[partnerCode];
+      relations[partnerCode] = dimension === 'composite'
+        ? getCompositeScore(overall, scores, weights)
+        : scores?.[dimension] ?? overall;
+    });
+    projected[sourceCode] = { ...countryData, relations };
+  });
+  return projected;
+}
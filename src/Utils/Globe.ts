@@ -0,0 +1,62 @@
+// src/utils/Globe.ts
+import * as d3 from 'd3';
+import type { Feature } from 'geojson';
+
+export type Vector3Tuple = [number, number, number];
+
+export const GLOBE_RADIUS = 1;
+
+// How high the middle of an arc rises above the surface, relative to its angular length
+const ARC_LIFT = 0.25;
+
+/**
+ * Converts longitude/latitude to a point on a sphere, in the same orientation
+ * as three.js SphereGeometry's UV mapping so equirectangular textures line up.
+ */
+export function lonLatToVector3([lon, lat]: [number, number], radius = GLOBE_RADIUS): Vector3Tuple {
+  const phi = ((lon + 180) * Math.PI) / 180;
+  const theta = ((90 - lat) * Math.PI) / 180;
+  return [
+    -radius * Math.cos(phi) * Math.sin(theta),
+    radius * Math.cos(theta),
+    radius * Math.sin(phi) * Math.sin(theta),
+  ];
+}
+
+// Inverse of the equirectangular texture mapping
+export const uvToLonLat = (u: number, v: number): [number, number] => [u * 360 - 180, v * 180 - 90];
+
+/**
+ * Samples the great circle between two points, lifted off the surface so the
+ * arc stays visible; longer arcs rise higher.
+ */
+export function getGreatCirclePoints(from: [number, number], to: [number, number], segments = 64): Vector3Tuple[] {
+  const interpolate = d3.geoInterpolate(from, to);
+  const angle = d3.geoDistance(from, to);
+
+  return d3.range(segments + 1).map(i => {
+    const t = i / segments;
+    const altitude = Math.sin(Math.PI * t) * angle * ARC_LIFT;
+    return lonLatToVector3(interpolate(t), GLOBE_RADIUS * (1 + altitude));
+  });
+}
+
+/**
+ * Creates a lookup from a longitude/latitude to the country (or any other
+ * feature, such as a disputed area) containing it. Bounding boxes are checked
+ * first so only a handful of polygons are tested.
+ */
+export function createCountryPicker<F extends Feature>(countries: F[]) {
+  const candidates = countries.map(feature => ({ feature, bounds: d3.geoBounds(feature) }));
+
+  return (point: [number, number]): F | null => {
+    const [lon, lat] = point;
+    const match = candidates.find(({ feature, bounds: [[west, south], [east, north]] }) => {
+      if (lat < south || lat > north) return false;
+      // Bounds crossing the antimeridian have west > east
+      const inLongitude = west <= east ? lon >= west && lon <= east : lon >= west || lon <= east;
+      return inLongitude && d3.geoContains(feature, point);
+    });
+    return match?.feature ?? null;
+  };
+}
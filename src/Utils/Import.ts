@@ -0,0 +1,186 @@
+// src/utils/Import.ts
+import * as d3 from 'd3';
+import type { RelationshipData } from '../types/data';
+import { MAX_SCORE, MIN_SCORE } from './Overlay';
+
+// Datasets that can replace a bundled file
+export type ImportKind = 'relationships' | 'alliances';
+
+export type AllianceData = { [key: string]: string[] };
+
+export type ImportResult =
+  | { kind: 'relationships'; data: RelationshipData; warnings: string[] }
+  | { kind: 'alliances'; data: AllianceData; warnings: string[] };
+
+// Resolves a country code or name to a code, see createCountryLookup
+type CountryLookup = (value: string) => string | null;
+
+// Columns written by the CSV export of all relationships
+export const CSV_COLUMNS = ['Source Country', 'Target Country', 'Relationship Strength'] as const;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isValidScore = (score: unknown): score is number =>
+  typeof score === 'number' && Number.isFinite(score) && score >= MIN_SCORE && score <= MAX_SCORE;
+
+// Collects one warning per unknown country instead of one per row
+function createUnknownCountryTracker() {
+  const counts = new Map<string, number>();
+  return {
+    add: (value: string) => counts.set(value, (counts.get(value) ?? 0) + 1),
+    warnings: () => Array.from(counts, ([value, count]) =>
+      `Unknown country "${value}"${count > 1 ? ` (${count} times)` : ''}, skipped`),
+  };
+}
+
+function parseRelationshipJson(source: Record<string, unknown>, lookup: CountryLookup): ImportResult {
+  const data: RelationshipData = {};
+  const warnings: string[] = [];
+  const unknown = createUnknownCountryTracker();
+
+  Object.entries(source).forEach(([key, value]) => {
+    const code = lookup(key);
+    if (!code) {
+      unknown.add(key);
+      return;
+    }
+    if (!isObject(value) || !isObject(value.relations)) {
+      warnings.push(`${key}: entry has no "relations" object, skipped`);
+      return;
+    }
+
+    const relations: { [partnerCode: string]: number } = {};
+    Object.entries(value.relations).forEach(([partnerKey, score]) => {
+      const partner = lookup(partnerKey);
+      if (!partner) {
+        unknown.add(partnerKey);
+      } else if (partner === code) {
+        warnings.push(`${key}: scores itself, skipped`);
+      } else if (!isValidScore(score)) {
+        warnings.push(`${key} → ${partnerKey}: score must be a number in [${MIN_SCORE}, ${MAX_SCORE}], got ${JSON.stringify(score)}`);
+      } else {
+        relations[partner] = score;
+      }
+    });
+    data[code] = { name: typeof value.name === 'string' ? value.name : key, relations };
+  });
+
+  return { kind: 'relationships', data, warnings: [...unknown.warnings(), ...warnings] };
+}
+
+function parseRelationshipCsv(text: string, lookup: CountryLookup): ImportResult {
+  const rows = d3.csvParse(text.replace(/^\uFEFF/, ''));
+  const missing = CSV_COLUMNS.filter(column => !rows.columns.includes(column));
+  if (missing.length > 0) {
+    throw new Error(`CSV is missing the column(s) ${missing.map(column => `"${column}"`).join(', ')}`);
+  }
+
+  const data: RelationshipData = {};
+  const warnings: string[] = [];
+  const unknown = createUnknownCountryTracker();
+
+  rows.forEach((row, index) => {
+    // Line numbers as a spreadsheet shows them, after the header
+    const line = index + 2;
+    const sourceName = row['Source Country'] ?? '';
+    const targetName = row['Target Country'] ?? '';
+    const source = lookup(sourceName);
+    const target = lookup(targetName);
+    if (!source) unknown.add(sourceName);
+    if (!target) unknown.add(targetName);
+    if (!source || !target) return;
+
+    const score = Number(row['Relationship Strength']);
+    if (source === target) {
+      warnings.push(`Line ${line}: ${sourceName} scores itself, skipped`);
+      return;
+    }
+    if (row['Relationship Strength']?.trim() === '' || !isValidScore(score)) {
+      warnings.push(`Line ${line}: score must be a number in [${MIN_SCORE}, ${MAX_SCORE}], got "${row['Relationship Strength']}"`);
+      return;
+    }
+
+    data[source] ??= { name: sourceName, relations: {} };
+    if (data[source].relations[target] !== undefined) {
+      warnings.push(`Line ${line}: ${sourceName} → ${targetName} scored twice, the later score is used`);
+    }
+    data[source].relations[target] = score;
+  });
+
+  return { kind: 'relationships', data, warnings: [...unknown.warnings(), ...warnings] };
+}
+
+function parseAlliancesJson(source: Record<string, unknown>, lookup: CountryLookup): ImportResult {
+  const data: AllianceData = {};
+  const warnings: string[] = [];
+  const unknown = createUnknownCountryTracker();
+
+  Object.entries(source).forEach(([name, members]) => {
+    if (!Array.isArray(members)) {
+      warnings.push(`${name}: members must be a list, skipped`);
+      return;
+    }
+    const codes = new Set<string>();
+    members.forEach(member => {
+      const code = typeof member === 'string' ? lookup(member) : null;
+      if (code) codes.add(code);
+      else unknown.add(String(member));
+    });
+    if (codes.size === 0) {
+      warnings.push(`${name}: no known members, skipped`);
+      return;
+    }
+    data[name] = Array.from(codes);
+  });
+
+  return { kind: 'alliances', data, warnings: [...unknown.warnings(), ...warnings] };
+}
+
+/**
+ * Reads an imported file: RelationshipData JSON, the long-form CSV the export
+ * writes, or alliance JSON shaped like alliances.json. Countries may be given
+ * by code or name. Rows that can't be used are skipped with a warning; a file
+ * that can't be read at all, or has nothing usable, throws.
+ */
+export function parseImportFile(fileName: string, text: string, lookup: CountryLookup): ImportResult {
+  let result: ImportResult;
+
+  if (fileName.toLowerCase().endsWith('.csv')) {
+    result = parseRelationshipCsv(text, lookup);
+  } else {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch (err) {
+      throw new Error(`Not valid JSON: ${(err as Error).message}`);
+    }
+    if (!isObject(parsed)) {
+      throw new Error('Top level must be an object keyed by country code or alliance name');
+    }
+
+    const values = Object.values(parsed);
+    if (values.some(value => isObject(value) && 'relations' in value)) {
+      result = parseRelationshipJson(parsed, lookup);
+    } else if (values.some(Array.isArray)) {
+      result = parseAlliancesJson(parsed, lookup);
+    } else {
+      throw new Error('Not relationship data (country → { name, relations }) or alliance data (alliance → member list)');
+    }
+  }
+
+  if (Object.keys(result.data).length === 0) {
+    throw new Error(`No usable ${result.kind} found${result.warnings.length > 0 ? `: ${result.warnings[0]}` : ''}`);
+  }
+  return result;
+}
+
+// One-line summary of what an import holds
+export function describeImport(result: ImportResult): string {
+  if (result.kind === 'alliances') {
+    const members = Object.values(result.data).reduce((total, codes) => total + codes.length, 0);
+    return `${Object.keys(result.data).length} alliances with ${members} memberships`;
+  }
+  const scores = Object.values(result.data).reduce((total, country) => total + Object.keys(country.relations).length, 0);
+  return `${Object.keys(result.data).length} countries with ${scores} scores`;
+}
@@ -0,0 +1,123 @@
+// src/utils/MapColoring.ts
+import type { RelationshipData } from '../types/data';
+import type { RelationshipDeltas } from '../types/scenario';
+import { ColorScale, DeltaScale, DivergenceScale, SimilarityScale } from './ColorScale';
+import { getDivergence } from './Comparison';
+import { getAsymmetryGap, getAverageAsymmetry } from './Asymmetry';
+import { getDetectedBlocs } from './Communities';
+import { getIncomingDeltas } from './Scenario';
+import { getSimilarities } from './Similarity';
+
+// What the country fills on the map represent
+export type MapColorMode = 'relationship' | 'asymmetry' | 'community' | 'similarity' | 'scenario';
+
+export const MAP_COLOR_MODES: { key: MapColorMode; label: string }[] = [
+  { key: 'relationship', label: 'Relationship Score' },
+  { key: 'asymmetry', label: 'Asymmetry' },
+  { key: 'community', label: 'Detected Blocs' },
+  { key: 'similarity', label: 'Similarity' },
+  { key: 'scenario', label: 'Scenario Deltas' },
+];
+
+export const NEUTRAL_FILL = '#4A5568';
+export const SELECTED_FILL = '#3b82f6';
+export const COMPARED_FILL = '#f97316';
+export const ALLIANCE_FILL = '#D97706';
+
+// Categorical palette for detected blocs; wraps around if there are more blocs than colors
+const BLOC_FILLS = ['#0ea5e9', '#ef4444', '#22c55e', '#a855f7', '#eab308', '#ec4899', '#14b8a6', '#f97316', '#6366f1', '#84cc16'];
+
+export function getBlocFill(blocIndex: number): string {
+  return BLOC_FILLS[blocIndex % BLOC_FILLS.length];
+}
+
+export interface CountryFillOptions {
+  relationshipData: RelationshipData;
+  colorMode: MapColorMode;
+  selectedId: string | null;
+  comparedId: string | null;
+  allianceMembers: Set<string> | null;
+  // Predicted changes of the active scenario, shown in scenario mode
+  scenarioDeltas?: RelationshipDeltas | null;
+}
+
+/**
+ * Builds the fill function shared by the live map and the exported SVG, so
+ * both always agree on what a country's color means.
+ */
+export function createCountryFill({
+  relationshipData,
+  colorMode,
+  selectedId,
+  comparedId,
+  allianceMembers,
+  scenarioDeltas,
+}: CountryFillOptions): (countryCode: string | null) => string {
+  // Only computed when needed: with no selection, asymmetry mode shades by each country's average gap
+  const averageAsymmetry = colorMode === 'asymmetry' && !selectedId ? getAverageAsymmetry(relationshipData) : null;
+  const blocIndex = colorMode === 'community'
+    ? new Map(getDetectedBlocs(relationshipData).flatMap((bloc, i) => bloc.members.map(code => [code, i] as const)))
+    : null;
+  // With no selection, scenario mode shades by how each country's standing is predicted to change
+  const incomingDeltas = colorMode === 'scenario' && !selectedId && scenarioDeltas
+    ? getIncomingDeltas(scenarioDeltas, relationshipData)
+    : null;
+  // Similarity needs a selection to compare against; without one the map stays neutral
+  const similarities = colorMode === 'similarity' && selectedId
+    ? new Map(getSimilarities(relationshipData, selectedId).map(({ code, similarity }) => [code, similarity]))
+    : null;
+
+  return (countryCode) => {
+    if (!countryCode) return NEUTRAL_FILL;
+    if (allianceMembers) return allianceMembers.has(countryCode) ? ALLIANCE_FILL : NEUTRAL_FILL;
+
+    if (selectedId && comparedId) {
+      if (countryCode === selectedId) return SELECTED_FILL;
+      if (countryCode === comparedId) return COMPARED_FILL;
+      // Compare mode: shade by how far apart the two countries' scores are
+      const scoreA = relationshipData[selectedId]?.relations[countryCode] || 0;
+      const scoreB = relationshipData[comparedId]?.relations[countryCode] || 0;
+      return DivergenceScale(getDivergence(scoreA, scoreB));
+    }
+
+    if (colorMode === 'asymmetry') {
+      if (!selectedId) {
+        const average = averageAsymmetry?.get(countryCode);
+        return average === undefined ? NEUTRAL_FILL : DivergenceScale(average);
+      }
+      if (countryCode === selectedId) return SELECTED_FILL;
+      const outgoing = relationshipData[selectedId]?.relations[countryCode];
+      const incoming = relationshipData[countryCode]?.relations[selectedId];
+      if (outgoing === undefined || incoming === undefined) return NEUTRAL_FILL;
+      return DivergenceScale(getAsymmetryGap(outgoing, incoming));
+    }
+
+    if (colorMode === 'similarity') {
+      if (countryCode === selectedId) return SELECTED_FILL;
+      const similarity = similarities?.get(countryCode);
+      return similarity === undefined ? NEUTRAL_FILL : SimilarityScale(similarity);
+    }
+
+    if (colorMode === 'scenario') {
+      if (!selectedId) {
+        const average = incomingDeltas?.get(countryCode);
+        return average === undefined ? NEUTRAL_FILL : DeltaScale(average);
+      }
+      if (countryCode === selectedId) return SELECTED_FILL;
+      return DeltaScale(scenarioDeltas?.[selectedId]?.[countryCode] ?? 0);
+    }
+
+    if (blocIndex) {
+      if (countryCode === selectedId) return SELECTED_FILL;
+      const index = blocIndex.get(countryCode);
+      return index === undefined ? NEUTRAL_FILL : getBlocFill(index);
+    }
+
+    if (selectedId) {
+      if (countryCode === selectedId) return SELECTED_FILL;
+      const relations = relationshipData[selectedId]?.relations || {};
+      return ColorScale(relations[countryCode] || 0);
+    }
+    return NEUTRAL_FILL;
+  };
+}
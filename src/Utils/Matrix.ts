@@ -0,0 +1,103 @@
+// src/utils/Matrix.ts
+import type { RelationshipData } from '../types/data';
+import { getPrimaryAlliance } from './Network';
+
+// How the rows and columns of the matrix view are ordered
+export type MatrixOrder = 'name' | 'alliance' | 'region' | 'cluster';
+
+export const MATRIX_ORDERS: { key: MatrixOrder; label: string }[] = [
+  { key: 'name', label: 'Alphabetical' },
+  { key: 'alliance', label: 'Alliance' },
+  { key: 'region', label: 'Region' },
+  { key: 'cluster', label: 'Clustering' },
+];
+
+const byName = (relationshipData: RelationshipData) => (a: string, b: string) =>
+  relationshipData[a].name.localeCompare(relationshipData[b].name);
+
+// Euclidean distance between two countries' score profiles; unscored pairs count as neutral
+function profileDistance(relationshipData: RelationshipData, codes: string[], a: string, b: string): number {
+  const relationsA = relationshipData[a].relations;
+  const relationsB = relationshipData[b].relations;
+  return Math.sqrt(codes.reduce((sum, code) => sum + ((relationsA[code] || 0) - (relationsB[code] || 0)) ** 2, 0));
+}
+
+/**
+ * Average-linkage hierarchical clustering of the score profiles. Returns the
+ * leaf order of the dendrogram, so countries that see the world alike end up
+ * next to each other.
+ */
+export function getClusterOrder(relationshipData: RelationshipData, codes: string[]): string[] {
+  if (codes.length < 3) return [...codes];
+
+  const distance = codes.map(a => codes.map(b => (a === b ? 0 : profileDistance(relationshipData, codes, a, b))));
+
+  // leaves[i] holds cluster i's members in dendrogram order; merged clusters are emptied
+  const leaves = codes.map((_, i) => [i]);
+  const active = new Set(codes.map((_, i) => i));
+
+  while (active.size > 1) {
+    let bestA = -1;
+    let bestB = -1;
+    let bestDistance = Infinity;
+    active.forEach(i => active.forEach(j => {
+      if (i < j && distance[i][j] < bestDistance) {
+        bestDistance = distance[i][j];
+        bestA = i;
+        bestB = j;
+      }
+    }));
+
+    // Average linkage: size-weighted mean of the two merged clusters' distances
+    const sizeA = leaves[bestA].length;
+    const sizeB = leaves[bestB].length;
+    active.forEach(k => {
+      if (k === bestA || k === bestB) return;
+      const d = (distance[bestA][k] * sizeA + distance[bestB][k] * sizeB) / (sizeA + sizeB);
+      distance[bestA][k] = d;
+      distance[k][bestA] = d;
+    });
+    leaves[bestA] = [...leaves[bestA], ...leaves[bestB]];
+    leaves[bestB] = [];
+    active.delete(bestB);
+  }
+
+  const [root] = active;
+  return leaves[root].map(i => codes[i]);
+}
+
+/**
+ * Row/column order for the matrix view. Countries without a group (no
+ * alliance, unknown region) are placed last.
+ */
+export function getMatrixOrder(
+  relationshipData: RelationshipData,
+  order: MatrixOrder,
+  alliances: { [key: string]: string[] },
+  regions: Map<string, string>
+): string[] {
+  const codes = Object.keys(relationshipData).sort(byName(relationshipData));
+
+  const groupedBy = (groupOf: (code: string) => string | null, groupOrder: string[]) => {
+    const rank = (code: string) => {
+      const group = groupOf(code);
+      return group === null ? groupOrder.length : groupOrder.indexOf(group);
+    };
+    // Array.prototype.sort is stable, so names stay alphabetical within a group
+    return [...codes].sort((a, b) => rank(a) - rank(b));
+  };
+
+  switch (order) {
+    case 'alliance':
+      return groupedBy(code => getPrimaryAlliance(code, alliances), Object.keys(alliances));
+    case 'region':
+      return groupedBy(
+        code => regions.get(code) ?? null,
+        Array.from(new Set(regions.values())).sort()
+      );
+    case 'cluster':
+      return getClusterOrder(relationshipData, codes);
+    default:
+      return codes;
+  }
+}
@@ -0,0 +1,58 @@
+// src/utils/Network.ts
+import type { RelationshipData } from '../types/data';
+
+export interface NetworkNode {
+  id: string;
+  name: string;
+  // First alliance the country belongs to, used to group nodes in the layout
+  alliance: string | null;
+}
+
+export interface NetworkEdge {
+  source: string;
+  target: string;
+  // Mean of both directions when both are scored
+  score: number;
+}
+
+export interface RelationshipNetwork {
+  nodes: NetworkNode[];
+  edges: NetworkEdge[];
+}
+
+export function getPrimaryAlliance(code: string, alliances: { [key: string]: string[] }): string | null {
+  const entry = Object.entries(alliances).find(([, members]) => members.includes(code));
+  return entry ? entry[0] : null;
+}
+
+/**
+ * Turns the directed relationship matrix into an undirected graph.
+ * Only ties whose strength reaches the threshold (in absolute value) become edges.
+ */
+export function buildRelationshipNetwork(
+  relationshipData: RelationshipData,
+  alliances: { [key: string]: string[] },
+  threshold: number
+): RelationshipNetwork {
+  const nodes: NetworkNode[] = Object.entries(relationshipData).map(([id, countryData]) => ({
+    id,
+    name: countryData.name,
+    alliance: getPrimaryAlliance(id, alliances),
+  }));
+
+  const edges: NetworkEdge[] = [];
+  Object.entries(relationshipData).forEach(([a, countryData]) => {
+    Object.entries(countryData.relations).forEach(([b, aToB]) => {
+      if (!relationshipData[b]) return;
+      const bToA = relationshipData[b].relations[a];
+      // Visit each unordered pair once; pairs scored in one direction only are visited from that side
+      if (bToA !== undefined && a >= b) return;
+      const score = bToA === undefined ? aToB : (aToB + bToA) / 2;
+      if (Math.abs(score) >= threshold) {
+        edges.push({ source: a, target: b, score });
+      }
+    });
+  });
+
+  return { nodes, edges };
+}
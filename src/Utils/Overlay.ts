@@ -0,0 +1,85 @@
+// src/utils/Overlay.ts
+import { saveAs } from 'file-saver';
+import type { RelationshipData, RelationshipOverlay } from '../types/data';
+
+// Scores the editor allows, the same range scripts/build-relationships.ts validates
+export const MIN_SCORE = -10;
+export const MAX_SCORE = 10;
+
+const OVERLAY_STORAGE_KEY = 'relationshipOverlay';
+
+export interface OverlayChange {
+  source: string;
+  partner: string;
+  before: number | undefined;
+  after: number;
+}
+
+export const formatScore = (score: number) => (score > 0 ? `+${score}` : String(score));
+
+// Edited scores replace the fetched ones; countries without edits keep their object
+export function applyRelationshipOverlay(baseline: RelationshipData, overlay: RelationshipOverlay): RelationshipData {
+  const sources = Object.keys(overlay).filter(source => baseline[source]);
+  if (sources.length === 0) return baseline;
+
+  const edited: RelationshipData = { ...baseline };
+  sources.forEach(source => {
+    edited[source] = { ...baseline[source], relations: { ...baseline[source].relations, ...overlay[source] } };
+  });
+  return edited;
+}
+
+// Every edited score next to its fetched value, by source and partner name
+export function getOverlayChanges(baseline: RelationshipData, overlay: RelationshipOverlay): OverlayChange[] {
+  const nameOf = (code: string) => baseline[code]?.name ?? code;
+  return Object.entries(overlay)
+    .flatMap(([source, partners]) => Object.entries(partners).map(([partner, after]) => ({
+      source,
+      partner,
+      before: baseline[source]?.relations[partner],
+      after,
+    })))
+    .sort((a, b) => nameOf(a.source).localeCompare(nameOf(b.source)) || nameOf(a.partner).localeCompare(nameOf(b.partner)));
+}
+
+export const countOverlayChanges = (overlay: RelationshipOverlay) =>
+  Object.values(overlay).reduce((total, partners) => total + Object.keys(partners).length, 0);
+
+// Unreadable or malformed storage counts as no edits
+export function loadStoredOverlay(): RelationshipOverlay {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(OVERLAY_STORAGE_KEY) ?? '{}');
+    if (typeof stored !== 'object' || stored === null || Array.isArray(stored)) return {};
+
+    const overlay: RelationshipOverlay = {};
+    Object.entries(stored).forEach(([source, partners]) => {
+      if (typeof partners !== 'object' || partners === null) return;
+      Object.entries(partners as Record<string, unknown>).forEach(([partner, score]) => {
+        if (typeof score !== 'number' || score < MIN_SCORE || score > MAX_SCORE) return;
+        overlay[source] = { ...overlay[source], [partner]: score };
+      });
+    });
+    return overlay;
+  } catch {
+    return {};
+  }
+}
+
+// Unavailable or full storage keeps the edits for this session only
+export function storeOverlay(overlay: RelationshipOverlay) {
+  try {
+    if (countOverlayChanges(overlay) === 0) {
+      localStorage.removeItem(OVERLAY_STORAGE_KEY);
+    } else {
+      localStorage.setItem(OVERLAY_STORAGE_KEY, JSON.stringify(overlay));
+    }
+  } catch {
+    // The edits stay in the store
+  }
+}
+
+// Same layout as the file scripts/build-relationships.ts writes, so it can replace it as is
+export function saveRelationshipsJson(data: RelationshipData) {
+  const blob = new Blob([JSON.stringify(data, null, 2) + '\n'], { type: 'application/json;charset=utf-8' });
+  saveAs(blob, 'relationships.json');
+}
@@ -0,0 +1,113 @@
+// src/utils/Rankings.ts
+import type { RelationshipData } from '../types/data';
+
+export interface CountryRanking {
+  code: string;
+  name: string;
+  // Mean score the rest of the world gives this country
+  inMean: number;
+  // Mean score this country gives the rest of the world
+  outMean: number;
+  // Variance of the incoming scores: high when the world is split on this country
+  variance: number;
+  // Weighted PageRank over friendly ties, scaled so that the average country is 1
+  influence: number;
+  // Partners with a negative score in either direction
+  hostileCount: number;
+}
+
+export type RankingKey = Exclude<keyof CountryRanking, 'code' | 'name'>;
+
+export const RANKING_COLUMNS: { key: RankingKey; label: string; description: string }[] = [
+  { key: 'inMean', label: 'Liked', description: 'Mean score received' },
+  { key: 'outMean', label: 'Friendly', description: 'Mean score given' },
+  { key: 'variance', label: 'Polarizing', description: 'Variance of scores received' },
+  { key: 'influence', label: 'Influence', description: 'PageRank over friendly ties (1 = average)' },
+  { key: 'hostileCount', label: 'Hostile', description: 'Partners with a negative score either way' },
+];
+
+const PAGERANK_DAMPING = 0.85;
+const PAGERANK_MAX_ITERATIONS = 100;
+const PAGERANK_TOLERANCE = 1e-9;
+
+const round = (value: number, digits: number) => Number(value.toFixed(digits));
+
+const mean = (values: number[]) => (values.length === 0 ? 0 : values.reduce((sum, v) => sum + v, 0) / values.length);
+
+/**
+ * PageRank where each country endorses its partners in proportion to how
+ * positively it scores them. Hostile and neutral scores pass on nothing.
+ */
+export function getInfluenceScores(relationshipData: RelationshipData): Map<string, number> {
+  const codes = Object.keys(relationshipData);
+  const n = codes.length;
+  if (n === 0) return new Map();
+
+  const index = new Map(codes.map((code, i) => [code, i]));
+  const outLinks = codes.map(code =>
+    Object.entries(relationshipData[code].relations)
+      .filter(([partner, score]) => score > 0 && partner !== code && index.has(partner))
+      .map(([partner, score]) => ({ target: index.get(partner)!, score }))
+  );
+  const outWeight = outLinks.map(links => links.reduce((sum, { score }) => sum + score, 0));
+
+  let rank = new Array<number>(n).fill(1 / n);
+  for (let iteration = 0; iteration < PAGERANK_MAX_ITERATIONS; iteration++) {
+    // Countries with no friendly ties spread their rank evenly
+    const dangling = rank.reduce((sum, r, i) => (outWeight[i] === 0 ? sum + r : sum), 0);
+    const next = new Array<number>(n).fill((1 - PAGERANK_DAMPING) / n + (PAGERANK_DAMPING * dangling) / n);
+    outLinks.forEach((links, i) => {
+      links.forEach(({ target, score }) => {
+        next[target] += (PAGERANK_DAMPING * rank[i] * score) / outWeight[i];
+      });
+    });
+
+    const change = next.reduce((sum, r, i) => sum + Math.abs(r - rank[i]), 0);
+    rank = next;
+    if (change < PAGERANK_TOLERANCE) break;
+  }
+
+  return new Map(codes.map((code, i) => [code, rank[i] * n]));
+}
+
+export function getCountryRankings(relationshipData: RelationshipData): CountryRanking[] {
+  const influence = getInfluenceScores(relationshipData);
+  const incoming = new Map<string, number[]>();
+  const hostilePartners = new Map<string, Set<string>>();
+
+  const addHostile = (a: string, b: string) => {
+    if (!hostilePartners.has(a)) hostilePartners.set(a, new Set());
+    hostilePartners.get(a)!.add(b);
+  };
+
+  Object.entries(relationshipData).forEach(([source, { relations }]) => {
+    Object.entries(relations).forEach(([target, score]) => {
+      if (target === source) return;
+      if (!incoming.has(target)) incoming.set(target, []);
+      incoming.get(target)!.push(score);
+      if (score < 0) {
+        addHostile(source, target);
+        addHostile(target, source);
+      }
+    });
+  });
+
+  return Object.entries(relationshipData).map(([code, { name, relations }]) => {
+    const received = incoming.get(code) || [];
+    const receivedMean = mean(received);
+    const given = Object.entries(relations).filter(([partner]) => partner !== code).map(([, score]) => score);
+    return {
+      code,
+      name,
+      inMean: round(receivedMean, 1),
+      outMean: round(mean(given), 1),
+      variance: round(mean(received.map(score => (score - receivedMean) ** 2)), 1),
+      influence: round(influence.get(code) || 0, 2),
+      hostileCount: hostilePartners.get(code)?.size || 0,
+    };
+  });
+}
+
+export function sortRankings(rankings: CountryRanking[], key: RankingKey, ascending = false): CountryRanking[] {
+  return [...rankings].sort((a, b) => (ascending ? a[key] - b[key] : b[key] - a[key]) || a.name.localeCompare(b.name));
+}
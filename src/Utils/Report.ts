@@ -0,0 +1,323 @@
+// src/utils/Report.ts
+import * as d3 from 'd3';
+import type { jsPDF } from 'jspdf';
+import type { RelationshipData } from '../types/data';
+import type { ConflictZone } from '../types/conflict';
+import { ColorScale } from './ColorScale';
+import { formatScore } from './Overlay';
+import { isUnreciprocated } from './Asymmetry';
+import { getCountryRankings } from './Rankings';
+import { getConflictIntensityLabel, getConflictTypeLabel, getConflictYearsLabel } from './Conflicts';
+import { rasterizeSvgString } from './SvgExport';
+
+// Allies and adversaries listed at the top of the report
+const REPORT_TOP_COUNT = 5;
+
+export interface ReportRelation {
+  code: string;
+  name: string;
+  score: number;
+  // The partner's score of the country, if it has one
+  reverseScore: number | undefined;
+}
+
+export interface CountryReport {
+  code: string;
+  name: string;
+  // Shown under the title: the date and what the scores measure
+  subtitle: string;
+  allies: ReportRelation[];
+  adversaries: ReportRelation[];
+  // Every scored partner, friendliest first
+  relations: ReportRelation[];
+  conflicts: ConflictZone[];
+  alliances: string[];
+  stats: { label: string; value: string }[];
+}
+
+export interface ReportMap {
+  svg: string;
+  width: number;
+  height: number;
+}
+
+const formatMean = (value: number) => formatScore(Number(value.toFixed(2)));
+
+/**
+ * Collects what a country briefing shows from the data currently on the map,
+ * so the report matches the selected dimension, year and edits.
+ */
+export function buildCountryReport(
+  relationshipData: RelationshipData,
+  countryId: string,
+  conflicts: ConflictZone[],
+  alliances: { [key: string]: string[] },
+  subtitle: string
+): CountryReport | null {
+  const country = relationshipData[countryId];
+  if (!country) return null;
+
+  const relations = Object.entries(country.relations)
+    .filter(([code]) => code !== countryId)
+    .map(([code, score]) => ({
+      code,
+      name: relationshipData[code]?.name || code,
+      score,
+      reverseScore: relationshipData[code]?.relations[countryId],
+    }))
+    .sort((a, b) => b.score - a.score || a.name.localeCompare(b.name));
+
+  const rankings = getCountryRankings(relationshipData);
+  const byInfluence = [...rankings].sort((a, b) => b.influence - a.influence);
+  const ranking = rankings.find(({ code }) => code === countryId);
+  const influenceRank = byInfluence.findIndex(({ code }) => code === countryId) + 1;
+
+  const stats = [
+    { label: 'Partners scored', value: String(relations.length) },
+    { label: 'Friendly', value: String(relations.filter(({ score }) => score > 0).length) },
+    { label: 'Hostile', value: String(relations.filter(({ score }) => score < 0).length) },
+    { label: 'Not reciprocated', value: String(relations.filter(({ score, reverseScore }) => isUnreciprocated(score, reverseScore)).length) },
+  ];
+  if (ranking) {
+    stats.push(
+      { label: 'Mean score given', value: formatMean(ranking.outMean) },
+      { label: 'Mean score received', value: formatMean(ranking.inMean) },
+      { label: 'Influence', value: `${ranking.influence.toFixed(2)} (#${influenceRank} of ${rankings.length})` }
+    );
+  }
+
+  return {
+    code: countryId,
+    name: country.name,
+    subtitle,
+    allies: relations.filter(({ score }) => score > 0).slice(0, REPORT_TOP_COUNT),
+    adversaries: relations.filter(({ score }) => score < 0).reverse().slice(0, REPORT_TOP_COUNT),
+    relations,
+    conflicts: conflicts.filter(conflict => conflict.countries.includes(countryId)),
+    alliances: Object.entries(alliances)
+      .filter(([, members]) => members.includes(countryId))
+      .map(([alliance]) => alliance)
+      .sort((a, b) => a.localeCompare(b)),
+    stats,
+  };
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const formatOptionalScore = (score: number | undefined) => (score === undefined ? '–' : formatScore(score));
+
+const REPORT_STYLES = `
+  body { font-family: system-ui, -apple-system, 'Segoe UI', sans-serif; color: #1f2937; max-width: 60rem; margin: 2rem auto; padding: 0 1rem; }
+  h1 { margin-bottom: 0.25rem; }
+  h2 { margin-top: 2rem; border-bottom: 1px solid #e5e7eb; padding-bottom: 0.25rem; }
+  .subtitle { color: #6b7280; margin-top: 0; }
+  .map { width: 100%; height: auto; border-radius: 0.5rem; }
+  .stats { display: grid; grid-template-columns: repeat(auto-fill, minmax(11rem, 1fr)); gap: 0.5rem; }
+  .stat { background: #f3f4f6; border-radius: 0.5rem; padding: 0.5rem 0.75rem; }
+  .stat span { display: block; font-size: 0.75rem; color: #6b7280; }
+  .columns { display: grid; grid-template-columns: 1fr 1fr; gap: 2rem; }
+  table { width: 100%; border-collapse: collapse; font-size: 0.875rem; }
+  th, td { text-align: left; padding: 0.25rem 0.5rem; border-bottom: 1px solid #f3f4f6; }
+  td.score { font-weight: bold; font-variant-numeric: tabular-nums; }
+  .conflict p { margin: 0.25rem 0; }
+  @media print { body { margin: 0; } h2 { break-after: avoid; } tr { break-inside: avoid; } }
+`;
+
+function renderRelationRows(relations: ReportRelation[]) {
+  return relations.map(({ name, score, reverseScore }) => `
+      <tr>
+        <td>${escapeHtml(name)}</td>
+        <td class="score" style="color: ${ColorScale(score)}">${formatScore(score)}</td>
+        <td class="score"${reverseScore === undefined ? '' : ` style="color: ${ColorScale(reverseScore)}"`}>${formatOptionalScore(reverseScore)}</td>
+      </tr>`).join('');
+}
+
+function renderRelationTable(relations: ReportRelation[], emptyText: string) {
+  if (relations.length === 0) return `<p>${emptyText}</p>`;
+  return `<table><thead><tr><th>Country</th><th>Score</th><th>In return</th></tr></thead><tbody>${renderRelationRows(relations)}</tbody></table>`;
+}
+
+// A standalone HTML page with the map inlined, so the file opens anywhere without the app
+export function createReportHtml(report: CountryReport, map: ReportMap): string {
+  const mapSource = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(map.svg)}`;
+  const conflicts = report.conflicts.map(conflict => `
+    <div class="conflict">
+      <h3>${escapeHtml(conflict.name)}</h3>
+      <p>${getConflictTypeLabel(conflict.type)} · ${getConflictIntensityLabel(conflict.intensity)} · ${getConflictYearsLabel(conflict)}</p>
+      <p>${escapeHtml(conflict.description)}</p>
+    </div>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(report.name)} – Country Briefing</title>
+  <style>${REPORT_STYLES}</style>
+</head>
+<body>
+  <h1>${escapeHtml(report.name)}</h1>
+  <p class="subtitle">${escapeHtml(report.subtitle)}</p>
+  <img class="map" src="${mapSource}" width="${map.width}" height="${map.height}" alt="Map of ${escapeHtml(report.name)}'s relationships">
+
+  <h2>Summary</h2>
+  <div class="stats">
+    ${report.stats.map(({ label, value }) => `<div class="stat"><span>${label}</span>${escapeHtml(value)}</div>`).join('')}
+  </div>
+  <p><strong>Alliances:</strong> ${report.alliances.length > 0 ? report.alliances.map(escapeHtml).join(', ') : 'none'}</p>
+
+  <div class="columns">
+    <div><h2>Top Allies</h2>${renderRelationTable(report.allies, 'No friendly scores.')}</div>
+    <div><h2>Top Adversaries</h2>${renderRelationTable(report.adversaries, 'No hostile scores.')}</div>
+  </div>
+
+  <h2>Conflicts</h2>
+  ${conflicts || '<p>No recorded conflicts.</p>'}
+
+  <h2>All Relations (${report.relations.length})</h2>
+  ${renderRelationTable(report.relations, 'No scored partners.')}
+</body>
+</html>
+`;
+}
+
+// PDF page layout, in millimetres on A4 portrait
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const MARGIN = 15;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+const LINE_HEIGHT = 5.5;
+
+const TEXT_COLOR = '#1f2937';
+const MUTED_COLOR = '#6b7280';
+
+const toHex = (color: string) => d3.color(color)?.formatHex() ?? TEXT_COLOR;
+
+// The built-in PDF fonts only cover Latin-1, so typographic punctuation is swapped for plain characters
+const toPdfText = (text: string) =>
+  text
+    .replace(/[\u2018\u2019]/g, "'")
+    .replace(/[\u201c\u201d]/g, '"')
+    .replace(/[\u2013\u2014]/g, '-')
+    .replace(/\u2026/g, '...')
+    .replace(/[\u0100-\uffff]/g, '');
+
+// Writes the report top to bottom, starting a new page whenever the next block wouldn't fit
+function createPdfWriter(doc: jsPDF) {
+  let y = MARGIN;
+
+  const ensureSpace = (height: number) => {
+    if (y + height <= PAGE_HEIGHT - MARGIN) return;
+    doc.addPage();
+    y = MARGIN;
+  };
+
+  const paragraph = (text: string, color = TEXT_COLOR) => {
+    doc.setFont('helvetica', 'normal').setFontSize(10).setTextColor(color);
+    const lines: string[] = doc.splitTextToSize(toPdfText(text), CONTENT_WIDTH);
+    lines.forEach(line => {
+      ensureSpace(LINE_HEIGHT);
+      doc.text(line, MARGIN, y + LINE_HEIGHT - 1.5);
+      y += LINE_HEIGHT;
+    });
+  };
+
+  return {
+    ensureSpace,
+    paragraph,
+
+    title(text: string, subtitle: string) {
+      doc.setFont('helvetica', 'bold').setFontSize(20).setTextColor(TEXT_COLOR);
+      doc.text(toPdfText(text), MARGIN, y + 7);
+      y += 10;
+      paragraph(subtitle, MUTED_COLOR);
+      y += 2;
+    },
+
+    heading(text: string) {
+      ensureSpace(LINE_HEIGHT * 3);
+      y += LINE_HEIGHT / 2;
+      doc.setFont('helvetica', 'bold').setFontSize(13).setTextColor(TEXT_COLOR);
+      doc.text(toPdfText(text), MARGIN, y + LINE_HEIGHT);
+      y += LINE_HEIGHT * 1.5;
+    },
+
+    image(canvas: HTMLCanvasElement, width: number, height: number) {
+      const imageHeight = (CONTENT_WIDTH * height) / width;
+      ensureSpace(imageHeight);
+      doc.addImage(canvas.toDataURL('image/jpeg', 0.9), 'JPEG', MARGIN, y, CONTENT_WIDTH, imageHeight);
+      y += imageHeight + 2;
+    },
+
+    // Relations as rows of name, score and score in return, with the header repeated on each page
+    relationTable(relations: ReportRelation[], emptyText: string) {
+      if (relations.length === 0) {
+        paragraph(emptyText, MUTED_COLOR);
+        return;
+      }
+      const columns = [MARGIN, MARGIN + CONTENT_WIDTH - 40, MARGIN + CONTENT_WIDTH - 15];
+      const header = () => {
+        doc.setFont('helvetica', 'bold').setFontSize(9).setTextColor(MUTED_COLOR);
+        ['Country', 'Score', 'In return'].forEach((label, i) => doc.text(label, columns[i], y + LINE_HEIGHT - 1.5));
+        y += LINE_HEIGHT;
+      };
+
+      ensureSpace(LINE_HEIGHT * 2);
+      header();
+      relations.forEach(({ name, score, reverseScore }) => {
+        if (y + LINE_HEIGHT > PAGE_HEIGHT - MARGIN) {
+          ensureSpace(LINE_HEIGHT * 2);
+          header();
+        }
+        const baseline = y + LINE_HEIGHT - 1.5;
+        doc.setFont('helvetica', 'normal').setFontSize(10).setTextColor(TEXT_COLOR);
+        doc.text(doc.splitTextToSize(toPdfText(name), columns[1] - columns[0] - 2)[0], columns[0], baseline);
+        doc.setFont('helvetica', 'bold').setTextColor(toHex(ColorScale(score)));
+        doc.text(formatScore(score), columns[1], baseline);
+        doc.setTextColor(reverseScore === undefined ? MUTED_COLOR : toHex(ColorScale(reverseScore)));
+        doc.text(toPdfText(formatOptionalScore(reverseScore)), columns[2], baseline);
+        y += LINE_HEIGHT;
+      });
+    },
+  };
+}
+
+/**
+ * Renders the report to a PDF in the browser: the map as an image, then the
+ * summary, top partners, conflicts and the full relations table.
+ */
+export async function createReportPdf(report: CountryReport, map: ReportMap): Promise<Blob> {
+  // jsPDF is only needed for this export, so it stays out of the main bundle
+  const [{ jsPDF }, canvas] = await Promise.all([
+    import('jspdf'),
+    rasterizeSvgString(map.svg, map.width, map.height),
+  ]);
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const writer = createPdfWriter(doc);
+
+  writer.title(report.name, report.subtitle);
+  writer.image(canvas, map.width, map.height);
+
+  writer.heading('Summary');
+  writer.paragraph(report.stats.map(({ label, value }) => `${label}: ${value}`).join('   ·   '));
+  writer.paragraph(`Alliances: ${report.alliances.length > 0 ? report.alliances.join(', ') : 'none'}`);
+
+  writer.heading('Top Allies');
+  writer.relationTable(report.allies, 'No friendly scores.');
+  writer.heading('Top Adversaries');
+  writer.relationTable(report.adversaries, 'No hostile scores.');
+
+  writer.heading('Conflicts');
+  if (report.conflicts.length === 0) writer.paragraph('No recorded conflicts.', MUTED_COLOR);
+  report.conflicts.forEach(conflict => {
+    writer.ensureSpace(LINE_HEIGHT * 3);
+    writer.paragraph(conflict.name);
+    writer.paragraph(`${getConflictTypeLabel(conflict.type)} · ${getConflictIntensityLabel(conflict.intensity)} · ${getConflictYearsLabel(conflict)}`, MUTED_COLOR);
+    writer.paragraph(conflict.description, MUTED_COLOR);
+  });
+
+  writer.heading(`All Relations (${report.relations.length})`);
+  writer.relationTable(report.relations, 'No scored partners.');
+
+  return doc.output('blob');
+}
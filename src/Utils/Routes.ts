@@ -0,0 +1,160 @@
+// src/utils/Routes.ts
+import type { RelationshipData } from '../types/data';
+import { MAX_SCORE } from './Overlay';
+
+export const DEFAULT_ROUTE_COUNT = 5;
+
+export interface RouteOptions {
+  // Number of alternative routes to find
+  count: number;
+  // Weakest friendly tie a route may pass through
+  minTie: number;
+}
+
+export const DEFAULT_ROUTE_OPTIONS: RouteOptions = {
+  count: DEFAULT_ROUTE_COUNT,
+  minTie: 1,
+};
+
+export interface DiplomaticRoute {
+  // Countries from source to target
+  path: string[];
+  // Friendly tie between each consecutive pair
+  ties: number[];
+  weakestTie: number;
+  cost: number;
+}
+
+/**
+ * The friendly tie between two countries: the weaker of both directions, as
+ * a mediator needs to be on good terms both ways. Null unless every scored
+ * direction is positive.
+ */
+export function getFriendlyTie(relationshipData: RelationshipData, a: string, b: string): number | null {
+  const scores = [relationshipData[a]?.relations[b], relationshipData[b]?.relations[a]]
+    .filter((s): s is number => s !== undefined);
+  if (scores.length === 0) return null;
+  const tie = Math.min(...scores);
+  return tie > 0 ? tie : null;
+}
+
+// A +10 tie costs 1 and a +1 tie costs 10, so routes favour a few strong ties over many weak ones
+const tieCost = (tie: number) => MAX_SCORE / tie;
+
+type Graph = Map<string, Map<string, number>>;
+
+function buildFriendlyGraph(relationshipData: RelationshipData, minTie: number): Graph {
+  const graph: Graph = new Map(Object.keys(relationshipData).map(code => [code, new Map()]));
+  const codes = Object.keys(relationshipData);
+  codes.forEach((a, i) => {
+    codes.slice(i + 1).forEach(b => {
+      const tie = getFriendlyTie(relationshipData, a, b);
+      if (tie === null || tie < minTie) return;
+      graph.get(a)!.set(b, tie);
+      graph.get(b)!.set(a, tie);
+    });
+  });
+  return graph;
+}
+
+// Cheapest path avoiding the given countries and edges ("a>b"), or null when the target can't be reached
+function findCheapestPath(
+  graph: Graph,
+  source: string,
+  target: string,
+  blockedNodes: Set<string>,
+  blockedEdges: Set<string>
+): { path: string[]; cost: number } | null {
+  const costs = new Map<string, number>([[source, 0]]);
+  const previous = new Map<string, string>();
+  const done = new Set<string>();
+
+  while (true) {
+    // The graph is small enough that scanning for the cheapest open node beats a heap
+    let node: string | null = null;
+    let nodeCost = Infinity;
+    for (const [code, cost] of costs) {
+      if (!done.has(code) && cost < nodeCost) {
+        node = code;
+        nodeCost = cost;
+      }
+    }
+    if (node === null) return null;
+    if (node === target) break;
+    const current = node;
+    done.add(current);
+
+    graph.get(current)?.forEach((tie, next) => {
+      if (done.has(next) || blockedNodes.has(next) || blockedEdges.has(`${current}>${next}`)) return;
+      const cost = nodeCost + tieCost(tie);
+      if (cost < (costs.get(next) ?? Infinity)) {
+        costs.set(next, cost);
+        previous.set(next, current);
+      }
+    });
+  }
+
+  const path = [target];
+  while (path[0] !== source) path.unshift(previous.get(path[0])!);
+  return { path, cost: costs.get(target)! };
+}
+
+function toRoute(graph: Graph, path: string[]): DiplomaticRoute {
+  const ties = path.slice(1).map((code, i) => graph.get(path[i])!.get(code)!);
+  return {
+    path,
+    ties,
+    weakestTie: Math.min(...ties),
+    cost: ties.reduce((sum, tie) => sum + tieCost(tie), 0),
+  };
+}
+
+/**
+ * The strongest chains of friendly ties between two countries, best first.
+ * Dijkstra finds the cheapest route and Yen's algorithm the next best ones
+ * without loops, each differing from the routes before it in at least one tie.
+ */
+export function findDiplomaticRoutes(
+  relationshipData: RelationshipData,
+  source: string,
+  target: string,
+  { count, minTie }: RouteOptions = DEFAULT_ROUTE_OPTIONS
+): DiplomaticRoute[] {
+  if (source === target || !relationshipData[source] || !relationshipData[target]) return [];
+
+  const graph = buildFriendlyGraph(relationshipData, minTie);
+  const best = findCheapestPath(graph, source, target, new Set(), new Set());
+  if (!best) return [];
+
+  const routes = [toRoute(graph, best.path)];
+  const candidates: DiplomaticRoute[] = [];
+  const seen = new Set([best.path.join('>')]);
+
+  while (routes.length < count) {
+    const last = routes[routes.length - 1].path;
+    // Branch off the last route at every country along it
+    for (let i = 0; i < last.length - 1; i++) {
+      const root = last.slice(0, i + 1);
+      const blockedEdges = new Set<string>();
+      routes.forEach(({ path }) => {
+        if (path.length > i + 1 && root.every((code, j) => path[j] === code)) {
+          blockedEdges.add(`${path[i]}>${path[i + 1]}`);
+        }
+      });
+      const spur = findCheapestPath(graph, last[i], target, new Set(root.slice(0, -1)), blockedEdges);
+      if (!spur) continue;
+
+      const path = [...root.slice(0, -1), ...spur.path];
+      const key = path.join('>');
+      if (seen.has(key)) continue;
+      seen.add(key);
+      candidates.push(toRoute(graph, path));
+    }
+
+    if (candidates.length === 0) break;
+    candidates.sort((a, b) => a.cost - b.cost || b.weakestTie - a.weakestTie);
+    routes.push(candidates.shift()!);
+  }
+
+  return routes;
+}
@@ -0,0 +1,208 @@
+// src/utils/Scenario.ts
+import type { RelationshipData } from '../types/data';
+import type { PropagationModel, RelationshipDeltas, Scenario, ScenarioShock } from '../types/scenario';
+import { MAX_SCORE, MIN_SCORE } from './Overlay';
+
+export const MAX_PROPAGATION_ROUNDS = 3;
+
+export const DEFAULT_PROPAGATION_MODEL: PropagationModel = {
+  allyInfluence: 0.5,
+  rivalInfluence: 0.3,
+  rounds: 1,
+  threshold: 3,
+};
+
+// Changes smaller than this aren't reported, and those below MIN_SPREAD stop spreading
+const MIN_DELTA = 0.05;
+const MIN_SPREAD = 0.5;
+
+const SCENARIOS_STORAGE_KEY = 'scenarios';
+
+export interface ScenarioChange {
+  source: string;
+  target: string;
+  before: number | undefined;
+  after: number;
+  delta: number;
+  // Set directly by a shock rather than predicted
+  shocked: boolean;
+}
+
+export interface ScenarioResult {
+  // Baseline with the shocks and predicted changes applied
+  data: RelationshipData;
+  deltas: RelationshipDeltas;
+  // Every changed score, largest change first
+  changes: ScenarioChange[];
+}
+
+export const createScenario = (name: string): Scenario => ({
+  id: `scenario-${Date.now().toString(36)}`,
+  name,
+  shocks: [],
+  model: DEFAULT_PROPAGATION_MODEL,
+});
+
+export const formatDelta = (delta: number) => `${delta > 0 ? '+' : ''}${delta.toFixed(1)}`;
+
+const clampScore = (score: number) => Math.max(MIN_SCORE, Math.min(MAX_SCORE, score));
+
+// The directed pairs a shock sets
+const getShockPairs = ({ source, target, mutual }: ScenarioShock): [string, string][] =>
+  mutual ? [[source, target], [target, source]] : [[source, target]];
+
+/**
+ * Applies a scenario's shocks to the baseline and predicts how third countries
+ * react. When X's view of Y changes by d, every other country C shifts:
+ *   - its view of Y by w(C→X)·d: it follows a friend's lead and turns against a rival's
+ *   - its view of X by w(C→Y)·d: it sides with Y, its friend, or with Y's opponents
+ * where w is C's score scaled to [-1, 1], times allyInfluence for friends and
+ * rivalInfluence for rivals, and zero below the threshold. A score reached
+ * through several countries moves by the average of their shifts, so a round
+ * never moves a score further than the changes that caused it. Each round
+ * spreads the changes of the previous one; weights always come from the baseline.
+ */
+export function simulateScenario(baseline: RelationshipData, scenario: Scenario): ScenarioResult {
+  const { allyInfluence, rivalInfluence, rounds, threshold } = scenario.model;
+  const scoreOf = (source: string, target: string) => baseline[source]?.relations[target];
+
+  // Scores are kept in flat n × n arrays, indexed source * n + target
+  const codes = Object.keys(baseline);
+  const n = codes.length;
+  const index = new Map(codes.map((code, i) => [code, i]));
+  const rated = new Uint8Array(n * n);
+  // Countries with a tie to each country strong enough to carry influence, and its weight
+  const followers = codes.map(() => [] as { source: number; weight: number }[]);
+  codes.forEach((code, source) => {
+    Object.entries(baseline[code].relations).forEach(([partner, score]) => {
+      const target = index.get(partner);
+      if (target === undefined || target === source) return;
+      rated[source * n + target] = 1;
+      if (Math.abs(score) < threshold) return;
+      followers[target].push({ source, weight: (score / MAX_SCORE) * (score > 0 ? allyInfluence : rivalInfluence) });
+    });
+  });
+
+  // Shocked pairs keep the score the scenario gives them
+  const shocked = new Map<string, Map<string, number>>();
+  const fixed = new Uint8Array(n * n);
+  let frontier: { cell: number; delta: number }[] = [];
+  scenario.shocks.forEach(shock => {
+    getShockPairs(shock).forEach(([source, target]) => {
+      if (!baseline[source] || source === target) return;
+      shocked.set(source, (shocked.get(source) ?? new Map()).set(target, shock.score));
+      // A partner outside the baseline has no followers to spread to
+      const targetIndex = index.get(target);
+      if (targetIndex === undefined) return;
+      const cell = index.get(source)! * n + targetIndex;
+      fixed[cell] = 1;
+      frontier.push({ cell, delta: shock.score - (scoreOf(source, target) ?? 0) });
+    });
+  });
+
+  const totals = new Float64Array(n * n);
+  for (let round = 0; round < rounds && frontier.length > 0; round++) {
+    // Sum and number of the shifts reaching each score this round
+    const sums = new Float64Array(n * n);
+    const counts = new Uint32Array(n * n);
+    const reached: number[] = [];
+    const spread = (source: number, target: number, delta: number) => {
+      const cell = source * n + target;
+      // Only scores in the baseline move; a country doesn't form a view of one it never rated
+      if (delta === 0 || !rated[cell] || fixed[cell]) return;
+      if (counts[cell] === 0) reached.push(cell);
+      sums[cell] += delta;
+      counts[cell]++;
+    };
+
+    frontier.forEach(({ cell, delta }) => {
+      const x = Math.floor(cell / n);
+      const y = cell % n;
+      followers[x].forEach(({ source, weight }) => {
+        if (source !== y) spread(source, y, weight * delta);
+      });
+      followers[y].forEach(({ source, weight }) => {
+        if (source !== x) spread(source, x, weight * delta);
+      });
+    });
+
+    frontier = [];
+    reached.forEach(cell => {
+      const delta = sums[cell] / counts[cell];
+      if (Math.abs(delta) < MIN_DELTA) return;
+      totals[cell] += delta;
+      if (Math.abs(delta) >= MIN_SPREAD) frontier.push({ cell, delta });
+    });
+  }
+
+  const data: RelationshipData = { ...baseline };
+  const result: RelationshipDeltas = {};
+  const changes: ScenarioChange[] = [];
+  const record = (source: string, target: string, after: number, isShock: boolean) => {
+    const before = scoreOf(source, target);
+    const delta = after - (before ?? 0);
+    if (!isShock && Math.abs(delta) < MIN_DELTA) return;
+
+    if (data[source] === baseline[source]) {
+      data[source] = { ...baseline[source], relations: { ...baseline[source].relations } };
+    }
+    data[source].relations[target] = after;
+    (result[source] ??= {})[target] = delta;
+    changes.push({ source, target, before, after, delta, shocked: isShock });
+  };
+
+  shocked.forEach((partners, source) => partners.forEach((score, target) => record(source, target, score, true)));
+  totals.forEach((delta, cell) => {
+    if (delta === 0) return;
+    const source = codes[Math.floor(cell / n)];
+    const target = codes[cell % n];
+    record(source, target, Math.round(clampScore(scoreOf(source, target)! + delta) * 10) / 10, false);
+  });
+
+  changes.sort((a, b) => Number(b.shocked) - Number(a.shocked) || Math.abs(b.delta) - Math.abs(a.delta));
+  return { data, deltas: result, changes };
+}
+
+// Average predicted change in how the other countries view each country
+export function getIncomingDeltas(deltas: RelationshipDeltas, baseline: RelationshipData): Map<string, number> {
+  const totals = new Map<string, number>();
+  Object.values(deltas).forEach(targets => {
+    Object.entries(targets).forEach(([target, delta]) => totals.set(target, (totals.get(target) ?? 0) + delta));
+  });
+
+  const scorers = new Map<string, number>();
+  Object.values(baseline).forEach(({ relations }) => {
+    Object.keys(relations).forEach(target => scorers.set(target, (scorers.get(target) ?? 0) + 1));
+  });
+
+  const averages = new Map<string, number>();
+  totals.forEach((total, code) => averages.set(code, total / Math.max(1, scorers.get(code) ?? 0)));
+  return averages;
+}
+
+// Malformed storage counts as no saved scenarios
+export function loadStoredScenarios(): Scenario[] {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(SCENARIOS_STORAGE_KEY) ?? '[]');
+    if (!Array.isArray(stored)) return [];
+    return stored
+      .filter((scenario): scenario is Scenario =>
+        typeof scenario?.id === 'string' && typeof scenario.name === 'string' && Array.isArray(scenario.shocks))
+      .map(scenario => ({ ...scenario, model: { ...DEFAULT_PROPAGATION_MODEL, ...scenario.model } }));
+  } catch {
+    return [];
+  }
+}
+
+// Unavailable or full storage keeps the scenarios for this session only
+export function storeScenarios(scenarios: Scenario[]) {
+  try {
+    if (scenarios.length === 0) {
+      localStorage.removeItem(SCENARIOS_STORAGE_KEY);
+    } else {
+      localStorage.setItem(SCENARIOS_STORAGE_KEY, JSON.stringify(scenarios));
+    }
+  } catch {
+    // The scenarios stay in the store
+  }
+}
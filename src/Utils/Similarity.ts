@@ -0,0 +1,71 @@
+// src/utils/Similarity.ts
+import type { RelationshipData } from '../types/data';
+
+// Two countries must both score at least this many partners to be compared
+export const MIN_SHARED_PARTNERS = 5;
+
+// Similar and opposite countries listed for the selection
+export const SIMILAR_COUNTRY_COUNT = 5;
+
+export interface CountrySimilarity {
+  code: string;
+  // Pearson correlation of both countries' scores, from -1 (opposite views) to 1 (same views)
+  similarity: number;
+  // Partners scored by both
+  shared: number;
+}
+
+/**
+ * How alike two countries' views are: the Pearson correlation of their scores
+ * over the partners both rate, leaving out each other. Correlation rather than
+ * plain cosine, so a country that rates everyone warmly still matches one with
+ * the same preferences on a cooler scale. Null when they share too few
+ * partners or one of them gives all shared partners the same score.
+ */
+export function getSimilarity(relationshipData: RelationshipData, a: string, b: string): CountrySimilarity | null {
+  const relationsA = relationshipData[a]?.relations;
+  const relationsB = relationshipData[b]?.relations;
+  if (!relationsA || !relationsB || a === b) return null;
+
+  const pairs = Object.entries(relationsA)
+    .filter(([partner]) => partner !== a && partner !== b && relationsB[partner] !== undefined)
+    .map(([partner, score]) => [score, relationsB[partner]] as const);
+  if (pairs.length < MIN_SHARED_PARTNERS) return null;
+
+  const meanA = pairs.reduce((sum, [x]) => sum + x, 0) / pairs.length;
+  const meanB = pairs.reduce((sum, [, y]) => sum + y, 0) / pairs.length;
+  let covariance = 0;
+  let varianceA = 0;
+  let varianceB = 0;
+  pairs.forEach(([x, y]) => {
+    covariance += (x - meanA) * (y - meanB);
+    varianceA += (x - meanA) ** 2;
+    varianceB += (y - meanB) ** 2;
+  });
+  if (varianceA === 0 || varianceB === 0) return null;
+
+  return { code: b, similarity: covariance / Math.sqrt(varianceA * varianceB), shared: pairs.length };
+}
+
+// Similarity of every comparable country to the given one, most alike first
+export function getSimilarities(relationshipData: RelationshipData, countryId: string): CountrySimilarity[] {
+  return Object.keys(relationshipData)
+    .map(code => getSimilarity(relationshipData, countryId, code))
+    .filter((entry): entry is CountrySimilarity => entry !== null)
+    .sort((x, y) => y.similarity - x.similarity);
+}
+
+// The countries that think most and least like the given one
+export function getSimilarCountries(
+  relationshipData: RelationshipData,
+  countryId: string,
+  count = SIMILAR_COUNTRY_COUNT
+): { similar: CountrySimilarity[]; opposite: CountrySimilarity[] } {
+  const similarities = getSimilarities(relationshipData, countryId);
+  return {
+    similar: similarities.filter(({ similarity }) => similarity > 0).slice(0, count),
+    opposite: similarities.filter(({ similarity }) => similarity < 0).reverse().slice(0, count),
+  };
+}
+
+export const formatSimilarity = (similarity: number) => `${similarity > 0 ? '+' : ''}${similarity.toFixed(2)}`;
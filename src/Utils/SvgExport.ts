@@ -0,0 +1,49 @@
+// src/utils/SvgExport.ts
+import { saveAs } from 'file-saver';
+
+// Raster exports are drawn at twice the SVG size for a sharper image
+const PNG_SCALE = 2;
+
+export const getExportDate = () => new Date().toISOString().split('T')[0];
+
+export function saveSvgString(svgString: string, fileName: string) {
+  const blob = new Blob([svgString], { type: 'image/svg+xml;charset=utf-8' });
+  saveAs(blob, fileName);
+}
+
+/**
+ * Draws an in-memory SVG string onto a canvas at PNG_SCALE times its size.
+ * width and height must match the SVG's own size.
+ */
+export function rasterizeSvgString(svgString: string, width: number, height: number): Promise<HTMLCanvasElement> {
+  const svgBlob = new Blob([svgString], { type: 'image/svg+xml;charset=utf-8' });
+  const url = URL.createObjectURL(svgBlob);
+
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = width * PNG_SCALE;
+      canvas.height = height * PNG_SCALE;
+
+      const ctx = canvas.getContext('2d');
+      ctx?.scale(PNG_SCALE, PNG_SCALE);
+      ctx?.drawImage(img, 0, 0, width, height);
+      URL.revokeObjectURL(url);
+      resolve(canvas);
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Could not render the map image'));
+    };
+    img.src = url;
+  });
+}
+
+// Rasterizes an in-memory SVG string and saves it as PNG; rejects when either step fails
+export async function saveSvgStringAsPng(svgString: string, width: number, height: number, fileName: string) {
+  const canvas = await rasterizeSvgString(svgString, width, height);
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png', 1.0));
+  if (!blob) throw new Error('Could not encode the PNG image');
+  saveAs(blob, fileName);
+}
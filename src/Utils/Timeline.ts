@@ -0,0 +1,65 @@
+// src/utils/Timeline.ts
+import type { RelationshipData, RelationshipHistory, RelationshipTimeline } from '../types/data';
+
+// Returns every year the slider can stop at, from the earliest dated score up to the baseline year
+export function getHistoryYears(history: RelationshipHistory | null | undefined): number[] {
+  if (!history) return [];
+
+  let firstYear = history.baselineYear;
+  Object.values(history.relations).forEach(partners => {
+    Object.values(partners).forEach(timeline => {
+      Object.keys(timeline).forEach(year => {
+        firstYear = Math.min(firstYear, Number(year));
+      });
+    });
+  });
+
+  const years: number[] = [];
+  for (let year = firstYear; year <= history.baselineYear; year++) {
+    years.push(year);
+  }
+  return years;
+}
+
+// Picks the most recent dated score at or before `year`.
+// Years before the first entry fall back to the earliest known score.
+export function getScoreForYear(timeline: RelationshipTimeline, year: number): number | undefined {
+  const entries = Object.entries(timeline)
+    .map(([y, score]) => [Number(y), score] as const)
+    .sort(([a], [b]) => a - b);
+  if (entries.length === 0) return undefined;
+
+  let score = entries[0][1];
+  for (const [entryYear, entryScore] of entries) {
+    if (entryYear > year) break;
+    score = entryScore;
+  }
+  return score;
+}
+
+/**
+ * Builds the RelationshipData snapshot for a given year by overlaying the
+ * dated scores from the history on top of the baseline data.
+ * A null year (or the baseline year itself) returns the baseline untouched.
+ */
+export function getRelationshipSnapshot(
+  baseline: RelationshipData,
+  history: RelationshipHistory | null | undefined,
+  year: number | null
+): RelationshipData {
+  if (!history || year === null || year >= history.baselineYear) return baseline;
+
+  const snapshot: RelationshipData = { ...baseline };
+  Object.entries(history.relations).forEach(([sourceCode, partners]) => {
+    const countryData = baseline[sourceCode];
+    if (!countryData) return;
+
+    const relations = { ...countryData.relations };
+    Object.entries(partners).forEach(([partnerCode, timeline]) => {
+      const score = getScoreForYear(timeline, year);
+      if (score !== undefined) relations[partnerCode] = score;
+    });
+    snapshot[sourceCode] = { ...countryData, relations };
+  });
+  return snapshot;
+}
@@ -0,0 +1,98 @@
+// src/utils/WorldMap.ts
+import * as topojson from 'topojson-client';
+import type { Feature, FeatureCollection, Geometry, MultiLineString } from 'geojson';
+import type { GeometryCollection, Topology } from 'topojson-specification';
+import type { CountryFeatureProperties } from './Format_country_name';
+import type { BoundaryPerspective, DisputedAreaProperties } from '../types/boundary';
+import { getPerspectiveObjectName, isDisputedAreaShown } from './Boundaries';
+
+// Level of detail of the world map outlines
+export type MapDetail = 'low' | 'medium' | 'high';
+
+export interface MapDetailLevel {
+  key: MapDetail;
+  // File in public/data written by scripts/build-topology.ts
+  file: string;
+  // Zoom scale from which this level is used
+  minZoom: number;
+  // Fraction of the source points kept when simplifying
+  retain: number;
+}
+
+// Ordered from coarsest to finest
+export const MAP_DETAIL_LEVELS: MapDetailLevel[] = [
+  { key: 'low', file: 'world_map_low.topo.json', minZoom: 1, retain: 0.15 },
+  { key: 'medium', file: 'world_map_medium.topo.json', minZoom: 2, retain: 0.4 },
+  { key: 'high', file: 'world_map_high.topo.json', minZoom: 4, retain: 1 },
+];
+
+// Names of the topology objects holding the country and disputed area geometries
+export const WORLD_MAP_OBJECT = 'countries';
+export const DISPUTED_AREAS_OBJECT = 'disputed';
+
+// Feature properties kept in the topologies; the raw Natural Earth file carries dozens more
+export const WORLD_MAP_PROPERTIES: (keyof CountryFeatureProperties)[] = [
+  'name',
+  'iso_a3',
+  'adm0_a3',
+  'iso_n3',
+  'continent',
+  'subregion',
+];
+
+// Besides the two named objects, each boundary perspective has an object of replacement country outlines
+export type WorldTopology = Topology<{
+  [WORLD_MAP_OBJECT]: GeometryCollection<CountryFeatureProperties>;
+  [DISPUTED_AREAS_OBJECT]: GeometryCollection<DisputedAreaProperties>;
+  [perspectiveObject: string]: GeometryCollection<CountryFeatureProperties | DisputedAreaProperties>;
+}>;
+
+export type DisputedAreaFeature = Feature<Geometry, DisputedAreaProperties>;
+
+export interface WorldMapData {
+  countries: FeatureCollection;
+  // Every border and coastline once, so shared borders are stroked a single time
+  borders: MultiLineString;
+  // Disputed areas to hatch in the current perspective
+  disputed: DisputedAreaFeature[];
+}
+
+export const getMapDetailLevel = (detail: MapDetail) =>
+  MAP_DETAIL_LEVELS.find(level => level.key === detail) ?? MAP_DETAIL_LEVELS[0];
+
+// The finest level whose minimum zoom the given scale has reached
+export function getMapDetailForZoom(scale: number): MapDetail {
+  let detail = MAP_DETAIL_LEVELS[0].key;
+  MAP_DETAIL_LEVELS.forEach(level => {
+    if (scale >= level.minZoom) detail = level.key;
+  });
+  return detail;
+}
+
+const getAdm0Code = (geometry: { properties?: unknown }) =>
+  (geometry.properties as CountryFeatureProperties | undefined)?.adm0_a3;
+
+/**
+ * Converts a world topology into country features, the border mesh and the
+ * disputed areas as seen from the given perspective. Outlines the perspective
+ * replaces are matched on adm0_a3, which every country has.
+ */
+export function parseWorldTopology(topology: WorldTopology, perspective: BoundaryPerspective): WorldMapData {
+  const replacements = new Map(
+    (topology.objects[getPerspectiveObjectName(perspective)]?.geometries ?? [])
+      .map(geometry => [getAdm0Code(geometry), geometry])
+  );
+  const countries: GeometryCollection<CountryFeatureProperties> = {
+    type: 'GeometryCollection',
+    geometries: topology.objects[WORLD_MAP_OBJECT].geometries
+      .map(geometry => (replacements.get(getAdm0Code(geometry)) ?? geometry) as typeof geometry),
+  };
+  const disputed = topojson.feature(topology, topology.objects[DISPUTED_AREAS_OBJECT]).features
+    .filter(area => isDisputedAreaShown(area.properties, perspective));
+
+  return {
+    countries: topojson.feature(topology, countries),
+    borders: topojson.mesh(topology, countries),
+    disputed,
+  };
+}
@@ -0,0 +1,187 @@
+// src/components/AlliancePanel.tsx
+import React, { useMemo, memo, useCallback } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import type { Feature } from 'geojson';
+import type { RelationshipData } from '../types/data';
+import { findCountryByCode } from '../Utils/CountryCodes';
+import { ColorScale } from '../Utils/ColorScale';
+import { getAllianceCohesion } from '../Utils/Cohesion';
+import { NEUTRAL_FILL } from '../Utils/MapColoring';
+import { useAppSelector, useAppDispatch } from '../store/hooks';
+import { selectCountry as selectCountryAction, compareCountry, selectAlliance as selectAllianceAction, selectSelectedAlliance } from '../store/slices/uiSlice';
+
+interface AlliancePanelProps {
+  countries: Feature[];
+  relationshipData: RelationshipData;
+  alliances: { [key: string]: string[] };
+  isLoading: boolean;
+}
+
+const formatScore = (score: number) => (score > 0 ? `+${score}` : String(score));
+
+const ScoreList: React.FC<{
+  title: string;
+  titleColor: string;
+  note?: string;
+  entries: { code: string; score: number }[];
+  relationshipData: RelationshipData;
+  onItemClick: (code: string) => void;
+}> = ({ title, titleColor, note, entries, relationshipData, onItemClick }) => (
+  <div>
+    <h3 className={`text-sm font-bold ${titleColor} ${note ? '' : 'mb-2'} uppercase tracking-wider`}>{title}</h3>
+    {note && <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">{note}</p>}
+    <ul className="space-y-1">
+      {entries.map(({ code, score }) => (
+        <li key={code}>
+          <button
+            onClick={() => onItemClick(code)}
+            className="w-full flex justify-between items-center text-sm p-2 rounded-md hover:bg-gray-100 dark:hover:bg-white/10 transition-colors"
+          >
+            <span className="text-gray-600 dark:text-gray-300">{relationshipData[code]?.name || code}</span>
+            <span className="font-bold text-base" style={{ color: ColorScale(score) }}>{formatScore(score)}</span>
+          </button>
+        </li>
+      ))}
+    </ul>
+  </div>
+);
+
+const AlliancePanelInternal: React.FC<AlliancePanelProps> = ({ countries, relationshipData, alliances, isLoading }) => {
+  const dispatch = useAppDispatch();
+  const selectedAlliance = useAppSelector(selectSelectedAlliance);
+  const allianceMembers = selectedAlliance ? alliances[selectedAlliance] : undefined;
+
+  const cohesion = useMemo(
+    () => (allianceMembers ? getAllianceCohesion(relationshipData, allianceMembers) : null),
+    [relationshipData, allianceMembers]
+  );
+
+  const weakestPair = cohesion?.weakestPair ?? null;
+
+  const findCountry = useCallback((code: string) => findCountryByCode(countries, code), [countries]);
+
+  const handleItemClick = useCallback((code: string) => {
+    const country = findCountry(code);
+    if (country) dispatch(selectCountryAction(country));
+  }, [findCountry, dispatch]);
+
+  // A heatmap cell opens the pair in compare mode
+  const handlePairClick = useCallback((a: string, b: string) => {
+    const countryA = findCountry(a);
+    const countryB = findCountry(b);
+    if (!countryA || !countryB) return;
+    dispatch(selectCountryAction(countryA));
+    dispatch(compareCountry(countryB));
+  }, [findCountry, dispatch]);
+
+  const nameOf = (code: string) => relationshipData[code]?.name || code;
+
+  return (
+    <AnimatePresence>
+      {selectedAlliance && allianceMembers && (
+        <motion.div
+          className="fixed md:absolute bottom-0 left-0 right-0 md:bottom-auto md:left-auto md:top-4 md:right-4 w-full md:w-80 max-h-[60vh] md:max-h-[calc(100%-2rem)] flex flex-col bg-white/90 dark:bg-gray-900/90 shadow-2xl backdrop-blur-md border border-gray-200 dark:border-white/10 z-50 rounded-t-2xl md:rounded-lg"
+          initial={{ opacity: 0, x: 50 }}
+          animate={{ opacity: 1, x: 0 }}
+          exit={{ opacity: 0, x: 50 }}
+          transition={{ type: 'spring', stiffness: 400, damping: 40 }}
+        >
+          <div className="p-4 flex-shrink-0">
+            <div className="flex justify-between items-center">
+              <div>
+                <h2 className="text-2xl font-bold">{selectedAlliance}</h2>
+                <p className="text-xs text-gray-500 dark:text-gray-400">{allianceMembers.length} members</p>
+              </div>
+              <button
+                onClick={() => dispatch(selectAllianceAction(null))}
+                className="text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white hover:bg-gray-200 dark:hover:bg-white/10 rounded-full p-1 transition-colors"
+                aria-label="Close panel"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+              </button>
+            </div>
+          </div>
+
+          <div className="flex-grow space-y-6 overflow-y-auto px-4 pb-4 scrollbar-thin scrollbar-thumb-gray-600/50 hover:scrollbar-thumb-gray-500/50 scrollbar-track-transparent">
+            {isLoading || !cohesion ? (
+              <p className="text-sm">Loading relationship data...</p>
+            ) : cohesion.members.length < 2 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">Not enough members with relationship data.</p>
+            ) : (
+              <>
+                <div className="grid grid-cols-2 gap-2">
+                  <div className="p-3 rounded-lg bg-gray-100 dark:bg-white/5 text-center">
+                    <div className="text-xs text-gray-500 dark:text-gray-400">Internal Cohesion</div>
+                    {cohesion.meanScore !== null && (
+                      <div className="text-2xl font-bold" style={{ color: ColorScale(cohesion.meanScore) }}>{formatScore(cohesion.meanScore)}</div>
+                    )}
+                  </div>
+                  <div className="p-3 rounded-lg bg-gray-100 dark:bg-white/5 text-center">
+                    <div className="text-xs text-gray-500 dark:text-gray-400">Weakest Pair</div>
+                    {weakestPair && (
+                      <button
+                        onClick={() => handlePairClick(weakestPair.a, weakestPair.b)}
+                        className="w-full hover:underline"
+                        title={`${nameOf(weakestPair.a)} ⇄ ${nameOf(weakestPair.b)}`}
+                      >
+                        <div className="text-sm font-medium text-gray-800 dark:text-gray-100">{weakestPair.a} ⇄ {weakestPair.b}</div>
+                        <div className="text-lg font-bold" style={{ color: ColorScale(weakestPair.score) }}>{formatScore(weakestPair.score)}</div>
+                      </button>
+                    )}
+                  </div>
+                </div>
+
+                <div>
+                  <h3 className="text-sm font-bold text-gray-500 dark:text-gray-400 mb-2 uppercase tracking-wider">Member Heatmap</h3>
+                  <div
+                    className="grid gap-px"
+                    style={{ gridTemplateColumns: `repeat(${cohesion.members.length}, minmax(0, 1fr))` }}
+                  >
+                    {cohesion.members.map(a => cohesion.members.map(b => {
+                      const score = a === b ? undefined : relationshipData[a]?.relations[b];
+                      return (
+                        <button
+                          key={`${a}-${b}`}
+                          disabled={a === b}
+                          onClick={() => handlePairClick(a, b)}
+                          className="aspect-square rounded-[1px] disabled:opacity-30 hover:outline hover:outline-1 hover:outline-white"
+                          style={{ backgroundColor: score === undefined ? NEUTRAL_FILL : ColorScale(score) }}
+                          title={a === b ? nameOf(a) : `${nameOf(a)} → ${nameOf(b)}: ${score === undefined ? 'no score' : formatScore(score)}`}
+                        />
+                      );
+                    }))}
+                  </div>
+                  <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">Rows score columns. Click a cell to compare the pair.</p>
+                </div>
+
+                {cohesion.friendliestToRivals.length > 0 && (
+                  <ScoreList
+                    title="Friendliest to Rivals"
+                    titleColor="text-pink-500"
+                    note={`Mean score toward ${cohesion.rivals.map(nameOf).join(', ')}`}
+                    entries={cohesion.friendliestToRivals}
+                    relationshipData={relationshipData}
+                    onItemClick={handleItemClick}
+                  />
+                )}
+
+                {cohesion.mostAlignedOutsiders.length > 0 && (
+                  <ScoreList
+                    title="Closest Non-Members"
+                    titleColor="text-green-400"
+                    entries={cohesion.mostAlignedOutsiders}
+                    relationshipData={relationshipData}
+                    onItemClick={handleItemClick}
+                  />
+                )}
+              </>
+            )}
+          </div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+const AlliancePanel = memo(AlliancePanelInternal);
+export default AlliancePanel;
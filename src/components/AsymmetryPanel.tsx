@@ -0,0 +1,107 @@
+// src/components/AsymmetryPanel.tsx
+import React, { useMemo, useState, memo, useCallback } from 'react';
+import { motion } from 'framer-motion';
+import type { Feature } from 'geojson';
+import type { RelationshipData } from '../types/data';
+import { getCountryCode } from '../Utils/Format_country_name';
+import { findCountryByCode } from '../Utils/CountryCodes';
+import { ColorScale, DivergenceScale } from '../Utils/ColorScale';
+import { getAsymmetricPairs } from '../Utils/Asymmetry';
+import { useAppSelector, useAppDispatch } from '../store/hooks';
+import { selectCountry as selectCountryAction, compareCountry, setAnalysisPanel, selectSelectedCountry } from '../store/slices/uiSlice';
+
+interface AsymmetryPanelProps {
+  countries: Feature[];
+  relationshipData: RelationshipData;
+}
+
+const MAX_PAIRS = 30;
+
+const formatScore = (score: number) => (score > 0 ? `+${score}` : String(score));
+
+const AsymmetryPanelInternal: React.FC<AsymmetryPanelProps> = ({ countries, relationshipData }) => {
+  const dispatch = useAppDispatch();
+  const selectedCountry = useAppSelector(selectSelectedCountry);
+  const selectedId = getCountryCode(selectedCountry);
+  const [onlySelected, setOnlySelected] = useState(false);
+
+  const allPairs = useMemo(() => getAsymmetricPairs(relationshipData), [relationshipData]);
+
+  const pairs = useMemo(() => {
+    const filtered = onlySelected && selectedId
+      ? allPairs.filter(pair => pair.a === selectedId || pair.b === selectedId)
+      : allPairs;
+    return filtered.slice(0, MAX_PAIRS);
+  }, [allPairs, onlySelected, selectedId]);
+
+  // Clicking a pair opens it in compare mode so both directions are visible side by side
+  const handlePairClick = useCallback((a: string, b: string) => {
+    const countryA = findCountryByCode(countries, a);
+    const countryB = findCountryByCode(countries, b);
+    if (!countryA) return;
+    dispatch(selectCountryAction(countryA));
+    if (countryB) dispatch(compareCountry(countryB));
+  }, [countries, dispatch]);
+
+  const nameOf = (code: string) => relationshipData[code]?.name || code;
+
+  return (
+    <motion.div
+      className="absolute top-4 left-4 z-30 w-80 max-h-[calc(100%-2rem)] flex flex-col bg-white/90 dark:bg-gray-900/90 shadow-2xl backdrop-blur-md border border-gray-200 dark:border-white/10 rounded-lg"
+      initial={{ opacity: 0, x: -50 }}
+      animate={{ opacity: 1, x: 0 }}
+      exit={{ opacity: 0, x: -50 }}
+      transition={{ type: 'spring', stiffness: 400, damping: 40 }}
+    >
+      <div className="p-4 flex-shrink-0">
+        <div className="flex justify-between items-center">
+          <h2 className="text-lg font-bold">Most Asymmetric Pairs</h2>
+          <button
+            onClick={() => dispatch(setAnalysisPanel(null))}
+            className="text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white hover:bg-gray-200 dark:hover:bg-white/10 rounded-full p-1 transition-colors"
+            aria-label="Close panel"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+        <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">Pairs whose scores for each other differ the most.</p>
+        {selectedId && (
+          <label className="mt-2 flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
+            <input type="checkbox" checked={onlySelected} onChange={(e) => setOnlySelected(e.target.checked)} />
+            Only pairs with {nameOf(selectedId)}
+          </label>
+        )}
+      </div>
+
+      <div className="flex-grow overflow-y-auto px-4 pb-4 scrollbar-thin scrollbar-thumb-gray-600/50 hover:scrollbar-thumb-gray-500/50 scrollbar-track-transparent">
+        {pairs.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No pairs scored in both directions.</p>
+        ) : (
+          <ul className="space-y-1">
+            {pairs.map(pair => (
+              <li key={`${pair.a}-${pair.b}`}>
+                <button
+                  onClick={() => handlePairClick(pair.a, pair.b)}
+                  className="w-full text-left text-sm p-2 rounded-md hover:bg-gray-100 dark:hover:bg-white/10 transition-colors"
+                >
+                  <div className="flex justify-between items-center">
+                    <span className="font-medium text-gray-800 dark:text-gray-100 truncate">{nameOf(pair.a)} ⇄ {nameOf(pair.b)}</span>
+                    <span className="font-bold tabular-nums" style={{ color: DivergenceScale(pair.gap) }}>Δ{pair.gap}</span>
+                  </div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">
+                    {pair.a} → {pair.b} <span className="font-bold" style={{ color: ColorScale(pair.aToB) }}>{formatScore(pair.aToB)}</span>
+                    <span className="mx-2">·</span>
+                    {pair.b} → {pair.a} <span className="font-bold" style={{ color: ColorScale(pair.bToA) }}>{formatScore(pair.bToA)}</span>
+                  </div>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </motion.div>
+  );
+};
+
+const AsymmetryPanel = memo(AsymmetryPanelInternal);
+export default AsymmetryPanel;
@@ -0,0 +1,90 @@
+// src/components/BalancePanel.tsx
+import React, { useMemo, memo } from 'react';
+import { motion } from 'framer-motion';
+import type { RelationshipData } from '../types/data';
+import { ColorScale } from '../Utils/ColorScale';
+import { BALANCE_TIE_THRESHOLD, getAllianceBalances, getBalanceIndex } from '../Utils/Balance';
+import { useAppSelector, useAppDispatch } from '../store/hooks';
+import { selectAlliance as selectAllianceAction, setAnalysisPanel, selectSelectedAlliance } from '../store/slices/uiSlice';
+
+interface BalancePanelProps {
+  relationshipData: RelationshipData;
+  alliances: { [key: string]: string[] };
+}
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+// A fully balanced group gets the ally color, a fully unbalanced one the hostile color
+const indexColor = (index: number) => ColorScale(index * 20 - 10);
+
+const BalancePanelInternal: React.FC<BalancePanelProps> = ({ relationshipData, alliances }) => {
+  const dispatch = useAppDispatch();
+  const selectedAlliance = useAppSelector(selectSelectedAlliance);
+
+  const worldBalance = useMemo(() => getBalanceIndex(relationshipData, Object.keys(relationshipData)), [relationshipData]);
+  const allianceBalances = useMemo(() => getAllianceBalances(relationshipData, alliances), [relationshipData, alliances]);
+
+  return (
+    <motion.div
+      className="absolute top-4 left-4 z-30 w-80 max-h-[calc(100%-2rem)] flex flex-col bg-white/90 dark:bg-gray-900/90 shadow-2xl backdrop-blur-md border border-gray-200 dark:border-white/10 rounded-lg"
+      initial={{ opacity: 0, x: -50 }}
+      animate={{ opacity: 1, x: 0 }}
+      exit={{ opacity: 0, x: -50 }}
+      transition={{ type: 'spring', stiffness: 400, damping: 40 }}
+    >
+      <div className="p-4 flex-shrink-0">
+        <div className="flex justify-between items-center">
+          <h2 className="text-lg font-bold">Structural Balance</h2>
+          <button
+            onClick={() => dispatch(setAnalysisPanel(null))}
+            className="text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white hover:bg-gray-200 dark:hover:bg-white/10 rounded-full p-1 transition-colors"
+            aria-label="Close panel"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+        <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+          Share of triangles whose ties are balanced: all friendly, or two friends sharing a rival. Ties weaker than ±{BALANCE_TIE_THRESHOLD} (mean of both directions) are left out.
+        </p>
+        {worldBalance.index !== null && (
+          <div className="mt-3 p-3 rounded-lg bg-gray-100 dark:bg-white/5 text-center">
+            <div className="text-xs text-gray-500 dark:text-gray-400">All Countries</div>
+            <div className="text-2xl font-bold" style={{ color: indexColor(worldBalance.index) }}>{formatPercent(worldBalance.index)}</div>
+            <div className="text-xs text-gray-500 dark:text-gray-400">{worldBalance.balanced.toLocaleString()} of {worldBalance.triads.toLocaleString()} triangles</div>
+          </div>
+        )}
+      </div>
+
+      <div className="flex-grow overflow-y-auto px-4 pb-4 scrollbar-thin scrollbar-thumb-gray-600/50 hover:scrollbar-thumb-gray-500/50 scrollbar-track-transparent">
+        {allianceBalances.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No alliances loaded.</p>
+        ) : (
+          <ul className="space-y-1">
+            {allianceBalances.map(({ alliance, members, triads, balanced, index }) => (
+              <li key={alliance}>
+                <button
+                  onClick={() => dispatch(selectAllianceAction(selectedAlliance === alliance ? null : alliance))}
+                  aria-pressed={selectedAlliance === alliance}
+                  className={`w-full text-left text-sm p-2 rounded-md transition-colors ${selectedAlliance === alliance ? 'bg-gray-100 dark:bg-white/10' : 'hover:bg-gray-100 dark:hover:bg-white/10'}`}
+                >
+                  <div className="flex justify-between items-center">
+                    <span className="font-medium text-gray-800 dark:text-gray-100">{alliance}</span>
+                    <span className="font-bold tabular-nums" style={index === null ? undefined : { color: indexColor(index) }}>
+                      {index === null ? '–' : formatPercent(index)}
+                    </span>
+                  </div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">
+                    {members} members · {triads === 0 ? 'no triangles with strong ties' : `${triads - balanced} of ${triads} triangles unbalanced`}
+                  </div>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </motion.div>
+  );
+};
+
+const BalancePanel = memo(BalancePanelInternal);
+export default BalancePanel;
@@ -0,0 +1,182 @@
+// src/components/BlocsPanel.tsx
+import React, { useMemo, useState, memo, useCallback } from 'react';
+import { motion } from 'framer-motion';
+import type { Feature } from 'geojson';
+import type { RelationshipData } from '../types/data';
+import { findCountryByCode } from '../Utils/CountryCodes';
+import { BLOC_TIE_THRESHOLD, compareMembership, getClosestAlliance, getDetectedBlocs } from '../Utils/Communities';
+import { getBlocFill } from '../Utils/MapColoring';
+import { useAppSelector, useAppDispatch } from '../store/hooks';
+import { selectCountry as selectCountryAction, selectAlliance as selectAllianceAction, setAnalysisPanel, selectSelectedAlliance } from '../store/slices/uiSlice';
+
+interface BlocsPanelProps {
+  countries: Feature[];
+  relationshipData: RelationshipData;
+  alliances: { [key: string]: string[] };
+}
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+const CountryChips: React.FC<{
+  title: string;
+  codes: string[];
+  nameOf: (code: string) => string;
+  onCountryClick: (code: string) => void;
+}> = ({ title, codes, nameOf, onCountryClick }) => (
+  <div>
+    <h4 className="text-xs font-bold uppercase tracking-wide text-gray-500 dark:text-gray-400 mb-1">{title} ({codes.length})</h4>
+    {codes.length === 0 ? (
+      <p className="text-xs text-gray-500 dark:text-gray-400">None</p>
+    ) : (
+      <div className="flex flex-wrap gap-1">
+        {codes.map(code => (
+          <button
+            key={code}
+            onClick={() => onCountryClick(code)}
+            title={nameOf(code)}
+            className="px-1.5 py-0.5 text-xs rounded bg-gray-100 dark:bg-white/10 text-gray-700 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-white/20 transition-colors"
+          >
+            {code}
+          </button>
+        ))}
+      </div>
+    )}
+  </div>
+);
+
+const BlocsPanelInternal: React.FC<BlocsPanelProps> = ({ countries, relationshipData, alliances }) => {
+  const dispatch = useAppDispatch();
+  const selectedAlliance = useAppSelector(selectSelectedAlliance);
+  const [activeBloc, setActiveBloc] = useState<string | null>(null);
+  const [comparedAlliance, setComparedAlliance] = useState<string | null>(null);
+
+  const blocs = useMemo(() => getDetectedBlocs(relationshipData), [relationshipData]);
+
+  const closestAlliances = useMemo(
+    () => new Map(blocs.map(bloc => [bloc.name, getClosestAlliance(bloc.members, alliances)])),
+    [blocs, alliances]
+  );
+
+  const active = blocs.find(bloc => bloc.name === activeBloc) || null;
+  const allianceName = comparedAlliance ?? (active ? closestAlliances.get(active.name)?.name ?? null : null);
+  const comparison = useMemo(
+    () => (active && allianceName && alliances[allianceName] ? compareMembership(active.members, alliances[allianceName]) : null),
+    [active, allianceName, alliances]
+  );
+
+  const handleBlocClick = useCallback((name: string) => {
+    setActiveBloc(current => (current === name ? null : name));
+    setComparedAlliance(null);
+  }, []);
+
+  const handleCountryClick = useCallback((code: string) => {
+    const country = findCountryByCode(countries, code);
+    if (country) dispatch(selectCountryAction(country));
+  }, [countries, dispatch]);
+
+  const nameOf = (code: string) => relationshipData[code]?.name || code;
+
+  return (
+    <motion.div
+      className="absolute top-4 left-4 z-30 w-80 max-h-[calc(100%-2rem)] flex flex-col bg-white/90 dark:bg-gray-900/90 shadow-2xl backdrop-blur-md border border-gray-200 dark:border-white/10 rounded-lg"
+      initial={{ opacity: 0, x: -50 }}
+      animate={{ opacity: 1, x: 0 }}
+      exit={{ opacity: 0, x: -50 }}
+      transition={{ type: 'spring', stiffness: 400, damping: 40 }}
+    >
+      <div className="p-4 flex-shrink-0">
+        <div className="flex justify-between items-center">
+          <h2 className="text-lg font-bold">Detected Blocs</h2>
+          <button
+            onClick={() => dispatch(setAnalysisPanel(null))}
+            className="text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white hover:bg-gray-200 dark:hover:bg-white/10 rounded-full p-1 transition-colors"
+            aria-label="Close panel"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+        <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+          Groups of countries bound by strong friendly ties (mutual score ≥ {BLOC_TIE_THRESHOLD}), found by community detection.
+        </p>
+      </div>
+
+      <div className="flex-grow overflow-y-auto px-4 pb-4 scrollbar-thin scrollbar-thumb-gray-600/50 hover:scrollbar-thumb-gray-500/50 scrollbar-track-transparent">
+        {blocs.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No blocs found in the current data.</p>
+        ) : (
+          <ul className="space-y-1">
+            {blocs.map((bloc, i) => {
+              const closest = closestAlliances.get(bloc.name);
+              const isActive = bloc.name === activeBloc;
+              return (
+                <li key={bloc.name}>
+                  <button
+                    onClick={() => handleBlocClick(bloc.name)}
+                    aria-expanded={isActive}
+                    className={`w-full text-left text-sm p-2 rounded-md transition-colors ${isActive ? 'bg-gray-100 dark:bg-white/10' : 'hover:bg-gray-100 dark:hover:bg-white/10'}`}
+                  >
+                    <div className="flex justify-between items-center">
+                      <span className="flex items-center gap-2 font-medium text-gray-800 dark:text-gray-100">
+                        <span className="inline-block w-3 h-3 rounded-full" style={{ backgroundColor: getBlocFill(i) }} />
+                        {bloc.name}
+                      </span>
+                      <span className="text-xs text-gray-500 dark:text-gray-400">{bloc.members.length} countries</span>
+                    </div>
+                    {closest && (
+                      <div className="text-xs text-gray-500 dark:text-gray-400">
+                        Closest alliance: {closest.name} ({formatPercent(closest.comparison.jaccard)} overlap)
+                      </div>
+                    )}
+                  </button>
+
+                  {isActive && (
+                    <div className="mt-2 mb-3 px-2 space-y-3">
+                      <button
+                        onClick={() => dispatch(selectAllianceAction(selectedAlliance === bloc.name ? null : bloc.name))}
+                        className="w-full px-3 py-1.5 text-xs font-medium rounded-md border bg-gray-100 dark:bg-slate-800 text-gray-700 dark:text-slate-300 border-gray-300 dark:border-slate-700 hover:bg-gray-200 dark:hover:bg-slate-700 transition-colors"
+                      >
+                        {selectedAlliance === bloc.name ? 'Clear highlight' : 'Highlight on map'}
+                      </button>
+
+                      <div>
+                        <label htmlFor="bloc-compare-select" className="block text-xs text-gray-500 dark:text-gray-400 mb-1">
+                          Compare with alliance
+                        </label>
+                        <select
+                          id="bloc-compare-select"
+                          value={allianceName || ''}
+                          onChange={(e) => setComparedAlliance(e.target.value || null)}
+                          className="w-full bg-gray-100 dark:bg-slate-800 border border-gray-300 dark:border-slate-700 text-gray-900 dark:text-white text-sm rounded-lg focus:ring-blue-500 focus:border-blue-500 block p-2"
+                        >
+                          {Object.keys(alliances).sort().map(name => (
+                            <option key={name} value={name}>
+                              {name}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+
+                      {comparison && allianceName && (
+                        <>
+                          <p className="text-sm text-gray-700 dark:text-gray-200">
+                            <span className="font-bold">{formatPercent(comparison.jaccard)}</span> overlap with {allianceName}
+                          </p>
+                          <CountryChips title="In both" codes={comparison.shared} nameOf={nameOf} onCountryClick={handleCountryClick} />
+                          <CountryChips title="Only in bloc" codes={comparison.onlyInBloc} nameOf={nameOf} onCountryClick={handleCountryClick} />
+                          <CountryChips title={`Only in ${allianceName}`} codes={comparison.onlyInAlliance} nameOf={nameOf} onCountryClick={handleCountryClick} />
+                        </>
+                      )}
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </motion.div>
+  );
+};
+
+const BlocsPanel = memo(BlocsPanelInternal);
+export default BlocsPanel;
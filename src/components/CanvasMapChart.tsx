@@ -0,0 +1,493 @@
+// src/components/CanvasMapChart.tsx
+import { memo, useCallback, useEffect, useMemo, useRef, useState, type MouseEvent as ReactMouseEvent } from 'react';
+import * as d3 from 'd3';
+import type { Feature, LineString } from 'geojson';
+
+import { getCountryCode, type CountryFeatureProperties } from '../Utils/Format_country_name';
+import { createCountryFill } from '../Utils/MapColoring';
+import { getArcColor, getArcPairs, getArcLine, getHighlightedChain } from '../Utils/Arcs';
+import { CONFLICT_INTENSITY_COLORS, getConflictIntensityByCountry, getOverlayConflicts } from '../Utils/Conflicts';
+import { getMapDetailForZoom } from '../Utils/WorldMap';
+import { DISPUTED_AREA_COLOR, describeDisputedArea } from '../Utils/Boundaries';
+import { createCountryPicker } from '../Utils/Globe';
+import type { ConflictIntensity } from '../types/conflict';
+import MapLegend from './MapLegend';
+import ConflictLegend from './ConflictLegend';
+import DisputedAreaLegend from './DisputedAreaLegend';
+import ExportControls from './ExportControls';
+import type { MapChartProps } from './MapChart';
+
+import { useAppSelector, useAppDispatch } from '../store/hooks';
+import { selectCountry as selectCountryAction, compareCountry, selectComparedCountry, selectSelectedCountry, selectSelectedAlliance, selectProjectionType, setMapRotation, selectMapRotation, selectScoreDimension, selectMapColorMode, selectShowConflicts, selectConflictFilters, selectSelectedConflict, selectArcSettings, selectHighlightedTriad, selectHighlightedRoute, setMapDetail } from '../store/slices/uiSlice';
+
+interface CountryStyle {
+  feature: Feature;
+  fill: string;
+  // Selected, compared and alliance countries get their own outline over the border mesh
+  outline: [string, number] | null;
+}
+
+interface CanvasArc {
+  line: LineString;
+  score: number;
+}
+
+interface CanvasConflict {
+  feature: Feature;
+  intensity: ConflictIntensity;
+}
+
+// Degrees of rotation per dragged pixel, as on the SVG globe
+const ROTATION_SPEED = 0.5;
+
+// Draws a tile for a repeating diagonal hatch like the SVG overlay's <pattern>
+function createHatchTile(color: string): HTMLCanvasElement {
+  const tile = document.createElement('canvas');
+  tile.width = 6;
+  tile.height = 6;
+  const context = tile.getContext('2d');
+  if (context) {
+    context.strokeStyle = color;
+    context.globalAlpha = 0.8;
+    context.lineWidth = 2;
+    context.beginPath();
+    // The main diagonal plus the two corner pieces that make the tile seamless
+    context.moveTo(0, 6); context.lineTo(6, 0);
+    context.moveTo(-1, 1); context.lineTo(1, -1);
+    context.moveTo(5, 7); context.lineTo(7, 5);
+    context.stroke();
+  }
+  return tile;
+}
+
+// The pick buffer encodes feature index + 1 in the red and green channels; black means no country
+const indexToPickColor = (index: number) => `rgb(${(index + 1) & 255}, ${(index + 1) >> 8}, 0)`;
+const pickColorToIndex = (red: number, green: number) => red + (green << 8) - 1;
+
+/**
+ * Draws the same map as MapChart into a single canvas. Hit-testing reads an
+ * offscreen color-picking buffer, and globe rotation stays local until the
+ * drag ends so Redux only sees the final rotation.
+ */
+const CanvasMapChartInternal = ({ countries, borders, disputedAreas, relationshipData, alliances, declaredAlliances, conflicts, scenarioDeltas }: MapChartProps) => {
+  const dispatch = useAppDispatch();
+  const selectedCountry = useAppSelector(selectSelectedCountry);
+  const comparedCountry = useAppSelector(selectComparedCountry);
+  const selectedAlliance = useAppSelector(selectSelectedAlliance);
+  const projectionName = useAppSelector(selectProjectionType);
+  const rotation = useAppSelector(selectMapRotation);
+  const scoreDimension = useAppSelector(selectScoreDimension);
+  const colorMode = useAppSelector(selectMapColorMode);
+  const showConflicts = useAppSelector(selectShowConflicts);
+  const conflictFilters = useAppSelector(selectConflictFilters);
+  const selectedConflict = useAppSelector(selectSelectedConflict);
+  const arcSettings = useAppSelector(selectArcSettings);
+  const highlightedTriad = useAppSelector(selectHighlightedTriad);
+  const highlightedRoute = useAppSelector(selectHighlightedRoute);
+
+  const wrapperRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const tooltipRef = useRef<HTMLDivElement>(null);
+  const pickCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const pickDirtyRef = useRef(true);
+  const rotationRef = useRef<[number, number]>(rotation);
+  const transformRef = useRef(d3.zoomIdentity);
+  const frameRef = useRef<number | null>(null);
+
+  const [dimensions, setDimensions] = useState({ width: 0, height: 0 });
+
+  // Codes are resolved once per feature list instead of in every effect
+  const countryCodes = useMemo(() => countries.map(getCountryCode), [countries]);
+
+  const countryMap = useMemo(() => {
+    const map = new Map<string, Feature>();
+    countries.forEach((c, i) => {
+      const code = countryCodes[i];
+      if (code) map.set(code, c);
+    });
+    return map;
+  }, [countries, countryCodes]);
+
+  const pickDisputedArea = useMemo(() => createCountryPicker(disputedAreas), [disputedAreas]);
+
+  // Country names for the disputed area tooltips, which list administrators and claimants by code
+  const nameOf = useCallback(
+    (code: string) => (countryMap.get(code)?.properties as CountryFeatureProperties | undefined)?.name || code,
+    [countryMap]
+  );
+
+  // Rotation is applied at draw time from rotationRef, so dragging doesn't rebuild the projection
+  const projection = useMemo(() => {
+    const { width, height } = dimensions;
+    if (width === 0 || height === 0) return null;
+
+    if (projectionName === 'geoOrthographic') {
+      return d3.geoOrthographic()
+        .scale(Math.min(width, height) / 2 - 20)
+        .translate([width / 2, height / 2])
+        .clipAngle(90);
+    }
+    return d3.geoMercator().fitExtent(
+        [[20, 20], [width - 20, height - 20]],
+        { type: 'FeatureCollection', features: countries }
+    );
+  }, [countries, projectionName, dimensions]);
+
+  const countryStyles = useMemo<CountryStyle[]>(() => {
+    const selectedId = selectedCountry ? getCountryCode(selectedCountry) : null;
+    const comparedId = comparedCountry ? getCountryCode(comparedCountry) : null;
+    const allianceMembers = selectedAlliance ? new Set(alliances[selectedAlliance]) : null;
+    const chainMembers = new Set(getHighlightedChain(highlightedRoute, highlightedTriad, selectedId, comparedId));
+    const fillFor = createCountryFill({ relationshipData, colorMode, selectedId, comparedId, allianceMembers, scenarioDeltas });
+
+    return countries.map((feature, index): CountryStyle => {
+      const code = countryCodes[index];
+      const isSelected = !!code && (code === selectedId || code === comparedId || chainMembers.has(code));
+      const isMember = !!code && !!allianceMembers?.has(code);
+      return {
+        feature,
+        fill: fillFor(code),
+        outline: isSelected ? ['#fde047', 1.5] : isMember ? ['#FBBF24', 1] : null,
+      };
+    });
+  }, [countries, countryCodes, selectedCountry, comparedCountry, selectedAlliance, alliances, relationshipData, colorMode, scenarioDeltas, highlightedTriad, highlightedRoute]);
+
+  const overlayConflicts = useMemo(
+    () => getOverlayConflicts(conflicts, showConflicts, conflictFilters, selectedConflict),
+    [conflicts, conflictFilters, showConflicts, selectedConflict]
+  );
+
+  const conflictItems = useMemo<CanvasConflict[]>(() => {
+    const items: CanvasConflict[] = [];
+    getConflictIntensityByCountry(overlayConflicts).forEach((intensity, code) => {
+      const feature = countryMap.get(code);
+      if (feature) items.push({ feature, intensity });
+    });
+    return items;
+  }, [overlayConflicts, countryMap]);
+
+  const arcs = useMemo<CanvasArc[]>(() => {
+    const selectedId = selectedCountry ? getCountryCode(selectedCountry) : null;
+    const comparedId = comparedCountry ? getCountryCode(comparedCountry) : null;
+    const chain = getHighlightedChain(highlightedRoute, highlightedTriad, selectedId, comparedId);
+
+    return getArcPairs(relationshipData, selectedId, comparedId, arcSettings, alliances, chain).flatMap(([sourceCode, targetCode, score]) => {
+      const sourceFeature = sourceCode === selectedId ? selectedCountry : countryMap.get(sourceCode);
+      const targetFeature = countryMap.get(targetCode);
+      return sourceFeature && targetFeature ? [{ line: getArcLine(sourceFeature, targetFeature), score }] : [];
+    });
+  }, [selectedCountry, comparedCountry, relationshipData, arcSettings, alliances, countryMap, highlightedTriad, highlightedRoute]);
+
+  const hatchTiles = useMemo(() => {
+    const tiles = new Map<ConflictIntensity, HTMLCanvasElement>();
+    conflictItems.forEach(({ intensity }) => {
+      if (!tiles.has(intensity)) tiles.set(intensity, createHatchTile(CONFLICT_INTENSITY_COLORS[intensity]));
+    });
+    return tiles;
+  }, [conflictItems]);
+
+  const disputedHatchTile = useMemo(() => createHatchTile(DISPUTED_AREA_COLOR), []);
+
+  // The zoom transform only applies to the flat map; the globe zooms by rotating instead
+  const getTransform = useCallback(
+    () => (projectionName === 'geoOrthographic' ? d3.zoomIdentity : transformRef.current),
+    [projectionName]
+  );
+
+  const draw = useCallback(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context || !projection) return;
+
+    const { width, height } = dimensions;
+    const pixelRatio = window.devicePixelRatio || 1;
+    if (canvas.width !== Math.round(width * pixelRatio) || canvas.height !== Math.round(height * pixelRatio)) {
+      canvas.width = Math.round(width * pixelRatio);
+      canvas.height = Math.round(height * pixelRatio);
+    }
+    if (projectionName === 'geoOrthographic') projection.rotate(rotationRef.current);
+
+    const transform = getTransform();
+    context.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+    context.clearRect(0, 0, width, height);
+    context.translate(transform.x, transform.y);
+    context.scale(transform.k, transform.k);
+    const path = d3.geoPath(projection, context);
+
+    countryStyles.forEach(({ feature, fill }) => {
+      context.beginPath();
+      path(feature);
+      context.fillStyle = fill;
+      context.fill();
+    });
+
+    // Shared borders are stroked once; highlighted outlines go on top, as in the SVG map
+    context.beginPath();
+    path(borders);
+    context.strokeStyle = '#1a202c';
+    context.lineWidth = 0.5;
+    context.stroke();
+
+    countryStyles.forEach(({ feature, outline }) => {
+      if (!outline) return;
+      context.beginPath();
+      path(feature);
+      [context.strokeStyle, context.lineWidth] = outline;
+      context.stroke();
+    });
+
+    const disputedPattern = context.createPattern(disputedHatchTile, 'repeat');
+    context.save();
+    context.setLineDash([3, 2]);
+    disputedAreas.forEach(area => {
+      context.beginPath();
+      path(area);
+      if (disputedPattern) {
+        context.fillStyle = disputedPattern;
+        context.fill();
+      }
+      context.strokeStyle = DISPUTED_AREA_COLOR;
+      context.lineWidth = 0.75;
+      context.stroke();
+    });
+    context.restore();
+
+    conflictItems.forEach(({ feature, intensity }) => {
+      const tile = hatchTiles.get(intensity);
+      const pattern = tile ? context.createPattern(tile, 'repeat') : null;
+      context.beginPath();
+      path(feature);
+      if (pattern) {
+        context.fillStyle = pattern;
+        context.fill();
+      }
+      context.strokeStyle = CONFLICT_INTENSITY_COLORS[intensity];
+      context.lineWidth = 0.75;
+      context.stroke();
+    });
+
+    context.save();
+    context.globalCompositeOperation = 'screen';
+    context.lineCap = 'round';
+    context.shadowBlur = 6;
+    arcs.forEach(({ line, score }) => {
+      context.beginPath();
+      path(line);
+      context.strokeStyle = getArcColor(score);
+      context.shadowColor = getArcColor(score);
+      context.lineWidth = 1.5 + Math.abs(score) / 10;
+      context.stroke();
+    });
+    context.restore();
+
+    pickDirtyRef.current = true;
+  }, [projection, projectionName, dimensions, getTransform, countryStyles, borders, disputedAreas, disputedHatchTile, conflictItems, hatchTiles, arcs]);
+
+  // Interactions redraw through the latest draw function at most once per frame
+  const drawRef = useRef(draw);
+  const scheduleDraw = useCallback(() => {
+    if (frameRef.current !== null) return;
+    frameRef.current = requestAnimationFrame(() => {
+      frameRef.current = null;
+      drawRef.current();
+    });
+  }, []);
+
+  useEffect(() => {
+    drawRef.current = draw;
+    draw();
+  }, [draw]);
+
+  useEffect(() => () => {
+    if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+  }, []);
+
+  // Follow rotation changes made elsewhere (e.g. restored state)
+  useEffect(() => {
+    rotationRef.current = rotation;
+    scheduleDraw();
+  }, [rotation, scheduleDraw]);
+
+  // Effect to manage responsive dimensions
+  useEffect(() => {
+    if (!wrapperRef.current) return;
+    const updateDimensions = () => {
+        const { width, height } = wrapperRef.current!.getBoundingClientRect();
+        setDimensions({ width, height });
+    };
+
+    const resizeObserver = new ResizeObserver(updateDimensions);
+    resizeObserver.observe(wrapperRef.current);
+    updateDimensions();
+
+    return () => resizeObserver.disconnect();
+  }, []);
+
+  // Effect for zoom, pan, and drag interactions
+  useEffect(() => {
+    if (!canvasRef.current) return;
+    const canvas = d3.select(canvasRef.current);
+
+    canvas.on('.zoom', null);
+    canvas.on('.drag', null);
+
+    if (projectionName === 'geoOrthographic') {
+      const dragBehavior = d3.drag<HTMLCanvasElement, unknown>()
+        .on('drag', (event) => {
+          const [lambda, phi] = rotationRef.current;
+          rotationRef.current = [
+            lambda + event.dx * ROTATION_SPEED,
+            Math.max(-90, Math.min(90, phi - event.dy * ROTATION_SPEED))
+          ];
+          scheduleDraw();
+        })
+        .on('end', () => dispatch(setMapRotation(rotationRef.current)));
+      canvas.call(dragBehavior);
+    } else {
+      transformRef.current = d3.zoomTransform(canvasRef.current);
+      const zoomBehavior = d3.zoom<HTMLCanvasElement, unknown>()
+        .scaleExtent([1, 8])
+        .on('zoom', (event) => {
+          transformRef.current = event.transform;
+          scheduleDraw();
+        })
+        // Swap in finer or coarser outlines once the gesture settles
+        .on('end', (event) => dispatch(setMapDetail(getMapDetailForZoom(event.transform.k))));
+      canvas.call(zoomBehavior).on('dblclick.zoom', null);
+    }
+  }, [projectionName, dispatch, scheduleDraw]);
+
+  // Canvas coordinates to longitude/latitude, undoing the zoom transform
+  const invertPoint = useCallback((x: number, y: number) => {
+    const transform = getTransform();
+    return projection?.invert?.([(x - transform.x) / transform.k, (y - transform.y) / transform.k]) ?? null;
+  }, [projection, getTransform]);
+
+  // Returns the country under a point in canvas coordinates, redrawing the pick buffer if the map changed
+  const pickCountry = useCallback((x: number, y: number): Feature | null => {
+    if (!projection) return null;
+    const { width, height } = dimensions;
+    if (!pickCanvasRef.current) pickCanvasRef.current = document.createElement('canvas');
+    const pickCanvas = pickCanvasRef.current;
+    const context = pickCanvas.getContext('2d', { willReadFrequently: true });
+    if (!context) return null;
+
+    const transform = getTransform();
+    if (pickDirtyRef.current) {
+      pickCanvas.width = width;
+      pickCanvas.height = height;
+      context.setTransform(transform.k, 0, 0, transform.k, transform.x, transform.y);
+      const path = d3.geoPath(projection, context);
+      countries.forEach((feature, index) => {
+        context.beginPath();
+        path(feature);
+        context.fillStyle = indexToPickColor(index);
+        context.fill();
+      });
+      pickDirtyRef.current = false;
+    }
+
+    const [red, green, , alpha] = context.getImageData(Math.round(x), Math.round(y), 1, 1).data;
+    if (alpha === 0) return null;
+    const feature = countries[pickColorToIndex(red, green)];
+    if (!feature) return null;
+
+    // Anti-aliased borders blend two colors; confirm the hit against the geometry
+    const point = invertPoint(x, y);
+    return point && d3.geoContains(feature, point) ? feature : null;
+  }, [projection, dimensions, getTransform, invertPoint, countries]);
+
+  const handleClick = useCallback((event: ReactMouseEvent<HTMLCanvasElement>) => {
+    const [x, y] = d3.pointer(event.nativeEvent, event.currentTarget);
+    const country = pickCountry(x, y);
+    if (country && event.shiftKey) {
+      dispatch(compareCountry(country));
+    } else {
+      dispatch(selectCountryAction(country));
+    }
+  }, [pickCountry, dispatch]);
+
+  const handleMouseMove = useCallback((event: ReactMouseEvent<HTMLCanvasElement>) => {
+    const tooltip = tooltipRef.current;
+    // Skip picking while a button is held: the map is being dragged
+    if (!tooltip || !wrapperRef.current || event.buttons !== 0) return;
+    const [x, y] = d3.pointer(event.nativeEvent, event.currentTarget);
+    const country = pickCountry(x, y);
+    event.currentTarget.style.cursor = country ? 'pointer' : '';
+    if (!country) {
+      tooltip.style.opacity = '0';
+      return;
+    }
+    const [left, top] = d3.pointer(event.nativeEvent, wrapperRef.current);
+    const countryName = (country.properties as CountryFeatureProperties)?.name || 'N/A';
+    const lonLat = invertPoint(x, y);
+    const disputedArea = lonLat ? pickDisputedArea(lonLat) : null;
+    tooltip.textContent = disputedArea ? `${countryName}\n${describeDisputedArea(disputedArea.properties, nameOf)}` : countryName;
+    tooltip.style.left = `${left + 15}px`;
+    tooltip.style.top = `${top}px`;
+    tooltip.style.opacity = '1';
+  }, [pickCountry, invertPoint, pickDisputedArea, nameOf]);
+
+  const hideTooltip = useCallback(() => {
+    if (tooltipRef.current) tooltipRef.current.style.opacity = '0';
+  }, []);
+
+  return (
+    <div ref={wrapperRef} className="w-full h-full flex items-center justify-center relative">
+      <canvas
+        ref={canvasRef}
+        className="w-full h-full"
+        onClick={handleClick}
+        onMouseMove={handleMouseMove}
+        onMouseLeave={hideTooltip}
+      />
+
+      <div className="absolute bottom-4 left-4 w-64 space-y-4">
+        <div className="bg-white/80 dark:bg-gray-800/60 p-4 rounded-xl shadow-2xl backdrop-blur-md border border-gray-200 dark:border-white/10">
+          <MapLegend
+            relationshipData={relationshipData}
+            colorMode={colorMode}
+            scoreDimension={scoreDimension}
+            hasSelection={!!selectedCountry}
+            isComparing={!!comparedCountry}
+          />
+          {overlayConflicts.length > 0 && <ConflictLegend />}
+          {disputedAreas.length > 0 && <DisputedAreaLegend />}
+          <div className="mt-5"></div>
+          {/* Exports are still built as SVG, independently of the on-screen renderer */}
+          <ExportControls
+            countries={countries}
+            relationshipData={relationshipData}
+            alliances={alliances}
+            declaredAlliances={declaredAlliances}
+            conflicts={conflicts}
+            selectedCountry={selectedCountry}
+            selectedAlliance={selectedAlliance}
+            comparedCountry={comparedCountry}
+            colorMode={colorMode}
+            scenarioDeltas={scenarioDeltas}
+            scoreDimension={scoreDimension}
+            arcSettings={arcSettings}
+          />
+        </div>
+      </div>
+
+      <div ref={tooltipRef} style={{
+        position: 'absolute',
+        opacity: 0,
+        pointerEvents: 'none',
+        backgroundColor: 'rgba(0, 0, 0, 0.7)',
+        color: 'white',
+        padding: '8px',
+        borderRadius: '4px',
+        fontSize: '14px',
+        fontFamily: 'sans-serif',
+        whiteSpace: 'pre-line',
+        maxWidth: '18rem'
+      }}></div>
+    </div>
+  );
+};
+
+const CanvasMapChart = memo(CanvasMapChartInternal);
+export default CanvasMapChart;
@@ -0,0 +1,218 @@
+// src/components/ComparePanel.tsx
+import React, { useMemo, useState, memo, useCallback } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import type { Feature } from 'geojson';
+import type { RelationshipData } from '../types/data';
+import { getCountryCode, getCountryName } from '../Utils/Format_country_name';
+import { findCountryByCode } from '../Utils/CountryCodes';
+import { ColorScale, DivergenceScale } from '../Utils/ColorScale';
+import { compareCountries, getMostAgreed, getMostDisputed, type ComparisonRow } from '../Utils/Comparison';
+import { useAppSelector, useAppDispatch } from '../store/hooks';
+import { selectCountry as selectCountryAction, compareCountry, selectSelectedCountry, selectComparedCountry } from '../store/slices/uiSlice';
+
+interface ComparePanelProps {
+  countries: Feature[];
+  relationshipData: RelationshipData;
+  alliances: { [key: string]: string[] };
+}
+
+const formatScore = (score: number | null) => {
+  if (score === null) return 'n/a';
+  return score > 0 ? `+${score}` : String(score);
+};
+
+const ScoreBadge: React.FC<{ score: number | null }> = ({ score }) => (
+  <span className="font-bold tabular-nums" style={{ color: score === null ? undefined : ColorScale(score) }}>
+    {formatScore(score)}
+  </span>
+);
+
+// A list of third countries with both sides' scores next to each other
+const ComparisonListInternal: React.FC<{
+  title: string;
+  titleColor: string;
+  rows: ComparisonRow[];
+  relationshipData: RelationshipData;
+  onItemClick: (code: string) => void;
+}> = ({ title, titleColor, rows, relationshipData, onItemClick }) => (
+  <div>
+    <h3 className={`text-sm font-bold ${titleColor} mb-2 uppercase tracking-wider`}>{title}</h3>
+    <ul className="space-y-1">
+      {rows.map(row => (
+        <li key={row.code}>
+          <button
+            onClick={() => onItemClick(row.code)}
+            className="w-full grid grid-cols-[1fr_3rem_3rem] items-center text-sm p-2 rounded-md hover:bg-gray-100 dark:hover:bg-white/10 transition-colors text-left"
+          >
+            <span className="text-gray-600 dark:text-gray-300 truncate">{relationshipData[row.code]?.name || row.code}</span>
+            <span className="text-right"><ScoreBadge score={row.scoreA} /></span>
+            <span className="text-right"><ScoreBadge score={row.scoreB} /></span>
+          </button>
+        </li>
+      ))}
+    </ul>
+  </div>
+);
+const ComparisonList = memo(ComparisonListInternal);
+
+const ComparePanelInternal: React.FC<ComparePanelProps> = ({ countries, relationshipData, alliances }) => {
+  const dispatch = useAppDispatch();
+  const selectedCountry = useAppSelector(selectSelectedCountry);
+  const comparedCountry = useAppSelector(selectComparedCountry);
+  const [sortBy, setSortBy] = useState<'name' | 'divergence'>('divergence');
+
+  const codeA = getCountryCode(selectedCountry);
+  const codeB = getCountryCode(comparedCountry);
+
+  const comparison = useMemo(() => {
+    if (!codeA || !codeB) return null;
+    return compareCountries(relationshipData, alliances, codeA, codeB);
+  }, [relationshipData, alliances, codeA, codeB]);
+
+  const agreed = useMemo(() => (comparison ? getMostAgreed(comparison.rows) : []), [comparison]);
+  const disputed = useMemo(() => (comparison ? getMostDisputed(comparison.rows) : []), [comparison]);
+
+  const sortedRows = useMemo(() => {
+    if (!comparison) return [];
+    const nameOf = (code: string) => relationshipData[code]?.name || code;
+    return [...comparison.rows].sort((a, b) =>
+      sortBy === 'name' ? nameOf(a.code).localeCompare(nameOf(b.code)) : b.divergence - a.divergence
+    );
+  }, [comparison, relationshipData, sortBy]);
+
+  const handleExitCompare = useCallback(() => {
+    dispatch(compareCountry(null));
+  }, [dispatch]);
+
+  // Clicking a third country compares it against the primary country instead
+  const handleItemClick = useCallback((code: string) => {
+    const country = findCountryByCode(countries, code);
+    if (country) dispatch(compareCountry(country));
+  }, [countries, dispatch]);
+
+  const handleSwap = useCallback(() => {
+    if (!selectedCountry || !comparedCountry) return;
+    const previous = selectedCountry;
+    dispatch(selectCountryAction(comparedCountry));
+    dispatch(compareCountry(previous));
+  }, [dispatch, selectedCountry, comparedCountry]);
+
+  const nameA = getCountryName(selectedCountry);
+  const nameB = getCountryName(comparedCountry);
+
+  return (
+    <AnimatePresence>
+      {selectedCountry && comparedCountry && comparison && (
+        <motion.div
+          className="fixed md:absolute bg-white/90 dark:bg-gray-900/90 shadow-2xl backdrop-blur-md border border-gray-200 dark:border-white/10 z-50 flex flex-col bottom-0 left-0 right-0 h-[70vh] rounded-t-2xl md:bottom-auto md:left-auto md:top-4 md:right-4 md:w-96 md:h-auto md:max-h-[calc(100%-2rem)] md:rounded-lg"
+          initial={{ opacity: 0, x: 50 }}
+          animate={{ opacity: 1, x: 0 }}
+          exit={{ opacity: 0, x: 50 }}
+          transition={{ type: 'spring', stiffness: 400, damping: 40 }}
+        >
+          {/* Panel Header */}
+          <div className="p-4 flex-shrink-0">
+            <div className="flex justify-between items-start gap-2">
+              <h2 className="text-xl font-bold">
+                <span className="text-blue-500">{nameA}</span>
+                <span className="text-gray-400 mx-2">vs</span>
+                <span className="text-orange-500">{nameB}</span>
+              </h2>
+              <div className="flex items-center">
+                <button
+                  onClick={handleSwap}
+                  className="text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white hover:bg-gray-200 dark:hover:bg-white/10 rounded-full p-1 transition-colors"
+                  aria-label="Swap countries"
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4" /></svg>
+                </button>
+                <button
+                  onClick={handleExitCompare}
+                  className="text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white hover:bg-gray-200 dark:hover:bg-white/10 rounded-full p-1 transition-colors"
+                  aria-label="Exit compare mode"
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+                </button>
+              </div>
+            </div>
+          </div>
+
+          {/* Scrollable Detailed Content */}
+          <div className="flex-grow space-y-6 overflow-y-auto px-4 pb-4 scrollbar-thin scrollbar-thumb-gray-600/50 hover:scrollbar-thumb-gray-500/50 scrollbar-track-transparent">
+            <div>
+              <h3 className="text-sm font-bold text-blue-400 mb-2 uppercase tracking-wider">Mutual Scores</h3>
+              <div className="grid grid-cols-2 gap-2 text-sm">
+                <div className="p-2 rounded-md bg-gray-100 dark:bg-white/5">
+                  <div className="text-xs text-gray-500 dark:text-gray-400">{nameA} → {nameB}</div>
+                  <div className="text-lg"><ScoreBadge score={comparison.mutual.aToB} /></div>
+                </div>
+                <div className="p-2 rounded-md bg-gray-100 dark:bg-white/5">
+                  <div className="text-xs text-gray-500 dark:text-gray-400">{nameB} → {nameA}</div>
+                  <div className="text-lg"><ScoreBadge score={comparison.mutual.bToA} /></div>
+                </div>
+              </div>
+            </div>
+
+            <div>
+              <h3 className="text-sm font-bold text-amber-500 mb-2 uppercase tracking-wider">Shared Alliances</h3>
+              {comparison.sharedAlliances.length > 0 ? (
+                <div className="flex flex-wrap gap-1">
+                  {comparison.sharedAlliances.map(name => (
+                    <span key={name} className="text-xs px-2 py-1 bg-amber-100 dark:bg-amber-900/30 rounded-md text-amber-800 dark:text-amber-200">{name}</span>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500 dark:text-gray-400">No shared alliances.</p>
+              )}
+            </div>
+
+            {agreed.length > 0 && <ComparisonList title="Most Agreement" titleColor="text-sky-400" rows={agreed} relationshipData={relationshipData} onItemClick={handleItemClick} />}
+            {disputed.length > 0 && <ComparisonList title="Most Disagreement" titleColor="text-pink-500" rows={disputed} relationshipData={relationshipData} onItemClick={handleItemClick} />}
+
+            <div>
+              <div className="flex justify-between items-center mb-2">
+                <h3 className="text-sm font-bold text-gray-500 dark:text-gray-400 uppercase tracking-wider">All Countries</h3>
+                <select
+                  value={sortBy}
+                  onChange={(e) => setSortBy(e.target.value as 'name' | 'divergence')}
+                  className="text-xs bg-gray-100 dark:bg-slate-800 border border-gray-300 dark:border-slate-700 rounded-md p-1"
+                  aria-label="Sort countries"
+                >
+                  <option value="divergence">By divergence</option>
+                  <option value="name">By name</option>
+                </select>
+              </div>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-xs text-gray-500 dark:text-gray-400">
+                    <th className="text-left font-medium pb-1">Country</th>
+                    <th className="text-right font-medium pb-1 text-blue-500">{codeA}</th>
+                    <th className="text-right font-medium pb-1 text-orange-500">{codeB}</th>
+                    <th className="text-right font-medium pb-1">Gap</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {sortedRows.map(row => (
+                    <tr
+                      key={row.code}
+                      className="cursor-pointer hover:bg-gray-100 dark:hover:bg-white/10"
+                      onClick={() => handleItemClick(row.code)}
+                    >
+                      <td className="py-1 pr-2 text-gray-600 dark:text-gray-300 truncate max-w-[10rem]">{relationshipData[row.code]?.name || row.code}</td>
+                      <td className="py-1 text-right"><ScoreBadge score={row.scoreA} /></td>
+                      <td className="py-1 text-right"><ScoreBadge score={row.scoreB} /></td>
+                      <td className="py-1 text-right font-bold tabular-nums" style={{ color: DivergenceScale(row.divergence) }}>{row.divergence}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+const ComparePanel = memo(ComparePanelInternal);
+export default ComparePanel;
@@ -0,0 +1,26 @@
+// src/components/ConflictLegend.tsx
+import { CONFLICT_INTENSITY_COLORS, getConflictIntensityLabel } from '../Utils/Conflicts';
+import { CONFLICT_INTENSITIES } from '../types/conflict';
+
+// Key for the hatched conflict overlay; the swatches mimic the map's hatch pattern
+const ConflictLegend = () => (
+  <div className="mt-4">
+    <h4 className="font-bold text-sm mb-1 text-gray-900 dark:text-white">Conflict Intensity</h4>
+    <ul className="flex justify-between text-xs text-gray-600 dark:text-gray-300">
+      {CONFLICT_INTENSITIES.map(intensity => (
+        <li key={intensity} className="flex items-center gap-1">
+          <span
+            className="inline-block w-4 h-4 rounded-sm border"
+            style={{
+              borderColor: CONFLICT_INTENSITY_COLORS[intensity],
+              background: `repeating-linear-gradient(45deg, ${CONFLICT_INTENSITY_COLORS[intensity]} 0 2px, transparent 2px 5px)`,
+            }}
+          />
+          {getConflictIntensityLabel(intensity)}
+        </li>
+      ))}
+    </ul>
+  </div>
+);
+
+export default ConflictLegend;
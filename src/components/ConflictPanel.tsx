@@ -0,0 +1,154 @@
+// src/components/ConflictPanel.tsx
+import React, { useMemo, memo, useCallback } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import type { Feature } from 'geojson';
+import type { RelationshipData } from '../types/data';
+import type { ConflictZone } from '../types/conflict';
+import { getCountryName } from '../Utils/Format_country_name';
+import { findCountryByCode } from '../Utils/CountryCodes';
+import { ColorScale } from '../Utils/ColorScale';
+import {
+  CONFLICT_INTENSITY_COLORS,
+  getConflictIntensityLabel,
+  getConflictPairScores,
+  getConflictTypeLabel,
+  getConflictYearsLabel,
+} from '../Utils/Conflicts';
+import { useAppSelector, useAppDispatch } from '../store/hooks';
+import { selectCountry as selectCountryAction, compareCountry, selectConflict, selectSelectedConflict } from '../store/slices/uiSlice';
+
+interface ConflictPanelProps {
+  countries: Feature[];
+  relationshipData: RelationshipData;
+  conflicts: ConflictZone[];
+  isLoading: boolean;
+}
+
+const formatScore = (score: number | undefined) => {
+  if (score === undefined) return '—';
+  return score > 0 ? `+${score}` : String(score);
+};
+
+const ConflictPanelInternal: React.FC<ConflictPanelProps> = ({ countries, relationshipData, conflicts, isLoading }) => {
+  const dispatch = useAppDispatch();
+  const selectedConflict = useAppSelector(selectSelectedConflict);
+  const conflict = conflicts.find(c => c.id === selectedConflict);
+
+  const pairScores = useMemo(
+    () => (conflict ? getConflictPairScores(conflict, relationshipData) : []),
+    [conflict, relationshipData]
+  );
+
+  const findCountry = useCallback((code: string) => findCountryByCode(countries, code), [countries]);
+
+  const handleCountryClick = useCallback((code: string) => {
+    const country = findCountry(code);
+    if (country) dispatch(selectCountryAction(country));
+  }, [findCountry, dispatch]);
+
+  // A score row opens the pair in compare mode
+  const handlePairClick = useCallback((a: string, b: string) => {
+    const countryA = findCountry(a);
+    const countryB = findCountry(b);
+    if (!countryA || !countryB) return;
+    dispatch(selectCountryAction(countryA));
+    dispatch(compareCountry(countryB));
+  }, [findCountry, dispatch]);
+
+  const nameOf = (code: string) => {
+    const country = findCountry(code);
+    return relationshipData[code]?.name || (country ? getCountryName(country) : code);
+  };
+
+  return (
+    <AnimatePresence>
+      {conflict && (
+        <motion.div
+          className="fixed md:absolute bottom-0 left-0 right-0 md:bottom-auto md:left-auto md:top-4 md:right-4 w-full md:w-80 max-h-[60vh] md:max-h-[calc(100%-2rem)] flex flex-col bg-white/90 dark:bg-gray-900/90 shadow-2xl backdrop-blur-md border border-gray-200 dark:border-white/10 z-50 rounded-t-2xl md:rounded-lg"
+          initial={{ opacity: 0, x: 50 }}
+          animate={{ opacity: 1, x: 0 }}
+          exit={{ opacity: 0, x: 50 }}
+          transition={{ type: 'spring', stiffness: 400, damping: 40 }}
+        >
+          <div className="p-4 flex-shrink-0">
+            <div className="flex justify-between items-start gap-2">
+              <div>
+                <h2 className="text-2xl font-bold">{conflict.name}</h2>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  {getConflictTypeLabel(conflict.type)} • {getConflictYearsLabel(conflict)}
+                </p>
+              </div>
+              <button
+                onClick={() => dispatch(selectConflict(null))}
+                className="text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white hover:bg-gray-200 dark:hover:bg-white/10 rounded-full p-1 transition-colors"
+                aria-label="Close panel"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+              </button>
+            </div>
+            <span
+              className="inline-block mt-2 text-xs font-medium px-2 py-1 rounded-full text-white"
+              style={{ backgroundColor: CONFLICT_INTENSITY_COLORS[conflict.intensity] }}
+            >
+              {getConflictIntensityLabel(conflict.intensity)} Intensity
+            </span>
+          </div>
+
+          <div className="flex-grow space-y-6 overflow-y-auto px-4 pb-4 scrollbar-thin scrollbar-thumb-gray-600/50 hover:scrollbar-thumb-gray-500/50 scrollbar-track-transparent">
+            <p className="text-sm text-gray-700 dark:text-gray-200">{conflict.description}</p>
+
+            <div>
+              <h3 className="text-sm font-bold text-amber-500 mb-2 uppercase tracking-wider">Participants</h3>
+              <div className="flex flex-wrap gap-1">
+                {conflict.countries.map(code => (
+                  <button
+                    key={code}
+                    type="button"
+                    onClick={() => handleCountryClick(code)}
+                    className="text-xs px-2 py-1 bg-gray-100 dark:bg-gray-700 rounded-md text-gray-700 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600 cursor-pointer"
+                  >
+                    {nameOf(code)}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {pairScores.length > 0 && (
+              <div>
+                <h3 className="text-sm font-bold text-gray-500 dark:text-gray-400 mb-2 uppercase tracking-wider">Mutual Scores</h3>
+                {isLoading ? (
+                  <p className="text-sm">Loading relationship data...</p>
+                ) : (
+                  <>
+                    <ul className="space-y-1">
+                      {pairScores.map(({ a, b, aToB, bToA }) => (
+                        <li key={`${a}-${b}`}>
+                          <button
+                            onClick={() => handlePairClick(a, b)}
+                            className="w-full flex justify-between items-center text-sm p-2 rounded-md hover:bg-gray-100 dark:hover:bg-white/10 transition-colors"
+                            title={`${nameOf(a)} ⇄ ${nameOf(b)}`}
+                          >
+                            <span className="text-gray-600 dark:text-gray-300">{a} ⇄ {b}</span>
+                            <span className="text-xs tabular-nums">
+                              <span className="font-bold" style={{ color: aToB === undefined ? undefined : ColorScale(aToB) }}>{formatScore(aToB)}</span>
+                              {' / '}
+                              <span className="font-bold" style={{ color: bToA === undefined ? undefined : ColorScale(bToA) }}>{formatScore(bToA)}</span>
+                            </span>
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                    <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">How the first country scores the second, then the reverse. Click a pair to compare.</p>
+                  </>
+                )}
+              </div>
+            )}
+          </div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+const ConflictPanel = memo(ConflictPanelInternal);
+export default ConflictPanel;
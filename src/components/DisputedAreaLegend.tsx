@@ -0,0 +1,18 @@
+// src/components/DisputedAreaLegend.tsx
+import { DISPUTED_AREA_COLOR } from '../Utils/Boundaries';
+
+// Key for the disputed area overlay, drawn like the map's dashed outline and hatch
+const DisputedAreaLegend = () => (
+  <div className="mt-4 flex items-center gap-2 text-xs text-gray-600 dark:text-gray-300">
+    <span
+      className="inline-block w-4 h-4 rounded-sm border border-dashed"
+      style={{
+        borderColor: DISPUTED_AREA_COLOR,
+        background: `repeating-linear-gradient(-45deg, ${DISPUTED_AREA_COLOR} 0 1px, transparent 1px 4px)`,
+      }}
+    />
+    Disputed area (hover for claimants)
+  </div>
+);
+
+export default DisputedAreaLegend;
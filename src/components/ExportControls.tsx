@@ -5,14 +5,45 @@ import { saveAs } from 'file-saver';
 import * as d3 from 'd3';
 import type { Feature } from 'geojson';
 import { getCountryCode, type CountryFeatureProperties } from '../Utils/Format_country_name';
+import { findCountryByCode } from '../Utils/CountryCodes';
 import type { RelationshipData } from '../types/data';
-import { ColorScale } from '../Utils/ColorScale';
+import type { RelationshipDeltas } from '../types/scenario';
+import type { ConflictZone } from '../types/conflict';
+import { createCountryFill, type MapColorMode } from '../Utils/MapColoring';
+import { getScoreDimensionLabel, type ScoreDimension } from '../Utils/Dimensions';
+import { getExportDate, saveSvgString, saveSvgStringAsPng } from '../Utils/SvgExport';
+import { RANKING_COLUMNS, getCountryRankings, sortRankings } from '../Utils/Rankings';
+import { getArcColor, getArcConnections, getArcLine, type ArcSettings } from '../Utils/Arcs';
+import { buildCountryReport, createReportHtml, createReportPdf, type ReportMap } from '../Utils/Report';
 interface ExportControlsProps {
   countries: Feature[];
   relationshipData: RelationshipData;
   alliances: { [key: string]: string[] };
+  // Memberships listed in the country report; detected blocs are left out
+  declaredAlliances: { [key: string]: string[] };
+  conflicts: ConflictZone[];
   selectedCountry: Feature | null;
   selectedAlliance: string | null;
+  comparedCountry: Feature | null;
+  colorMode: MapColorMode;
+  scenarioDeltas?: RelationshipDeltas | null;
+  scoreDimension: ScoreDimension;
+  arcSettings: ArcSettings;
+}
+
+const EXPORT_WIDTH = 1800;
+const EXPORT_HEIGHT = 1000;
+
+interface MapExportOptions {
+  countries: Feature[];
+  relationshipData: RelationshipData;
+  selectedCountry: Feature | null;
+  comparedCountry: Feature | null;
+  alliances: { [key: string]: string[] };
+  selectedAlliance: string | null;
+  colorMode: MapColorMode;
+  scenarioDeltas?: RelationshipDeltas | null;
+  arcSettings: ArcSettings;
 }
 
 /**
@@ -21,16 +52,17 @@ interface ExportControlsProps {
  * full-world view, regardless of the user's current map interaction.
  * @returns An SVG string representation of the full map.
  */
-const createFullMapSvgString = (
-  countries: Feature[],
-  relationshipData: RelationshipData,
-  selectedCountry: Feature | null,
-  alliances: { [key: string]: string[] },
-  selectedAlliance: string | null
-): string => {
-  const EXPORT_WIDTH = 1800;
-  const EXPORT_HEIGHT = 1000;
-
+const createFullMapSvgString = ({
+  countries,
+  relationshipData,
+  selectedCountry,
+  comparedCountry,
+  alliances,
+  selectedAlliance,
+  colorMode,
+  scenarioDeltas,
+  arcSettings,
+}: MapExportOptions): string => {
   // Create a detached SVG element to build the export version
   const tempSvgNode = document.createElementNS('http://www.w3.org/2000/svg', 'svg');
   const tempSvg = d3.select(tempSvgNode)
@@ -50,7 +82,9 @@ const createFullMapSvgString = (
   const pathGenerator = d3.geoPath().projection(projection);
 
   const selectedId = selectedCountry ? getCountryCode(selectedCountry) : null;
+  const comparedId = comparedCountry ? getCountryCode(comparedCountry) : null;
   const allianceMembers = selectedAlliance ? new Set(alliances[selectedAlliance]) : null;
+  const fillFor = createCountryFill({ relationshipData, colorMode, selectedId, comparedId, allianceMembers, scenarioDeltas });
 
   // Draw country paths
   tempSvg.append('g')
@@ -62,26 +96,18 @@ const createFullMapSvgString = (
     .attr('stroke', (d: Feature) => {
       const countryCode = getCountryCode(d);
       if (selectedId && countryCode === selectedId) return '#fde047';
+      if (comparedId && countryCode === comparedId) return '#fde047';
       if (allianceMembers && countryCode && allianceMembers.has(countryCode)) return '#FBBF24';
       return '#000'; // Black stroke for better definition on export
     })
     .attr('stroke-width', (d: Feature) => {
       const countryCode = getCountryCode(d);
       if (selectedId && countryCode === selectedId) return 1.5;
+      if (comparedId && countryCode === comparedId) return 1.5;
       if (allianceMembers && countryCode && allianceMembers.has(countryCode)) return 1;
       return 0.5;
     })
-    .attr('fill', (d: Feature) => {
-      const countryCode = getCountryCode(d);
-      if (!countryCode) return '#4A5568';
-      if (allianceMembers) return allianceMembers.has(countryCode) ? '#D97706' : '#4A5568';
-      if (selectedId) {
-        if (countryCode === selectedId) return '#3b82f6';
-        const relations = relationshipData[selectedId]?.relations || {};
-        return ColorScale(relations[countryCode] || 0);
-      }
-      return '#4A5568';
-    });
+    .attr('fill', (d: Feature) => fillFor(getCountryCode(d)));
 
   // If a country is selected, draw the relationship arcs
   if (selectedCountry && selectedId && relationshipData[selectedId]) {
@@ -96,28 +122,17 @@ const createFullMapSvgString = (
       </filter>
     `);
     
-    const relations = relationshipData[selectedId].relations || {};
-    const sortedRelations = Object.entries(relations).sort(([, a], [, b]) => Math.abs(b) - Math.abs(a));
-    const allies = sortedRelations.filter(([, score]) => score > 0).slice(0, 5);
-    const adversaries = sortedRelations.filter(([, score]) => score < 0).slice(0, 5);
-    const connections = [...allies, ...adversaries];
-    
-    const sourceCentroid = pathGenerator.centroid(selectedCountry);
+    // Same partners and arc settings as the live map
+    const connections = getArcConnections(relationshipData, selectedId, comparedId, arcSettings, alliances);
     
     connections.forEach(([targetCode, score]) => {
-      const targetFeature = countries.find(c => getCountryCode(c) === targetCode);
+      const targetFeature = findCountryByCode(countries, targetCode);
       if (!targetFeature) return;
-      const targetCentroid = pathGenerator.centroid(targetFeature);
-      
-      const dx = targetCentroid[0] - sourceCentroid[0];
-      const dy = targetCentroid[1] - sourceCentroid[1];
-      const controlX = (sourceCentroid[0] + targetCentroid[0]) / 2 + dy * 0.3;
-      const controlY = (sourceCentroid[1] + targetCentroid[1]) / 2 - dx * 0.3;
       
       tempSvg.append('path')
-        .attr('d', `M${sourceCentroid[0]},${sourceCentroid[1]}Q${controlX},${controlY},${targetCentroid[0]},${targetCentroid[1]}`)
+        .attr('d', pathGenerator(getArcLine(selectedCountry, targetFeature)))
         .attr('fill', 'none')
-        .attr('stroke', score > 0 ? '#00FFFF' : '#FF288C')
+        .attr('stroke', getArcColor(score))
         .attr('stroke-width', 1.5 + Math.abs(score) / 10)
         .attr('stroke-linecap', 'round')
         .style('mix-blend-mode', 'screen')
@@ -134,44 +149,27 @@ const createFullMapSvgString = (
 };
 
 
-const ExportControls: React.FC<ExportControlsProps> = ({ countries, relationshipData, alliances, selectedCountry, selectedAlliance }) => {
+const ExportControls: React.FC<ExportControlsProps> = ({ countries, relationshipData, alliances, declaredAlliances, conflicts, selectedCountry, selectedAlliance, comparedCountry, colorMode, scenarioDeltas, scoreDimension, arcSettings }) => {
   const [isExpanded, setIsExpanded] = useState(false);
+  const [isCreatingPdf, setIsCreatingPdf] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
 
-  const exportAsPNG = () => {
-    const svgString = createFullMapSvgString(countries, relationshipData, selectedCountry, alliances, selectedAlliance);
-    const svgBlob = new Blob([svgString], { type: 'image/svg+xml;charset=utf-8' });
-    const url = URL.createObjectURL(svgBlob);
-    
-    const img = new Image();
-    const canvas = document.createElement('canvas');
-    const ctx = canvas.getContext('2d');
-    const scale = 2; // For higher resolution output
-    
-    const EXPORT_WIDTH = 1800; // Must match the dimensions used in createFullMapSvgString
-    const EXPORT_HEIGHT = 1000;
+  // relationshipData is already projected onto the selected dimension; tag the CSV so the files can be told apart
+  const dimensionSuffix = scoreDimension === 'overall' ? '' : `-${scoreDimension}`;
 
-    img.onload = () => {
-      canvas.width = EXPORT_WIDTH * scale;
-      canvas.height = EXPORT_HEIGHT * scale;
-      
-      ctx?.scale(scale, scale);
-      ctx?.drawImage(img, 0, 0, EXPORT_WIDTH, EXPORT_HEIGHT);
-      
-      canvas.toBlob((blob) => {
-        if (blob) {
-          saveAs(blob, `worldties-map-${new Date().toISOString().split('T')[0]}.png`);
-        }
-        URL.revokeObjectURL(url);
-      }, 'image/png', 1.0);
-    };
-    
-    img.src = url;
+  const exportAsPNG = async () => {
+    const svgString = createFullMapSvgString({ countries, relationshipData, selectedCountry, comparedCountry, alliances, selectedAlliance, colorMode, scenarioDeltas, arcSettings });
+    setExportError(null);
+    try {
+      await saveSvgStringAsPng(svgString, EXPORT_WIDTH, EXPORT_HEIGHT, `worldties-map-${getExportDate()}.png`);
+    } catch (err) {
+      setExportError((err as Error).message);
+    }
   };
 
   const exportAsSVG = () => {
-    const svgString = createFullMapSvgString(countries, relationshipData, selectedCountry, alliances, selectedAlliance);
-    const blob = new Blob([svgString], { type: 'image/svg+xml;charset=utf-8' });
-    saveAs(blob, `worldties-map-${new Date().toISOString().split('T')[0]}.svg`);
+    const svgString = createFullMapSvgString({ countries, relationshipData, selectedCountry, comparedCountry, alliances, selectedAlliance, colorMode, scenarioDeltas, arcSettings });
+    saveSvgString(svgString, `worldties-map-${getExportDate()}.svg`);
   };
 
   const exportAsCSV = () => {
@@ -184,11 +182,11 @@ const ExportControls: React.FC<ExportControlsProps> = ({ countries, relationship
       const allRelationships: CsvRow[] = [];
 
       Object.entries(relationshipData).forEach(([countryCode, countryData]) => {
-        const country = countries.find(c => getCountryCode(c) === countryCode);
+        const country = findCountryByCode(countries, countryCode);
         const countryName = (country?.properties as CountryFeatureProperties)?.name || countryCode;
 
         Object.entries(countryData.relations).forEach(([partnerCode, strength]) => {
-          const partner = countries.find(c => getCountryCode(c) === partnerCode);
+          const partner = findCountryByCode(countries, partnerCode);
           const partnerName = (partner?.properties as CountryFeatureProperties)?.name || partnerCode;
 
           allRelationships.push({
@@ -210,7 +208,7 @@ const ExportControls: React.FC<ExportControlsProps> = ({ countries, relationship
       ].join('\n');
 
       const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-      saveAs(blob, `world-relationships-${new Date().toISOString().split('T')[0]}.csv`);
+      saveAs(blob, `world-relationships${dimensionSuffix}-${new Date().toISOString().split('T')[0]}.csv`);
     } else {
       const countryCode = getCountryCode(selectedCountry);
       if (!countryCode) return;
@@ -220,7 +218,7 @@ const ExportControls: React.FC<ExportControlsProps> = ({ countries, relationship
       const csvContent = [
         'Country,Relationship Strength',
         ...Object.entries(countryRelationships).map(([partnerCode, strength]) => {
-          const partner = countries.find(c => getCountryCode(c) === partnerCode);
+          const partner = findCountryByCode(countries, partnerCode);
           const partnerName = (partner?.properties as CountryFeatureProperties)?.name || partnerCode;
           return `"${partnerName}",${strength}`;
         }),
@@ -228,10 +226,60 @@ const ExportControls: React.FC<ExportControlsProps> = ({ countries, relationship
 
       const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
       const countryName = (selectedCountry.properties as CountryFeatureProperties)?.name || 'country';
-      saveAs(blob, `${countryName}-relationships-${new Date().toISOString().split('T')[0]}.csv`);
+      saveAs(blob, `${countryName}-relationships${dimensionSuffix}-${new Date().toISOString().split('T')[0]}.csv`);
+    }
+  };
+
+  // The briefing covers the selected country alone, with the map as it is colored now
+  const getCountryReport = () => {
+    const countryCode = getCountryCode(selectedCountry);
+    if (!countryCode) return null;
+    const dimension = scoreDimension === 'overall' ? '' : ` · ${getScoreDimensionLabel(scoreDimension)} scores`;
+    const report = buildCountryReport(relationshipData, countryCode, conflicts, declaredAlliances, `Country briefing · ${getExportDate()}${dimension}`);
+    if (!report) return null;
+    const map: ReportMap = {
+      svg: createFullMapSvgString({ countries, relationshipData, selectedCountry, comparedCountry: null, alliances, selectedAlliance: null, colorMode, scenarioDeltas, arcSettings }),
+      width: EXPORT_WIDTH,
+      height: EXPORT_HEIGHT,
+    };
+    return { report, map, fileName: `${report.name}-briefing${dimensionSuffix}-${getExportDate()}` };
+  };
+
+  const exportReportAsHTML = () => {
+    const briefing = getCountryReport();
+    if (!briefing) return;
+    const blob = new Blob([createReportHtml(briefing.report, briefing.map)], { type: 'text/html;charset=utf-8' });
+    saveAs(blob, `${briefing.fileName}.html`);
+  };
+
+  const exportReportAsPDF = async () => {
+    const briefing = getCountryReport();
+    if (!briefing) return;
+    setIsCreatingPdf(true);
+    setExportError(null);
+    try {
+      saveAs(await createReportPdf(briefing.report, briefing.map), `${briefing.fileName}.pdf`);
+    } catch (err) {
+      setExportError((err as Error).message);
+    } finally {
+      setIsCreatingPdf(false);
     }
   };
 
+  const exportRankingsAsCSV = () => {
+    const rankings = sortRankings(getCountryRankings(relationshipData), 'influence');
+    if (rankings.length === 0) return;
+
+    const csvContent = [
+      ['Country', 'Code', ...RANKING_COLUMNS.map(({ description }) => description)].join(','),
+      ...rankings.map(ranking =>
+        [`"${ranking.name}"`, ranking.code, ...RANKING_COLUMNS.map(({ key }) => ranking[key])].join(',')
+      ),
+    ].join('\n');
+
+    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+    saveAs(blob, `country-rankings${dimensionSuffix}-${new Date().toISOString().split('T')[0]}.csv`);
+  };
 
   return (
     <div className="w-full">
@@ -275,6 +323,36 @@ const ExportControls: React.FC<ExportControlsProps> = ({ countries, relationship
               <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" /></svg>
               {selectedCountry ? 'Country Data (CSV)' : 'All Data (CSV)'}
             </button>
+            <button
+              onClick={exportRankingsAsCSV}
+              className="w-full px-3 py-2 text-sm font-medium text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md hover:bg-gray-50 dark:hover:bg-gray-600 transition-colors flex items-center justify-center"
+              title="Export country rankings as CSV"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" /></svg>
+              Rankings (CSV)
+            </button>
+            {selectedCountry && (
+              <>
+                <button
+                  onClick={exportReportAsHTML}
+                  className="w-full px-3 py-2 text-sm font-medium text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md hover:bg-gray-50 dark:hover:bg-gray-600 transition-colors flex items-center justify-center"
+                  title="Export a briefing on the selected country as a standalone web page"
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" /></svg>
+                  Country Report (HTML)
+                </button>
+                <button
+                  onClick={exportReportAsPDF}
+                  disabled={isCreatingPdf}
+                  className="w-full px-3 py-2 text-sm font-medium text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md hover:bg-gray-50 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-wait transition-colors flex items-center justify-center"
+                  title="Export a briefing on the selected country as PDF"
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" /></svg>
+                  {isCreatingPdf ? 'Creating PDF...' : 'Country Report (PDF)'}
+                </button>
+              </>
+            )}
+            {exportError && <p className="text-xs text-red-500">{exportError}</p>}
         </div>
       )}
     </div>
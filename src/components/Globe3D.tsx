@@ -0,0 +1,333 @@
+// src/components/Globe3D.tsx
+import { Suspense, memo, useCallback, useEffect, useMemo, useRef, type ComponentRef, type RefObject } from 'react';
+import { Canvas, useThree, type ThreeEvent } from '@react-three/fiber';
+import { Line, OrbitControls, useTexture } from '@react-three/drei';
+import * as THREE from 'three';
+import * as d3 from 'd3';
+import type { Feature, MultiLineString } from 'geojson';
+
+import { getCountryCode, type CountryFeatureProperties } from '../Utils/Format_country_name';
+import { createCountryFill } from '../Utils/MapColoring';
+import { getArcColor, getArcPairs, getRepresentativePoint, getHighlightedChain } from '../Utils/Arcs';
+import { GLOBE_RADIUS, createCountryPicker, getGreatCirclePoints, lonLatToVector3, uvToLonLat, type Vector3Tuple } from '../Utils/Globe';
+import { getMapDetailForZoom, type DisputedAreaFeature } from '../Utils/WorldMap';
+import { DISPUTED_AREA_COLOR, describeDisputedArea } from '../Utils/Boundaries';
+import MapLegend from './MapLegend';
+import DisputedAreaLegend from './DisputedAreaLegend';
+
+import { useAppSelector, useAppDispatch } from '../store/hooks';
+import { selectCountry as selectCountryAction, compareCountry, selectComparedCountry, selectSelectedCountry, selectSelectedAlliance, selectScoreDimension, selectMapColorMode, selectArcSettings, selectHighlightedTriad, selectHighlightedRoute, setMapDetail } from '../store/slices/uiSlice';
+import type { RelationshipData } from '../types/data';
+import type { RelationshipDeltas } from '../types/scenario';
+
+interface Globe3DProps {
+  countries: Feature[];
+  borders: MultiLineString;
+  disputedAreas: DisputedAreaFeature[];
+  relationshipData: RelationshipData;
+  alliances: { [key: string]: string[] };
+  scenarioDeltas?: RelationshipDeltas | null;
+}
+
+interface GlobeArc {
+  key: string;
+  points: Vector3Tuple[];
+  score: number;
+}
+
+// The country layer is painted into an equirectangular texture of this size
+const TEXTURE_WIDTH = 4096;
+const TEXTURE_HEIGHT = 2048;
+const CAMERA_DISTANCE = 3;
+// Pointer travel in pixels above which a click is treated as the end of a drag
+const DRAG_THRESHOLD = 4;
+
+// Paints country fills and outlines onto a transparent canvas laid out like the day texture.
+// Borders are stroked once from the mesh; only highlighted countries get their own outline.
+// Disputed areas get a light wash and a dashed outline.
+function paintCountryLayer(
+  countries: Feature[],
+  borders: MultiLineString,
+  disputedAreas: DisputedAreaFeature[],
+  fillFor: (code: string | null) => string,
+  highlightFor: (code: string | null) => [string, number] | null
+): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = TEXTURE_WIDTH;
+  canvas.height = TEXTURE_HEIGHT;
+  const context = canvas.getContext('2d');
+  if (!context) return canvas;
+
+  const projection = d3.geoEquirectangular()
+    .scale(TEXTURE_WIDTH / (2 * Math.PI))
+    .translate([TEXTURE_WIDTH / 2, TEXTURE_HEIGHT / 2]);
+  const path = d3.geoPath(projection, context);
+
+  context.globalAlpha = 0.6;
+  countries.forEach(feature => {
+    context.beginPath();
+    path(feature);
+    context.fillStyle = fillFor(getCountryCode(feature));
+    context.fill();
+  });
+
+  context.globalAlpha = 1;
+  context.beginPath();
+  path(borders);
+  context.strokeStyle = 'rgba(26, 32, 44, 0.8)';
+  context.lineWidth = 1.5;
+  context.stroke();
+
+  countries.forEach(feature => {
+    const highlight = highlightFor(getCountryCode(feature));
+    if (!highlight) return;
+    context.beginPath();
+    path(feature);
+    [context.strokeStyle, context.lineWidth] = highlight;
+    context.stroke();
+  });
+
+  context.setLineDash([8, 6]);
+  disputedAreas.forEach(area => {
+    context.beginPath();
+    path(area);
+    context.globalAlpha = 0.35;
+    context.fillStyle = DISPUTED_AREA_COLOR;
+    context.fill();
+    context.globalAlpha = 1;
+    context.strokeStyle = DISPUTED_AREA_COLOR;
+    context.lineWidth = 2;
+    context.stroke();
+  });
+
+  return canvas;
+}
+
+const Earth = () => {
+  const dayMap = useTexture('/textures/day_map.jpg', texture => {
+    texture.colorSpace = THREE.SRGBColorSpace;
+  });
+
+  return (
+    <mesh>
+      <sphereGeometry args={[GLOBE_RADIUS, 96, 64]} />
+      <meshBasicMaterial map={dayMap} />
+    </mesh>
+  );
+};
+
+type OrbitControlsImpl = ComponentRef<typeof OrbitControls>;
+type OrbitControlsRef = RefObject<OrbitControlsImpl | null>;
+
+// Turns the camera to face the given point, keeping the current zoom
+const CameraFocus = ({ target, controls }: { target: [number, number] | null; controls: OrbitControlsRef }) => {
+  const camera = useThree(state => state.camera);
+
+  useEffect(() => {
+    if (!target) return;
+    camera.position.set(...lonLatToVector3(target, camera.position.length()));
+    controls.current?.update();
+  }, [target, camera, controls]);
+
+  return null;
+};
+
+// Reports the zoom level when the user stops zooming, relative to the starting camera distance
+const ZoomTracker = ({ onZoomEnd, controls }: { onZoomEnd: (scale: number) => void; controls: OrbitControlsRef }) => {
+  const camera = useThree(state => state.camera);
+
+  useEffect(() => {
+    const current = controls.current;
+    if (!current) return;
+    const handleEnd = () => {
+      onZoomEnd((CAMERA_DISTANCE - GLOBE_RADIUS) / (camera.position.length() - GLOBE_RADIUS));
+    };
+    current.addEventListener('end', handleEnd);
+    return () => current.removeEventListener('end', handleEnd);
+  }, [camera, controls, onZoomEnd]);
+
+  return null;
+};
+
+const Globe3DInternal = ({ countries, borders, disputedAreas, relationshipData, alliances, scenarioDeltas }: Globe3DProps) => {
+  const dispatch = useAppDispatch();
+  const selectedCountry = useAppSelector(selectSelectedCountry);
+  const comparedCountry = useAppSelector(selectComparedCountry);
+  const selectedAlliance = useAppSelector(selectSelectedAlliance);
+  const scoreDimension = useAppSelector(selectScoreDimension);
+  const colorMode = useAppSelector(selectMapColorMode);
+  const arcSettings = useAppSelector(selectArcSettings);
+  const highlightedTriad = useAppSelector(selectHighlightedTriad);
+  const highlightedRoute = useAppSelector(selectHighlightedRoute);
+
+  const wrapperRef = useRef<HTMLDivElement>(null);
+  const tooltipRef = useRef<HTMLDivElement>(null);
+  const controlsRef = useRef<OrbitControlsImpl>(null);
+
+  const selectedId = selectedCountry ? getCountryCode(selectedCountry) : null;
+  const comparedId = comparedCountry ? getCountryCode(comparedCountry) : null;
+
+  const countryMap = useMemo(() => {
+    const map = new Map<string, Feature>();
+    countries.forEach(c => {
+      const code = getCountryCode(c);
+      if (code) map.set(code, c);
+    });
+    return map;
+  }, [countries]);
+
+  const pickCountry = useMemo(() => createCountryPicker(countries), [countries]);
+  const pickDisputedArea = useMemo(() => createCountryPicker(disputedAreas), [disputedAreas]);
+
+  // Country names for the disputed area tooltips, which list administrators and claimants by code
+  const nameOf = useCallback(
+    (code: string) => (countryMap.get(code)?.properties as CountryFeatureProperties | undefined)?.name || code,
+    [countryMap]
+  );
+
+  // Same fills and outlines as the SVG map, baked into a texture wrapped around the globe
+  const countryTexture = useMemo(() => {
+    const allianceMembers = selectedAlliance ? new Set(alliances[selectedAlliance]) : null;
+    const chainMembers = new Set(getHighlightedChain(highlightedRoute, highlightedTriad, selectedId, comparedId));
+    const fillFor = createCountryFill({ relationshipData, colorMode, selectedId, comparedId, allianceMembers, scenarioDeltas });
+    const highlightFor = (code: string | null): [string, number] | null => {
+      if (code && (code === selectedId || code === comparedId || chainMembers.has(code))) return ['#fde047', 5];
+      if (code && allianceMembers?.has(code)) return ['#FBBF24', 3];
+      return null;
+    };
+
+    const texture = new THREE.CanvasTexture(paintCountryLayer(countries, borders, disputedAreas, fillFor, highlightFor));
+    texture.colorSpace = THREE.SRGBColorSpace;
+    texture.anisotropy = 4;
+    return texture;
+  }, [countries, borders, disputedAreas, relationshipData, colorMode, scenarioDeltas, selectedId, comparedId, selectedAlliance, alliances, highlightedTriad, highlightedRoute]);
+
+  useEffect(() => () => countryTexture.dispose(), [countryTexture]);
+
+  const arcs = useMemo<GlobeArc[]>(() => {
+    const chain = getHighlightedChain(highlightedRoute, highlightedTriad, selectedId, comparedId);
+    return getArcPairs(relationshipData, selectedId, comparedId, arcSettings, alliances, chain).flatMap(([sourceCode, targetCode, score]) => {
+      const sourceFeature = sourceCode === selectedId ? selectedCountry : countryMap.get(sourceCode);
+      const targetFeature = countryMap.get(targetCode);
+      if (!sourceFeature || !targetFeature) return [];
+      return [{
+        key: `${sourceCode}-${targetCode}`,
+        points: getGreatCirclePoints(getRepresentativePoint(sourceFeature), getRepresentativePoint(targetFeature)),
+        score,
+      }];
+    });
+  }, [selectedCountry, selectedId, comparedId, relationshipData, countryMap, arcSettings, alliances, highlightedTriad, highlightedRoute]);
+
+  const focusTarget = useMemo(
+    () => (selectedCountry ? getRepresentativePoint(selectedCountry) : null),
+    [selectedCountry]
+  );
+
+  const countryAt = useCallback((event: ThreeEvent<PointerEvent | MouseEvent>) => (
+    event.uv ? pickCountry(uvToLonLat(event.uv.x, event.uv.y)) : null
+  ), [pickCountry]);
+
+  const handleClick = useCallback((event: ThreeEvent<MouseEvent>) => {
+    event.stopPropagation();
+    // Releasing a rotation drag should not change the selection
+    if (event.delta > DRAG_THRESHOLD) return;
+    const country = countryAt(event);
+    if (!country) {
+      dispatch(selectCountryAction(null));
+    } else if (event.nativeEvent.shiftKey) {
+      dispatch(compareCountry(country));
+    } else {
+      dispatch(selectCountryAction(country));
+    }
+  }, [countryAt, dispatch]);
+
+  const handlePointerMove = useCallback((event: ThreeEvent<PointerEvent>) => {
+    const tooltip = tooltipRef.current;
+    const wrapper = wrapperRef.current;
+    if (!tooltip || !wrapper) return;
+    const country = countryAt(event);
+    if (!country || !event.uv) {
+      tooltip.style.opacity = '0';
+      return;
+    }
+    const { left, top } = wrapper.getBoundingClientRect();
+    const countryName = (country.properties as CountryFeatureProperties)?.name || 'N/A';
+    const disputedArea = pickDisputedArea(uvToLonLat(event.uv.x, event.uv.y));
+    tooltip.textContent = disputedArea ? `${countryName}\n${describeDisputedArea(disputedArea.properties, nameOf)}` : countryName;
+    tooltip.style.left = `${event.nativeEvent.clientX - left + 15}px`;
+    tooltip.style.top = `${event.nativeEvent.clientY - top}px`;
+    tooltip.style.opacity = '1';
+  }, [countryAt, pickDisputedArea, nameOf]);
+
+  // Finer outlines are painted into the texture as the camera moves closer
+  const handleZoomEnd = useCallback((scale: number) => {
+    dispatch(setMapDetail(getMapDetailForZoom(scale)));
+  }, [dispatch]);
+
+  const hideTooltip = useCallback(() => {
+    if (tooltipRef.current) tooltipRef.current.style.opacity = '0';
+  }, []);
+
+  return (
+    <div ref={wrapperRef} className="w-full h-full relative bg-gray-950">
+      <Canvas
+        camera={{ position: [0, 0, CAMERA_DISTANCE], fov: 45, near: 0.1, far: 100 }}
+        onPointerMissed={() => dispatch(selectCountryAction(null))}
+      >
+        <Suspense fallback={null}>
+          <Earth />
+        </Suspense>
+        <mesh
+          onClick={handleClick}
+          onPointerMove={handlePointerMove}
+          onPointerOut={hideTooltip}
+        >
+          <sphereGeometry args={[GLOBE_RADIUS * 1.002, 96, 64]} />
+          <meshBasicMaterial map={countryTexture} transparent depthWrite={false} />
+        </mesh>
+        {arcs.map(arc => (
+          <Line
+            key={arc.key}
+            points={arc.points}
+            color={getArcColor(arc.score)}
+            lineWidth={1.5 + Math.abs(arc.score) / 10}
+            transparent
+            opacity={0.9}
+          />
+        ))}
+        <OrbitControls ref={controlsRef} makeDefault enablePan={false} minDistance={1.3} maxDistance={6} rotateSpeed={0.5} zoomSpeed={0.6} />
+        <CameraFocus target={focusTarget} controls={controlsRef} />
+        <ZoomTracker onZoomEnd={handleZoomEnd} controls={controlsRef} />
+      </Canvas>
+
+      <div className="absolute bottom-4 left-4 w-64 bg-white/80 dark:bg-gray-800/60 p-4 rounded-xl shadow-2xl backdrop-blur-md border border-gray-200 dark:border-white/10">
+        <MapLegend
+          relationshipData={relationshipData}
+          colorMode={colorMode}
+          scoreDimension={scoreDimension}
+          hasSelection={!!selectedCountry}
+          isComparing={!!comparedCountry}
+        />
+        {disputedAreas.length > 0 && <DisputedAreaLegend />}
+        <p className="mt-3 text-xs text-gray-500 dark:text-gray-400">Drag to rotate, scroll to zoom. Shift-click to compare.</p>
+      </div>
+
+      <div ref={tooltipRef} style={{
+        position: 'absolute',
+        opacity: 0,
+        pointerEvents: 'none',
+        backgroundColor: 'rgba(0, 0, 0, 0.7)',
+        color: 'white',
+        padding: '8px',
+        borderRadius: '4px',
+        fontSize: '14px',
+        fontFamily: 'sans-serif',
+        whiteSpace: 'pre-line',
+        maxWidth: '18rem'
+      }}></div>
+    </div>
+  );
+};
+
+const Globe3D = memo(Globe3DInternal);
+export default Globe3D;
@@ -0,0 +1,176 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { createPortal } from 'react-dom';
+import type { Feature } from 'geojson';
+import { createCountryLookup } from '../Utils/CountryCodes';
+import { describeImport, parseImportFile, CSV_COLUMNS, type ImportResult } from '../Utils/Import';
+import { useDatasetImport } from '../hooks/useData';
+import { useAppDispatch } from '../store/hooks';
+import { setImportedFile } from '../store/slices/dataSlice';
+
+interface ImportDialogProps {
+  countries: Feature[];
+  onClose: () => void;
+}
+
+// Warnings listed before the rest are summed up
+const MAX_WARNINGS_SHOWN = 20;
+
+const ImportDialog: React.FC<ImportDialogProps> = ({ countries, onClose }) => {
+  const dispatch = useAppDispatch();
+  const { importRelationships, importAlliances } = useDatasetImport();
+  const lookup = useMemo(() => createCountryLookup(countries), [countries]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const readFile = async (file: File) => {
+    setFileName(file.name);
+    setResult(null);
+    setError(null);
+    try {
+      setResult(parseImportFile(file.name, await file.text(), lookup));
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const handleDrop = (event: React.DragEvent) => {
+    event.preventDefault();
+    setIsDragging(false);
+    const file = event.dataTransfer.files[0];
+    if (file) readFile(file);
+  };
+
+  const handleImport = () => {
+    if (!result || !fileName) return;
+    if (result.kind === 'relationships') {
+      importRelationships(result.data);
+    } else {
+      importAlliances(result.data);
+    }
+    dispatch(setImportedFile({ kind: result.kind, fileName }));
+    onClose();
+  };
+
+  return createPortal(
+    <div
+      className="fixed inset-0 z-[60] flex items-center justify-center bg-black/50 p-4"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="import-dialog-title"
+        className="w-full max-w-lg max-h-full overflow-y-auto rounded-lg bg-white dark:bg-gray-900 text-gray-900 dark:text-white border border-gray-200 dark:border-white/10 shadow-2xl p-5 space-y-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center">
+          <h2 id="import-dialog-title" className="text-lg font-bold">Import data</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white hover:bg-gray-200 dark:hover:bg-white/10 rounded-full p-1 transition-colors"
+            aria-label="Close dialog"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+
+        <div className="text-sm text-gray-600 dark:text-gray-300 space-y-1">
+          <p>Replaces the bundled data until the page is reloaded. Accepted files:</p>
+          <ul className="list-disc pl-5 text-xs space-y-0.5">
+            <li>Relationship JSON in the format of <code>relationships.json</code></li>
+            <li>CSV with the columns {CSV_COLUMNS.join(', ')}, as exported from the map</li>
+            <li>Alliance JSON in the format of <code>alliances.json</code></li>
+          </ul>
+          <p className="text-xs text-gray-500 dark:text-gray-400">Countries can be given by code or by name.</p>
+        </div>
+
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={handleDrop}
+          className={`w-full p-6 rounded-lg border-2 border-dashed text-sm transition-colors ${
+            isDragging
+              ? 'border-blue-400 bg-blue-500/10'
+              : 'border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-white/5'
+          }`}
+        >
+          {fileName ?? 'Drop a .json or .csv file here, or click to choose one'}
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,.csv,application/json,text/csv"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) readFile(file);
+            e.target.value = '';
+          }}
+        />
+
+        {error && (
+          <p className="text-sm text-red-500" role="alert">{error}</p>
+        )}
+
+        {result && (
+          <div className="space-y-2">
+            <p className="text-sm">
+              <span className="font-medium">{result.kind === 'relationships' ? 'Relationship data' : 'Alliances'}:</span>{' '}
+              {describeImport(result)}
+            </p>
+            {result.warnings.length > 0 && (
+              <div className="rounded-md bg-amber-50 dark:bg-amber-900/20 border-l-4 border-amber-500 p-2">
+                <p className="text-xs font-medium text-amber-700 dark:text-amber-400 mb-1">
+                  {result.warnings.length} warning(s); the affected entries are left out
+                </p>
+                <ul className="text-xs text-gray-700 dark:text-gray-300 space-y-0.5 max-h-40 overflow-y-auto">
+                  {result.warnings.slice(0, MAX_WARNINGS_SHOWN).map((warning, index) => (
+                    <li key={index}>{warning}</li>
+                  ))}
+                  {result.warnings.length > MAX_WARNINGS_SHOWN && (
+                    <li className="italic">and {result.warnings.length - MAX_WARNINGS_SHOWN} more</li>
+                  )}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-3 py-1.5 text-sm rounded-md border border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-white/10 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleImport}
+            disabled={!result}
+            className="px-3 py-1.5 text-sm rounded-md bg-blue-600 text-white hover:bg-blue-500 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+          >
+            Import
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default ImportDialog;
@@ -3,50 +3,114 @@ import { motion, AnimatePresence, type PanInfo } from 'framer-motion';
 import type { Feature } from 'geojson';
 import type { RelationshipData } from '../types/data';
 import { getCountryCode, getCountryName } from '../Utils/Format_country_name';
-import { ColorScale } from '../Utils/ColorScale';
-import { conflictZones } from '../types/conflict';
+import { findCountryByCode } from '../Utils/CountryCodes';
+import { ColorScale, SimilarityScale } from '../Utils/ColorScale';
+import type { ConflictZone } from '../types/conflict';
+import { getConflictIntensityLabel, getConflictTypeLabel, getConflictYearsLabel } from '../Utils/Conflicts';
 import { useAppSelector, useAppDispatch } from '../store/hooks';
-import { selectCountry as selectCountryAction, selectSelectedCountry } from '../store/slices/uiSlice';
+import { selectCountry as selectCountryAction, selectConflict, selectSelectedCountry, selectSelectedYear, selectScoreDimension, selectRelationshipEditMode, setRelationshipEditMode, selectHighlightedTriad, setHighlightedTriad, selectMapColorMode, setMapColorMode } from '../store/slices/uiSlice';
+import { getScoreDimensionLabel } from '../Utils/Dimensions';
+import { getAsymmetryGap, isUnreciprocated } from '../Utils/Asymmetry';
+import { countHostileTies, getUnbalancedTriads } from '../Utils/Balance';
+import { formatSimilarity, getSimilarCountries, type CountrySimilarity } from '../Utils/Similarity';
+import RelationshipEditor from './RelationshipEditor';
 
 interface InfoPanelProps {
   countries: Feature[];
   relationshipData: RelationshipData;
+  // Fetched scores without edits, which the edit mode changes
+  baselineData?: RelationshipData;
+  conflicts: ConflictZone[];
   isLoading: boolean;
   error?: Error | null;
 }
 
+// Unbalanced triangles listed at first and added by each "Show more"
+const TRIADS_PAGE_SIZE = 5;
+
+const formatTie = (tie: number) => (tie > 0 ? `+${tie}` : String(tie));
+
 // A small helper component to avoid repetition
 const RelationListInternal: React.FC<{
   title: string;
   titleColor: string;
   relations: [string, number][];
   relationshipData: RelationshipData;
+  countryId: string;
   onItemClick: (partnerId: string) => void;
-}> = ({ title, titleColor, relations, relationshipData, onItemClick }) => (
+}> = ({ title, titleColor, relations, relationshipData, countryId, onItemClick }) => (
   <div>
     <h3 className={`text-sm font-bold ${titleColor} mb-2 uppercase tracking-wider`}>{title}</h3>
     <ul className="space-y-1">
-      {relations.map(([partnerId, score]) => (
-        <li key={partnerId}>
+      {relations.map(([partnerId, score]) => {
+        const reverseScore = relationshipData[partnerId]?.relations[countryId];
+        const unreciprocated = isUnreciprocated(score, reverseScore);
+        return (
+          <li key={partnerId}>
+            <button
+              onClick={() => onItemClick(partnerId)}
+              className="w-full flex justify-between items-center text-sm p-2 rounded-md hover:bg-gray-100 dark:hover:bg-white/10 transition-colors"
+            >
+              <span className="text-gray-600 dark:text-gray-300">
+                {relationshipData[partnerId]?.name || partnerId}
+                {unreciprocated && (
+                  <span
+                    className="ml-1 text-xs text-pink-500"
+                    title={reverseScore === undefined ? 'No score in return' : `Not reciprocated: scored ${reverseScore > 0 ? `+${reverseScore}` : reverseScore} in return`}
+                  >
+                    ⚑
+                  </span>
+                )}
+              </span>
+              <span className="font-bold text-base" style={{ color: ColorScale(score) }}>
+                {score > 0 ? `+${score}` : score}
+              </span>
+            </button>
+          </li>
+        );
+      })}
+    </ul>
+  </div>
+);
+const RelationList = memo(RelationListInternal);
+
+const SimilarityListInternal: React.FC<{
+  title: string;
+  titleColor: string;
+  countries: CountrySimilarity[];
+  relationshipData: RelationshipData;
+  onItemClick: (partnerId: string) => void;
+}> = ({ title, titleColor, countries, relationshipData, onItemClick }) => (
+  <div>
+    <h3 className={`text-sm font-bold ${titleColor} mb-2 uppercase tracking-wider`}>{title}</h3>
+    <ul className="space-y-1">
+      {countries.map(({ code, similarity, shared }) => (
+        <li key={code}>
           <button
-            onClick={() => onItemClick(partnerId)}
+            onClick={() => onItemClick(code)}
+            title={`Correlation over ${shared} partners scored by both`}
             className="w-full flex justify-between items-center text-sm p-2 rounded-md hover:bg-gray-100 dark:hover:bg-white/10 transition-colors"
           >
-            <span className="text-gray-600 dark:text-gray-300">{relationshipData[partnerId]?.name || partnerId}</span>
-            <span className="font-bold text-base" style={{ color: ColorScale(score) }}>
-              {score > 0 ? `+${score}` : score}
-            </span>
+            <span className="text-gray-600 dark:text-gray-300">{relationshipData[code]?.name || code}</span>
+            <span className="font-bold tabular-nums" style={{ color: SimilarityScale(similarity) }}>{formatSimilarity(similarity)}</span>
           </button>
         </li>
       ))}
     </ul>
   </div>
 );
-const RelationList = memo(RelationListInternal);
+const SimilarityList = memo(SimilarityListInternal);
 
-const InfoPanelInternal: React.FC<InfoPanelProps> = ({ countries, relationshipData, isLoading, error }) => {
+const InfoPanelInternal: React.FC<InfoPanelProps> = ({ countries, relationshipData, baselineData, conflicts, isLoading, error }) => {
   const dispatch = useAppDispatch();
   const selectedCountry = useAppSelector(selectSelectedCountry);
+  const selectedYear = useAppSelector(selectSelectedYear);
+  const scoreDimension = useAppSelector(selectScoreDimension);
+  const editMode = useAppSelector(selectRelationshipEditMode) && !!baselineData;
+  const highlightedTriad = useAppSelector(selectHighlightedTriad);
+  const colorMode = useAppSelector(selectMapColorMode);
+  const [triadsShown, setTriadsShown] = useState(TRIADS_PAGE_SIZE);
+  const dimensionSuffix = scoreDimension === 'overall' ? '' : ` · ${getScoreDimensionLabel(scoreDimension)}`;
 
   const handleCountrySelect = useCallback((country: Feature) => {
     dispatch(selectCountryAction(country));
@@ -83,14 +147,44 @@ const InfoPanelInternal: React.FC<InfoPanelProps> = ({ countries, relationshipDa
     .sort(([, a]: [string, number], [, b]: [string, number]) => a - b)
     .slice(0, 5), [relations]);
 
+  // Partners that don't return the selected country's view, largest gap first
+  const unreciprocatedRelations = useMemo(() => {
+    if (!countryId) return [];
+    return relations
+      .filter(([partnerId, score]) => {
+        const reverseScore = relationshipData[partnerId]?.relations[countryId];
+        return reverseScore !== undefined && isUnreciprocated(score, reverseScore);
+      })
+      .map(([partnerId, score]) => {
+        const reverseScore = relationshipData[partnerId].relations[countryId];
+        return { partnerId, score, reverseScore, gap: getAsymmetryGap(score, reverseScore) };
+      })
+      .sort((a, b) => b.gap - a.gap)
+      .slice(0, 5);
+  }, [relations, relationshipData, countryId]);
+
+  // Triangles around the selected country that balance theory expects to shift
+  const unbalancedTriads = useMemo(
+    () => (countryId && countryData ? getUnbalancedTriads(relationshipData, countryId) : []),
+    [relationshipData, countryId, countryData]
+  );
+
+  useEffect(() => setTriadsShown(TRIADS_PAGE_SIZE), [countryId]);
+
+  // Countries whose scores of everyone else line up with, or run against, the selected country's
+  const similarCountries = useMemo(
+    () => (countryId && countryData ? getSimilarCountries(relationshipData, countryId) : { similar: [], opposite: [] }),
+    [relationshipData, countryId, countryData]
+  );
+
   const relevantConflicts = useMemo(() => {
     if (!countryId) return [];
-    return conflictZones.filter(conflict => conflict.countries.includes(countryId));
-  }, [countryId]);
+    return conflicts.filter(conflict => conflict.countries.includes(countryId));
+  }, [conflicts, countryId]);
 
   // --- Event Handlers ---
   const handleItemClick = (partnerId: string) => {
-    const newSelectedCountry = countries.find(c => getCountryCode(c) === partnerId);
+    const newSelectedCountry = findCountryByCode(countries, partnerId);
     if (newSelectedCountry) {
       handleCountrySelect(newSelectedCountry);
       // After selecting a new country, reset the panel to the clean "peek" state
@@ -143,15 +237,6 @@ const InfoPanelInternal: React.FC<InfoPanelProps> = ({ countries, relationshipDa
     }
   };
 
-  const getConflictTypeLabel = (type: string) => {
-    const labels: Record<string, string> = {
-      'civil_war': 'Civil War', 'international': 'International',
-      'insurgency': 'Insurgency', 'border_dispute': 'Border Dispute',
-      'other': 'Other'
-    };
-    return labels[type] || type;
-  };
-
   // --- Framer Motion Animation Variants ---
   const PEEK_HEIGHT = '6rem'; // 96px - height of the "peek" view
   const panelVariants = {
@@ -226,51 +311,169 @@ const InfoPanelInternal: React.FC<InfoPanelProps> = ({ countries, relationshipDa
                 >
                   {isMobile && <div className="mx-auto w-12 h-1.5 flex-shrink-0 rounded-full bg-gray-300 dark:bg-gray-600 mb-4" />}
                   <div className="flex justify-between items-center">
-                    <h2 className="text-2xl font-bold">{getCountryName(selectedCountry)}</h2>
-                    <button
-                      onClick={(e) => { e.stopPropagation(); closePanel(); }}
-                      className="text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white hover:bg-gray-200 dark:hover:bg-white/10 rounded-full p-1 transition-colors"
-                      aria-label="Close panel"
-                    >
-                      <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
-                    </button>
+                    <div>
+                      <h2 className="text-2xl font-bold">{getCountryName(selectedCountry)}</h2>
+                      {selectedYear !== null && (
+                        <p className="text-xs text-gray-500 dark:text-gray-400">Relations as of {selectedYear}</p>
+                      )}
+                      {!isMobile && (
+                        <p className="text-xs text-gray-500 dark:text-gray-400">Shift-click another country to compare</p>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-1">
+                      {baselineData && (
+                        <button
+                          onClick={(e) => { e.stopPropagation(); dispatch(setRelationshipEditMode(!editMode)); }}
+                          className={`rounded-full p-1 transition-colors ${editMode ? 'text-blue-500 bg-blue-100 dark:bg-blue-500/20' : 'text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white hover:bg-gray-200 dark:hover:bg-white/10'}`}
+                          aria-label={editMode ? 'Stop editing scores' : 'Edit scores'}
+                          aria-pressed={editMode}
+                          title={editMode ? 'Stop editing scores' : 'Edit scores'}
+                        >
+                          <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536M9 13l6.232-6.232a2.5 2.5 0 113.536 3.536L12.536 16.536 8 18l1.464-4.536z" /></svg>
+                        </button>
+                      )}
+                      <button
+                        onClick={(e) => { e.stopPropagation(); closePanel(); }}
+                        className="text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white hover:bg-gray-200 dark:hover:bg-white/10 rounded-full p-1 transition-colors"
+                        aria-label="Close panel"
+                      >
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+                      </button>
+                    </div>
                   </div>
                 </motion.div>
 
                 {/* Scrollable Detailed Content */}
                 <div className="flex-grow space-y-6 overflow-y-auto px-4 pb-4 scrollbar-thin scrollbar-thumb-gray-600/50 hover:scrollbar-thumb-gray-500/50 scrollbar-track-transparent">
-                  {relevantConflicts.length > 0 && (
-                    <div>
-                      <h3 className="text-sm font-bold text-amber-500 mb-2 uppercase tracking-wider">Active Conflicts</h3>
-                      <div className="space-y-3">
-                        {relevantConflicts.map((conflict) => (
-                          <div key={conflict.id} className="p-3 rounded-lg bg-amber-50 dark:bg-amber-900/20 border-l-4 border-amber-500">
-                            <div className="flex justify-between items-start">
-                              <h4 className="font-medium text-gray-900 dark:text-white">{conflict.name}</h4>
-                              <span className={`text-xs px-2 py-1 rounded-full ${getIntensityColor(conflict.intensity)} bg-opacity-20`}>
-                                {conflict.intensity.charAt(0).toUpperCase() + conflict.intensity.slice(1)} Intensity
-                              </span>
-                            </div>
-                            <div className="mt-1 text-xs text-gray-600 dark:text-gray-300">{getConflictTypeLabel(conflict.type)} • Since {conflict.startYear}</div>
-                            <p className="mt-2 text-sm text-gray-700 dark:text-gray-200">{conflict.description}</p>
-                            <div className="mt-2 flex flex-wrap gap-1">
-                              {conflict.countries.filter(code => code !== countryId).map(code => {
-                                const country = countries.find(c => getCountryCode(c) === code);
-                                return country ? (
-                                  <button key={code} type="button" className="text-xs px-2 py-1 bg-gray-100 dark:bg-gray-700 rounded-md text-gray-700 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600 cursor-pointer" onClick={() => handleItemClick(code)}>
-                                    {getCountryName(country)}
-                                  </button>
-                                ) : null;
-                              })}
-                            </div>
+                  {editMode && baselineData ? (
+                    <>
+                      {(selectedYear !== null || scoreDimension !== 'overall') && (
+                        <p className="text-xs text-gray-500 dark:text-gray-400">Edits change the latest overall scores, not the year or dimension shown on the map.</p>
+                      )}
+                      <RelationshipEditor countryId={countryId!} baselineData={baselineData} />
+                    </>
+                  ) : (
+                    <>
+                      {relevantConflicts.length > 0 && (
+                        <div>
+                          <h3 className="text-sm font-bold text-amber-500 mb-2 uppercase tracking-wider">Conflicts</h3>
+                          <div className="space-y-3">
+                            {relevantConflicts.map((conflict) => (
+                              <div key={conflict.id} className="p-3 rounded-lg bg-amber-50 dark:bg-amber-900/20 border-l-4 border-amber-500">
+                                <div className="flex justify-between items-start">
+                                  <h4 className="font-medium text-gray-900 dark:text-white">{conflict.name}</h4>
+                                  <span className={`text-xs px-2 py-1 rounded-full ${getIntensityColor(conflict.intensity)} bg-opacity-20`}>
+                                    {getConflictIntensityLabel(conflict.intensity)} Intensity
+                                  </span>
+                                </div>
+                                <div className="mt-1 text-xs text-gray-600 dark:text-gray-300">{getConflictTypeLabel(conflict.type)} • {getConflictYearsLabel(conflict)}</div>
+                                <p className="mt-2 text-sm text-gray-700 dark:text-gray-200">{conflict.description}</p>
+                                <div className="mt-2 flex flex-wrap gap-1">
+                                  {conflict.countries.filter(code => code !== countryId).map(code => {
+                                    const country = findCountryByCode(countries, code);
+                                    return country ? (
+                                      <button key={code} type="button" className="text-xs px-2 py-1 bg-gray-100 dark:bg-gray-700 rounded-md text-gray-700 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600 cursor-pointer" onClick={() => handleItemClick(code)}>
+                                        {getCountryName(country)}
+                                      </button>
+                                    ) : null;
+                                  })}
+                                </div>
+                                <button type="button" onClick={() => dispatch(selectConflict(conflict.id))} className="mt-2 text-xs font-medium text-amber-600 dark:text-amber-400 hover:underline">
+                                  View conflict details
+                                </button>
+                              </div>
+                            ))}
                           </div>
-                        ))}
-                      </div>
-                    </div>
-                  )}
+                        </div>
+                      )}
+
+                      {friendlyRelations.length > 0 && <RelationList title={`Top Allies${dimensionSuffix}`} titleColor="text-green-400" relations={friendlyRelations} relationshipData={relationshipData} countryId={countryId!} onItemClick={handleItemClick} />}
+                      {hostileRelations.length > 0 && <RelationList title={`Top Adversaries${dimensionSuffix}`} titleColor="text-red-400" relations={hostileRelations} relationshipData={relationshipData} countryId={countryId!} onItemClick={handleItemClick} />}
+
+                      {unreciprocatedRelations.length > 0 && (
+                        <div>
+                          <h3 className="text-sm font-bold text-pink-500 mb-2 uppercase tracking-wider">Not Reciprocated</h3>
+                          <ul className="space-y-1">
+                            {unreciprocatedRelations.map(({ partnerId, score, reverseScore, gap }) => (
+                              <li key={partnerId}>
+                                <button
+                                  onClick={() => handleItemClick(partnerId)}
+                                  className="w-full flex justify-between items-center text-sm p-2 rounded-md hover:bg-gray-100 dark:hover:bg-white/10 transition-colors"
+                                >
+                                  <span className="text-gray-600 dark:text-gray-300">{relationshipData[partnerId]?.name || partnerId}</span>
+                                  <span className="text-xs text-gray-500 dark:text-gray-400 tabular-nums">
+                                    <span className="font-bold" style={{ color: ColorScale(score) }}>{score > 0 ? `+${score}` : score}</span>
+                                    {' → '}
+                                    <span className="font-bold" style={{ color: ColorScale(reverseScore) }}>{reverseScore > 0 ? `+${reverseScore}` : reverseScore}</span>
+                                    <span className="ml-2">Δ{gap}</span>
+                                  </span>
+                                </button>
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                      )}
 
-                  {friendlyRelations.length > 0 && <RelationList title="Top Allies" titleColor="text-green-400" relations={friendlyRelations} relationshipData={relationshipData} onItemClick={handleItemClick} />}
-                  {hostileRelations.length > 0 && <RelationList title="Top Adversaries" titleColor="text-red-400" relations={hostileRelations} relationshipData={relationshipData} onItemClick={handleItemClick} />}
+                      {(similarCountries.similar.length > 0 || similarCountries.opposite.length > 0) && (
+                        <div className="space-y-4">
+                          <div className="flex justify-between items-center">
+                            <p className="text-xs text-gray-500 dark:text-gray-400">Countries that score the rest of the world like {countryData?.name}, or the opposite way.</p>
+                            {colorMode !== 'similarity' && (
+                              <button
+                                onClick={() => dispatch(setMapColorMode('similarity'))}
+                                className="flex-shrink-0 ml-2 text-xs font-medium text-sky-500 dark:text-sky-400 hover:underline"
+                              >
+                                Show on map
+                              </button>
+                            )}
+                          </div>
+                          {similarCountries.similar.length > 0 && <SimilarityList title="Thinks Alike" titleColor="text-sky-400" countries={similarCountries.similar} relationshipData={relationshipData} onItemClick={handleItemClick} />}
+                          {similarCountries.opposite.length > 0 && <SimilarityList title="Thinks Opposite" titleColor="text-pink-500" countries={similarCountries.opposite} relationshipData={relationshipData} onItemClick={handleItemClick} />}
+                        </div>
+                      )}
+
+                      {unbalancedTriads.length > 0 && (
+                        <div>
+                          <h3 className="text-sm font-bold text-purple-400 uppercase tracking-wider">Unbalanced Triangles ({unbalancedTriads.length})</h3>
+                          <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">Ties of {countryData?.name} with both partners, and between them. Click one to draw it on the map.</p>
+                          <ul className="space-y-1">
+                            {unbalancedTriads.slice(0, triadsShown).map(triad => {
+                              const [, b, c] = triad.members;
+                              const [ab, bc, ca] = triad.ties;
+                              const isHighlighted = highlightedTriad?.[1] === b && highlightedTriad?.[2] === c;
+                              return (
+                                <li key={`${b}-${c}`}>
+                                  <button
+                                    onClick={() => dispatch(setHighlightedTriad(isHighlighted ? null : triad.members))}
+                                    aria-pressed={isHighlighted}
+                                    title={countHostileTies(triad) === 3 ? 'Three mutual rivals' : 'Two friends of a country on opposite sides'}
+                                    className={`w-full flex justify-between items-center gap-2 text-sm p-2 rounded-md transition-colors ${isHighlighted ? 'bg-purple-500/20' : 'hover:bg-gray-100 dark:hover:bg-white/10'}`}
+                                  >
+                                    <span className="text-left text-gray-600 dark:text-gray-300 min-w-0 truncate">
+                                      {relationshipData[b]?.name || b} · {relationshipData[c]?.name || c}
+                                    </span>
+                                    <span className="text-xs tabular-nums flex-shrink-0 space-x-1">
+                                      <span className="font-bold" style={{ color: ColorScale(ab) }} title={`${countryId} ⇄ ${b}`}>{formatTie(ab)}</span>
+                                      <span className="font-bold" style={{ color: ColorScale(bc) }} title={`${b} ⇄ ${c}`}>{formatTie(bc)}</span>
+                                      <span className="font-bold" style={{ color: ColorScale(ca) }} title={`${c} ⇄ ${countryId}`}>{formatTie(ca)}</span>
+                                    </span>
+                                  </button>
+                                </li>
+                              );
+                            })}
+                          </ul>
+                          {unbalancedTriads.length > triadsShown && (
+                            <button
+                              onClick={() => setTriadsShown(shown => shown + TRIADS_PAGE_SIZE)}
+                              className="mt-1 text-xs font-medium text-purple-500 dark:text-purple-400 hover:underline"
+                            >
+                              Show more
+                            </button>
+                          )}
+                        </div>
+                      )}
+                    </>
+                  )}
                 </div>
               </motion.div>
             </>
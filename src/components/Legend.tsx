@@ -1,22 +1,32 @@
-const Legend = () => {
+interface LegendProps {
+  title?: string;
+  gradient?: string;
+  labels?: [string, string, string];
+}
+
+const Legend = ({
+  title = 'Relationship Scale',
+  gradient = 'linear-gradient(to right, #e74c3c, #f1c40f, #2ecc71)',
+  labels = ['Hostile', 'Neutral', 'Ally'],
+}: LegendProps) => {
   return (
     <div className="w-full">
-      <h4 className="font-bold text-md mb-2 text-gray-900 dark:text-white">Relationship Scale</h4>
+      <h4 className="font-bold text-md mb-2 text-gray-900 dark:text-white">{title}</h4>
       
       <div
         className="w-full h-4 rounded-md"
         style={{
-          background: 'linear-gradient(to right, #e74c3c, #f1c40f, #2ecc71)',
+          background: gradient,
         }}
       ></div>
       
       <div className="flex justify-between text-xs mt-1 text-gray-600 dark:text-gray-300">
-        <span>Hostile</span>
-        <span>Neutral</span>
-        <span>Ally</span>
+        <span>{labels[0]}</span>
+        <span>{labels[1]}</span>
+        <span>{labels[2]}</span>
       </div>
     </div>
   );
 };
 
-export default Legend;
\ No newline at end of file
+export default Legend;
@@ -1,40 +1,78 @@
 import { useRef, useEffect, forwardRef, useImperativeHandle, memo, useCallback, useMemo, useState } from 'react';
 import * as d3 from 'd3';
-import type { Feature } from 'geojson';
+import type { Feature, LineString, MultiLineString } from 'geojson';
 
-import { ColorScale } from '../Utils/ColorScale';
 import { getCountryCode, type CountryFeatureProperties } from '../Utils/Format_country_name';
-import Legend from './Legend';
+import { createCountryFill } from '../Utils/MapColoring';
+import { getArcColor, getArcPairs, getArcLine, getHighlightedChain } from '../Utils/Arcs';
+import { CONFLICT_INTENSITY_COLORS, getConflictIntensityByCountry, getOverlayConflicts } from '../Utils/Conflicts';
+import { getMapDetailForZoom, type DisputedAreaFeature } from '../Utils/WorldMap';
+import { DISPUTED_AREA_COLOR, describeDisputedArea } from '../Utils/Boundaries';
+import { createCountryPicker } from '../Utils/Globe';
+import { CONFLICT_INTENSITIES, type ConflictIntensity, type ConflictZone } from '../types/conflict';
+import MapLegend from './MapLegend';
+import ConflictLegend from './ConflictLegend';
+import DisputedAreaLegend from './DisputedAreaLegend';
 
 import { useAppSelector, useAppDispatch } from '../store/hooks';
-import { selectCountry as selectCountryAction, selectSelectedCountry, selectSelectedAlliance, selectProjectionType, setMapRotation, selectMapRotation } from '../store/slices/uiSlice';
+import { selectCountry as selectCountryAction, compareCountry, selectComparedCountry, selectSelectedCountry, selectSelectedAlliance, selectProjectionType, setMapRotation, selectMapRotation, selectScoreDimension, selectMapColorMode, selectShowConflicts, selectConflictFilters, selectSelectedConflict, selectArcSettings, selectHighlightedTriad, selectHighlightedRoute, setMapDetail } from '../store/slices/uiSlice';
 import type { RelationshipData } from '../types/data';
+import type { RelationshipDeltas } from '../types/scenario';
 import ExportControls from './ExportControls';
 
 interface ArcDataItem {
-  source: [number, number];
-  target: [number, number];
+  line: LineString;
   score: number;
   key: string;
 }
 
-interface MapChartProps {
+interface ConflictOverlayItem {
+  code: string;
+  intensity: ConflictIntensity;
+  feature: Feature;
+}
+
+// Shared with CanvasMapChart, which renders the same map to a canvas
+export interface MapChartProps {
   countries: Feature[];
+  // Mesh of all borders and coastlines, stroked once instead of around every country
+  borders: MultiLineString;
+  // Disputed areas of the current boundary perspective, hatched with a dashed outline
+  disputedAreas: DisputedAreaFeature[];
   relationshipData: RelationshipData;
   alliances: { [key: string]: string[] };
+  // The alliances of alliances.json alone, without detected blocs, for the country report
+  declaredAlliances: { [key: string]: string[] };
+  conflicts: ConflictZone[];
+  // Predicted changes of the active scenario, shown in scenario color mode
+  scenarioDeltas?: RelationshipDeltas | null;
 }
 
-const MapChartInternal = forwardRef<SVGSVGElement, MapChartProps>(({ countries, relationshipData, alliances }, ref) => {
+const MapChartInternal = forwardRef<SVGSVGElement, MapChartProps>(({ countries, borders, disputedAreas, relationshipData, alliances, declaredAlliances, conflicts, scenarioDeltas }, ref) => {
   const dispatch = useAppDispatch();
   const selectedCountry = useAppSelector(selectSelectedCountry);
+  const comparedCountry = useAppSelector(selectComparedCountry);
   const selectedAlliance = useAppSelector(selectSelectedAlliance);
   const projectionName = useAppSelector(selectProjectionType);
   const rotation = useAppSelector(selectMapRotation);
+  const scoreDimension = useAppSelector(selectScoreDimension);
+  const colorMode = useAppSelector(selectMapColorMode);
+  const showConflicts = useAppSelector(selectShowConflicts);
+  const conflictFilters = useAppSelector(selectConflictFilters);
+  const selectedConflict = useAppSelector(selectSelectedConflict);
+  const arcSettings = useAppSelector(selectArcSettings);
+  const highlightedTriad = useAppSelector(selectHighlightedTriad);
+  const highlightedRoute = useAppSelector(selectHighlightedRoute);
 
   const handleCountrySelect = useCallback((country: Feature | null) => {
     dispatch(selectCountryAction(country));
   }, [dispatch]);
 
+  // Shift-click adds a second country for side-by-side comparison
+  const handleCountryCompare = useCallback((country: Feature) => {
+    dispatch(compareCountry(country));
+  }, [dispatch]);
+
   const svgRef = useRef<SVGSVGElement>(null);
   const wrapperRef = useRef<HTMLDivElement>(null);
 
@@ -53,6 +91,14 @@ const MapChartInternal = forwardRef<SVGSVGElement, MapChartProps>(({ countries,
     return map;
   }, [countries]);
 
+  const pickDisputedArea = useMemo(() => createCountryPicker(disputedAreas), [disputedAreas]);
+
+  // Country names for the disputed area tooltips, which list administrators and claimants by code
+  const nameOf = useCallback(
+    (code: string) => (countryMap.get(code)?.properties as CountryFeatureProperties | undefined)?.name || code,
+    [countryMap]
+  );
+
   // Consolidated projection logic ---
   const projection = useMemo(() => {
     const { width, height } = dimensions;
@@ -109,24 +155,46 @@ const MapChartInternal = forwardRef<SVGSVGElement, MapChartProps>(({ countries,
       .append('path')
       .attr('class', 'country')
       .style('cursor', 'pointer')
+      // Handlers go on enter and update alike: kept paths must see this render's projection and disputed areas
+      .merge(countryPaths)
       .on('click', (event: MouseEvent, d: Feature) => {
         event.stopPropagation();
-        handleCountrySelect(d);
+        if (event.shiftKey) {
+          handleCountryCompare(d);
+        } else {
+          handleCountrySelect(d);
+        }
       })
       .on('mouseover', () => tooltip.style('opacity', 1))
       .on('mousemove', (event: MouseEvent, d: Feature) => {
         const countryName = (d.properties as CountryFeatureProperties)?.name || 'N/A';
         const [x, y] = d3.pointer(event, wrapperRef.current);
-        tooltip.html(countryName).style('left', `${x + 15}px`).style('top', `${y}px`);
+        // The map group's own coordinates are unzoomed, so they invert straight to longitude/latitude
+        const lonLat = projection?.invert?.(d3.pointer(event, g.node()));
+        const disputedArea = lonLat ? pickDisputedArea(lonLat) : null;
+        tooltip
+          .text(disputedArea ? `${countryName}\n${describeDisputedArea(disputedArea.properties, nameOf)}` : countryName)
+          .style('left', `${x + 15}px`)
+          .style('top', `${y}px`);
       })
       .on('mouseout', () => tooltip.style('opacity', 0))
-      .merge(countryPaths) // Merge enter and update selections
       .attr('d', pathGenerator);
 
     countryPaths.exit().remove();
 
+    g.selectAll<SVGPathElement, MultiLineString>('path.borders')
+      .data([borders])
+      .join('path')
+      .attr('class', 'borders')
+      .attr('fill', 'none')
+      .attr('stroke', '#1a202c')
+      .attr('stroke-width', 0.5)
+      .attr('stroke-linejoin', 'round')
+      .attr('pointer-events', 'none')
+      .attr('d', pathGenerator);
+
     return () => { svg.on('click', null); };
-  }, [countries, handleCountrySelect, pathGenerator, dimensions]);
+  }, [countries, borders, handleCountrySelect, handleCountryCompare, pathGenerator, projection, pickDisputedArea, nameOf, dimensions]);
 
   // Effect for zoom, pan, and drag interactions
   useEffect(() => {
@@ -134,6 +202,8 @@ const MapChartInternal = forwardRef<SVGSVGElement, MapChartProps>(({ countries,
 
     const svg = d3.select(svgRef.current);
     const mapG = svg.select<SVGGElement>('.map-container');
+    const disputedG = svg.select<SVGGElement>('.disputed-container');
+    const conflictsG = svg.select<SVGGElement>('.conflicts-container');
     const arcsG = svg.select<SVGGElement>('.arcs-container');
 
     svg.on('.zoom', null);
@@ -141,6 +211,8 @@ const MapChartInternal = forwardRef<SVGSVGElement, MapChartProps>(({ countries,
 
     if (projectionName === 'geoOrthographic') {
       mapG.attr('transform', '');
+      disputedG.attr('transform', '');
+      conflictsG.attr('transform', '');
       arcsG.attr('transform', '');
       
       const dragBehavior = d3.drag<SVGSVGElement, unknown>()
@@ -161,44 +233,49 @@ const MapChartInternal = forwardRef<SVGSVGElement, MapChartProps>(({ countries,
         .on('zoom', (event) => {
           const { transform } = event;
           mapG.attr('transform', transform.toString());
+          disputedG.attr('transform', transform.toString());
+          conflictsG.attr('transform', transform.toString());
           arcsG.attr('transform', transform.toString());
         })
-        .on('end', () => svg.classed('zooming', false));
+        .on('end', (event) => {
+          svg.classed('zooming', false);
+          // Swap in finer or coarser outlines once the gesture settles
+          dispatch(setMapDetail(getMapDetailForZoom(event.transform.k)));
+        });
       svg.call(zoomBehavior).on('dblclick.zoom', null);
     }
   }, [projectionName, rotation, projection, dispatch]);
 
   // Effect for updating styles when selectedCountry or selectedAlliance changes
+  // (and once the map has a size, since the paths are only created then)
   useEffect(() => {
     if (!svgRef.current) return;
 
     const g = d3.select(svgRef.current).select<SVGGElement>('.map-container');
     const selectedId = selectedCountry ? getCountryCode(selectedCountry) : null;
+    const comparedId = comparedCountry ? getCountryCode(comparedCountry) : null;
     const allianceMembers = selectedAlliance ? new Set(alliances[selectedAlliance]) : null;
+    const chainMembers = new Set(getHighlightedChain(highlightedRoute, highlightedTriad, selectedId, comparedId));
+    const fillFor = createCountryFill({ relationshipData, colorMode, selectedId, comparedId, allianceMembers, scenarioDeltas });
 
     g.selectAll<SVGPathElement, Feature>('.country')
       .transition()
       .duration(300)
-      .attr('fill', (d: Feature) => {
-        const countryCode = getCountryCode(d);
-        if (!countryCode) return '#4A5568';
-        if (allianceMembers) return allianceMembers.has(countryCode) ? '#D97706' : '#4A5568';
-        if (selectedId) {
-          if (countryCode === selectedId) return '#3b82f6';
-          const relations = relationshipData[selectedId]?.relations || {};
-          return ColorScale(relations[countryCode] || 0);
-        }
-        return '#4A5568';
-      })
+      .attr('fill', (d: Feature) => fillFor(getCountryCode(d)))
       .attr('stroke', (d: Feature) => {
         const countryCode = getCountryCode(d);
         if (selectedId && countryCode === selectedId) return '#fde047';
+        if (comparedId && countryCode === comparedId) return '#fde047';
+        if (countryCode && chainMembers.has(countryCode)) return '#fde047';
         if (allianceMembers && countryCode && allianceMembers.has(countryCode)) return '#FBBF24';
-        return '#1a202c';
+        // Other outlines come from the shared border mesh
+        return 'none';
       })
       .attr('stroke-width', (d: Feature) => {
         const countryCode = getCountryCode(d);
         if (selectedId && countryCode === selectedId) return 1.5;
+        if (comparedId && countryCode === comparedId) return 1.5;
+        if (countryCode && chainMembers.has(countryCode)) return 1.5;
         if (allianceMembers && countryCode && allianceMembers.has(countryCode)) return 1;
         return 0.5;
       });
@@ -206,41 +283,89 @@ const MapChartInternal = forwardRef<SVGSVGElement, MapChartProps>(({ countries,
     g.selectAll('.country').sort((a, b) => {
       const codeA = getCountryCode(a as Feature);
       const codeB = getCountryCode(b as Feature);
-      const isASelected = codeA === selectedId || (allianceMembers && codeA && allianceMembers.has(codeA));
-      const isBSelected = codeB === selectedId || (allianceMembers && codeB && allianceMembers.has(codeB));
+      const isASelected = codeA === selectedId || codeA === comparedId || (codeA && chainMembers.has(codeA)) || (allianceMembers && codeA && allianceMembers.has(codeA));
+      const isBSelected = codeB === selectedId || codeB === comparedId || (codeB && chainMembers.has(codeB)) || (allianceMembers && codeB && allianceMembers.has(codeB));
       if (isASelected && !isBSelected) return 1;
       if (!isASelected && isBSelected) return -1;
       return 0;
     });
-  }, [selectedCountry, relationshipData, selectedAlliance, alliances]);
+
+    // The border mesh goes above the plain countries but below the highlighted outlines
+    const highlighted = g.selectAll<SVGPathElement, Feature>('.country').filter(d => {
+      const code = getCountryCode(d);
+      return !!code && (code === selectedId || code === comparedId || chainMembers.has(code) || !!allianceMembers?.has(code));
+    });
+    const bordersPath = g.select<SVGPathElement>('path.borders').node();
+    if (bordersPath) g.node()?.insertBefore(bordersPath, highlighted.node());
+  }, [selectedCountry, comparedCountry, relationshipData, selectedAlliance, alliances, colorMode, scenarioDeltas, highlightedTriad, highlightedRoute, dimensions]);
+
+  const overlayConflicts = useMemo(
+    () => getOverlayConflicts(conflicts, showConflicts, conflictFilters, selectedConflict),
+    [conflicts, conflictFilters, showConflicts, selectedConflict]
+  );
+
+  // Effect for drawing the conflict overlay
+  useEffect(() => {
+    if (!svgRef.current || !pathGenerator) return;
+
+    const g = d3.select(svgRef.current).select<SVGGElement>('.conflicts-container');
+    const overlayData: ConflictOverlayItem[] = [];
+    getConflictIntensityByCountry(overlayConflicts).forEach((intensity, code) => {
+      const feature = countryMap.get(code);
+      if (feature) overlayData.push({ code, intensity, feature });
+    });
+
+    g.selectAll<SVGPathElement, ConflictOverlayItem>('path.conflict')
+      .data(overlayData, d => d.code)
+      .join('path')
+      .attr('class', 'conflict')
+      .attr('pointer-events', 'none')
+      .attr('d', d => pathGenerator(d.feature))
+      .attr('fill', d => `url(#conflict-hatch-${d.intensity})`)
+      .attr('stroke', d => CONFLICT_INTENSITY_COLORS[d.intensity])
+      .attr('stroke-width', 0.75);
+  }, [overlayConflicts, pathGenerator, countryMap]);
+
+  // Effect for drawing the disputed areas
+  useEffect(() => {
+    if (!svgRef.current || !pathGenerator) return;
+
+    d3.select(svgRef.current).select<SVGGElement>('.disputed-container')
+      .selectAll<SVGPathElement, DisputedAreaFeature>('path.disputed')
+      .data(disputedAreas, d => d.properties.id)
+      .join('path')
+      .attr('class', 'disputed')
+      .attr('pointer-events', 'none')
+      .attr('d', pathGenerator)
+      .attr('fill', 'url(#disputed-hatch)')
+      .attr('stroke', DISPUTED_AREA_COLOR)
+      .attr('stroke-width', 0.75)
+      .attr('stroke-dasharray', '3 2');
+  }, [disputedAreas, pathGenerator]);
 
   // Effect for drawing animated arcs
   useEffect(() => {
     // Depend on memoized helpers ---
-    if (!svgRef.current || !pathGenerator || !selectedCountry) {
-        d3.select(svgRef.current).select<SVGGElement>('.arcs-container').selectAll('path.arc').remove();
-        return;
-    }
+    if (!svgRef.current || !pathGenerator) return;
 
     const g = d3.select(svgRef.current).select<SVGGElement>('.arcs-container');
-    const selectedId = getCountryCode(selectedCountry);
-    if (!selectedId || !relationshipData[selectedId]) return;
+    const selectedId = selectedCountry ? getCountryCode(selectedCountry) : null;
+    const comparedId = comparedCountry ? getCountryCode(comparedCountry) : null;
+    const chain = getHighlightedChain(highlightedRoute, highlightedTriad, selectedId, comparedId);
+    if (!selectedCountry && !chain) {
+        g.selectAll('path.arc').remove();
+        return;
+    }
 
-    const relations = relationshipData[selectedId].relations || {};
-    const sortedRelations = Object.entries(relations).sort(([, scoreA], [, scoreB]) => Math.abs(scoreB) - Math.abs(scoreA));
-    const allies = sortedRelations.filter(([, score]) => score > 0).slice(0, 5);
-    const adversaries = sortedRelations.filter(([, score]) => score < 0).slice(0, 5);
-    const connections = [...allies, ...adversaries];
-    const sourceCentroid = pathGenerator.centroid(selectedCountry);
+    const connections = getArcPairs(relationshipData, selectedId, comparedId, arcSettings, alliances, chain);
 
-    const arcData = connections.map(([targetCode, score]) => {
+    const arcData = connections.map(([sourceCode, targetCode, score]) => {
       // Use optimized O(1) lookup ---
+      const sourceFeature = sourceCode === selectedId ? selectedCountry : countryMap.get(sourceCode);
       const targetFeature = countryMap.get(targetCode);
-      if (!targetFeature) return null;
-      
-      const targetCentroid = pathGenerator.centroid(targetFeature);
-      
-      return { source: sourceCentroid, target: targetCentroid, score, key: `${selectedId}-${targetCode}` };
+      if (!sourceFeature || !targetFeature) return null;
+
+      return { line: getArcLine(sourceFeature, targetFeature), score, key: `${sourceCode}-${targetCode}` };
     }).filter((d): d is NonNullable<typeof d> => d !== null);
 
     g.selectAll<SVGPathElement, ArcDataItem>('path.arc')
@@ -250,17 +375,12 @@ const MapChartInternal = forwardRef<SVGSVGElement, MapChartProps>(({ countries,
           const path = enter.append('path')
             .attr('class', 'arc')
             .attr('fill', 'none')
-            .attr('stroke', d => d.score > 0 ? '#00FFFF' : '#FF288C')
+            .attr('stroke', d => getArcColor(d.score))
             .attr('stroke-width', d => 1.5 + Math.abs(d.score) / 10)
             .attr('stroke-linecap', 'round')
             .style('mix-blend-mode', 'screen')
             .attr('filter', 'url(#glow)')
-            .attr('d', d => {
-              const dx = d.target[0] - d.source[0], dy = d.target[1] - d.source[1];
-              const midX = (d.source[0] + d.target[0]) / 2, midY = (d.source[1] + d.target[1]) / 2;
-              const controlX = midX + dy * 0.3, controlY = midY - dx * 0.3;
-              return `M${d.source[0]},${d.source[1]}Q${controlX},${controlY},${d.target[0]},${d.target[1]}`;
-            });
+            .attr('d', d => pathGenerator(d.line));
 
           path.each(function() {
             const length = this.getTotalLength();
@@ -271,10 +391,22 @@ const MapChartInternal = forwardRef<SVGSVGElement, MapChartProps>(({ countries,
           });
           return path;
         },
-        update => update,
+        update => {
+          // Re-project after rotating the globe; this ends a running draw-in animation
+          update.interrupt()
+            .attr('d', d => pathGenerator(d.line))
+            .attr('stroke-dasharray', null)
+            .attr('stroke-dashoffset', null);
+          // Animate score changes (e.g. when stepping through the timeline)
+          update.transition()
+            .duration(600)
+            .attr('stroke', d => getArcColor(d.score))
+            .attr('stroke-width', d => 1.5 + Math.abs(d.score) / 10);
+          return update;
+        },
         exit => exit.transition().duration(500).attr('stroke-opacity', 0).remove()
       );
-  }, [selectedCountry, relationshipData, pathGenerator, countryMap]);
+  }, [selectedCountry, comparedCountry, relationshipData, pathGenerator, countryMap, arcSettings, alliances, highlightedTriad, highlightedRoute]);
 
   return (
     <div ref={wrapperRef} className="w-full h-full flex items-center justify-center relative">
@@ -287,21 +419,46 @@ const MapChartInternal = forwardRef<SVGSVGElement, MapChartProps>(({ countries,
               <feMergeNode in="SourceGraphic" />
             </feMerge>
           </filter>
+          {CONFLICT_INTENSITIES.map(intensity => (
+            <pattern key={intensity} id={`conflict-hatch-${intensity}`} width="6" height="6" patternUnits="userSpaceOnUse" patternTransform="rotate(45)">
+              <line x1="0" y1="0" x2="0" y2="6" stroke={CONFLICT_INTENSITY_COLORS[intensity]} strokeWidth="2.5" strokeOpacity="0.8" />
+            </pattern>
+          ))}
+          <pattern id="disputed-hatch" width="5" height="5" patternUnits="userSpaceOnUse" patternTransform="rotate(-45)">
+            <line x1="0" y1="0" x2="0" y2="5" stroke={DISPUTED_AREA_COLOR} strokeWidth="1" strokeOpacity="0.7" />
+          </pattern>
         </defs>
         <g className="map-container"></g>
+        <g className="disputed-container"></g>
+        <g className="conflicts-container"></g>
         <g className="arcs-container"></g>
       </svg>
       
       <div className="absolute bottom-4 left-4 w-64 space-y-4">
         <div className="bg-white/80 dark:bg-gray-800/60 p-4 rounded-xl shadow-2xl backdrop-blur-md border border-gray-200 dark:border-white/10">
-          <Legend />
+          <MapLegend
+            relationshipData={relationshipData}
+            colorMode={colorMode}
+            scoreDimension={scoreDimension}
+            hasSelection={!!selectedCountry}
+            isComparing={!!comparedCountry}
+          />
+          {overlayConflicts.length > 0 && <ConflictLegend />}
+          {disputedAreas.length > 0 && <DisputedAreaLegend />}
           <div className="mt-5"></div>
           <ExportControls
             countries={countries}
             relationshipData={relationshipData}
             alliances={alliances}
+            declaredAlliances={declaredAlliances}
+            conflicts={conflicts}
             selectedCountry={selectedCountry}
             selectedAlliance={selectedAlliance}
+            comparedCountry={comparedCountry}
+            colorMode={colorMode}
+            scenarioDeltas={scenarioDeltas}
+            scoreDimension={scoreDimension}
+            arcSettings={arcSettings}
           />
         </div>
       </div>
@@ -315,7 +472,9 @@ const MapChartInternal = forwardRef<SVGSVGElement, MapChartProps>(({ countries,
         padding: '8px',
         borderRadius: '4px',
         fontSize: '14px',
-        fontFamily: 'sans-serif'
+        fontFamily: 'sans-serif',
+        whiteSpace: 'pre-line',
+        maxWidth: '18rem'
       }}></div>
     </div>
   );
@@ -0,0 +1,77 @@
+// src/components/MapLegend.tsx
+import type { RelationshipData } from '../types/data';
+import { getScoreDimensionLabel, type ScoreDimension } from '../Utils/Dimensions';
+import { getBlocFill, type MapColorMode } from '../Utils/MapColoring';
+import { getDetectedBlocs } from '../Utils/Communities';
+import Legend from './Legend';
+
+interface MapLegendProps {
+  relationshipData: RelationshipData;
+  colorMode: MapColorMode;
+  scoreDimension: ScoreDimension;
+  hasSelection: boolean;
+  isComparing: boolean;
+}
+
+// Legend for whatever the country fills currently encode, shared by the SVG map and the 3D globe
+const MapLegend = ({ relationshipData, colorMode, scoreDimension, hasSelection, isComparing }: MapLegendProps) => {
+  if (isComparing) {
+    return (
+      <Legend
+        title="Score Divergence"
+        gradient="linear-gradient(to right, #38bdf8, #a78bfa, #db2777)"
+        labels={['Agree', 'Differ', 'Opposed']}
+      />
+    );
+  }
+
+  if (colorMode === 'asymmetry') {
+    return (
+      <Legend
+        title={hasSelection ? 'Asymmetry vs. Selection' : 'Average Asymmetry'}
+        gradient="linear-gradient(to right, #38bdf8, #a78bfa, #db2777)"
+        labels={['Mutual', 'Uneven', 'One-sided']}
+      />
+    );
+  }
+
+  if (colorMode === 'similarity') {
+    return (
+      <Legend
+        title={hasSelection ? 'Similarity to Selection' : 'Similarity (select a country)'}
+        gradient="linear-gradient(to right, #db2777, #9ca3af, #0ea5e9)"
+        labels={['Opposite', 'Unrelated', 'Alike']}
+      />
+    );
+  }
+
+  if (colorMode === 'scenario') {
+    return (
+      <Legend
+        title={hasSelection ? 'Predicted Change vs. Selection' : 'Average Predicted Change'}
+        gradient="linear-gradient(to right, #dc2626, #9ca3af, #16a34a)"
+        labels={['Worse', 'No change', 'Better']}
+      />
+    );
+  }
+
+  if (colorMode === 'community') {
+    return (
+      <div className="w-full">
+        <h4 className="font-bold text-md mb-2 text-gray-900 dark:text-white">Detected Blocs</h4>
+        <ul className="grid grid-cols-2 gap-1 text-xs text-gray-600 dark:text-gray-300">
+          {getDetectedBlocs(relationshipData).map((bloc, i) => (
+            <li key={bloc.name} className="flex items-center gap-1">
+              <span className="inline-block w-3 h-3 rounded-full" style={{ backgroundColor: getBlocFill(i) }} />
+              Bloc {i + 1} ({bloc.members.length})
+            </li>
+          ))}
+        </ul>
+      </div>
+    );
+  }
+
+  return <Legend title={scoreDimension === 'overall' ? undefined : `${getScoreDimensionLabel(scoreDimension)} Scale`} />;
+};
+
+export default MapLegend;
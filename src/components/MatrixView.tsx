@@ -0,0 +1,351 @@
+// src/components/MatrixView.tsx
+import { useRef, useEffect, memo, useCallback, useMemo, useState } from 'react';
+import * as d3 from 'd3';
+import type { Feature } from 'geojson';
+
+import { ColorScale } from '../Utils/ColorScale';
+import { getCountryCode, type CountryFeatureProperties } from '../Utils/Format_country_name';
+import { MATRIX_ORDERS, getMatrixOrder, type MatrixOrder } from '../Utils/Matrix';
+import { NEUTRAL_FILL } from '../Utils/MapColoring';
+import { formatScore } from '../Utils/Overlay';
+import { getExportDate, saveSvgString, saveSvgStringAsPng } from '../Utils/SvgExport';
+import Legend from './Legend';
+
+import { useAppSelector, useAppDispatch } from '../store/hooks';
+import { selectCountry as selectCountryAction, compareCountry, selectSelectedCountry } from '../store/slices/uiSlice';
+import type { RelationshipData } from '../types/data';
+
+interface MatrixViewProps {
+  countries: Feature[];
+  relationshipData: RelationshipData;
+  alliances: { [key: string]: string[] };
+}
+
+// Space reserved for the row and column labels
+const LABEL_MARGIN = 84;
+// Below this cell size labels would overlap, so they're hidden and the tooltip has to do
+const MIN_LABELED_CELL = 7;
+const PADDING = 16;
+
+const EXPORT_CELL = 8;
+const EXPORT_MARGIN = 150;
+
+/**
+ * Creates a full-size SVG string of the matrix for exporting, in the same way
+ * createFullMapSvgString does for the map: built in memory, independent of the
+ * on-screen size.
+ */
+const createMatrixSvgString = (relationshipData: RelationshipData, codes: string[], selectedId: string | null) => {
+  const size = EXPORT_MARGIN + codes.length * EXPORT_CELL;
+
+  const tempSvgNode = document.createElementNS('http://www.w3.org/2000/svg', 'svg');
+  const tempSvg = d3.select(tempSvgNode)
+    .attr('width', size)
+    .attr('height', size)
+    .attr('xmlns', 'http://www.w3.org/2000/svg')
+    .attr('font-family', 'sans-serif')
+    .attr('font-size', EXPORT_CELL - 1);
+
+  tempSvg.append('rect')
+    .attr('width', '100%')
+    .attr('height', '100%')
+    .attr('fill', '#1a202c');
+
+  const cells = tempSvg.append('g').attr('transform', `translate(${EXPORT_MARGIN},${EXPORT_MARGIN})`);
+  codes.forEach((rowCode, i) => {
+    codes.forEach((colCode, j) => {
+      if (i === j) return;
+      const score = relationshipData[rowCode].relations[colCode];
+      cells.append('rect')
+        .attr('x', j * EXPORT_CELL)
+        .attr('y', i * EXPORT_CELL)
+        .attr('width', EXPORT_CELL)
+        .attr('height', EXPORT_CELL)
+        .attr('fill', score === undefined ? NEUTRAL_FILL : ColorScale(score));
+    });
+  });
+
+  const labels = tempSvg.append('g').attr('fill', '#e2e8f0');
+  codes.forEach((code, i) => {
+    const offset = EXPORT_MARGIN + i * EXPORT_CELL + EXPORT_CELL - 1;
+    labels.append('text')
+      .attr('x', EXPORT_MARGIN - 4)
+      .attr('y', offset)
+      .attr('text-anchor', 'end')
+      .text(relationshipData[code].name);
+    labels.append('text')
+      .attr('transform', `translate(${offset},${EXPORT_MARGIN - 4}) rotate(-90)`)
+      .text(relationshipData[code].name);
+  });
+
+  // Outline the selected country's row and column
+  const selectedIndex = selectedId ? codes.indexOf(selectedId) : -1;
+  if (selectedIndex >= 0) {
+    const extent = codes.length * EXPORT_CELL;
+    cells.append('rect')
+      .attr('x', 0).attr('y', selectedIndex * EXPORT_CELL)
+      .attr('width', extent).attr('height', EXPORT_CELL)
+      .attr('fill', 'none').attr('stroke', '#fde047').attr('stroke-width', 1.5);
+    cells.append('rect')
+      .attr('x', selectedIndex * EXPORT_CELL).attr('y', 0)
+      .attr('width', EXPORT_CELL).attr('height', extent)
+      .attr('fill', 'none').attr('stroke', '#fde047').attr('stroke-width', 1.5);
+  }
+
+  const serializer = new XMLSerializer();
+  let source = serializer.serializeToString(tempSvgNode);
+  source = '<?xml version="1.0" standalone="no"?>\r\n' + source;
+
+  return { source, size };
+};
+
+const MatrixViewInternal = ({ countries, relationshipData, alliances }: MatrixViewProps) => {
+  const dispatch = useAppDispatch();
+  const selectedCountry = useAppSelector(selectSelectedCountry);
+  const selectedId = getCountryCode(selectedCountry);
+
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const wrapperRef = useRef<HTMLDivElement>(null);
+  const [dimensions, setDimensions] = useState({ width: 0, height: 0 });
+  const [order, setOrder] = useState<MatrixOrder>('alliance');
+  const [hovered, setHovered] = useState<{ row: number; col: number; x: number; y: number } | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  const countryMap = useMemo(() => {
+    const map = new Map<string, Feature>();
+    countries.forEach(c => {
+      const code = getCountryCode(c);
+      if (code) map.set(code, c);
+    });
+    return map;
+  }, [countries]);
+
+  // Continent and subregion from the map features, used for the region ordering
+  const regions = useMemo(() => {
+    const map = new Map<string, string>();
+    countryMap.forEach((feature, code) => {
+      const { continent, subregion } = (feature.properties || {}) as CountryFeatureProperties;
+      if (continent) map.set(code, subregion ? `${continent} · ${subregion}` : continent);
+    });
+    return map;
+  }, [countryMap]);
+
+  const codes = useMemo(
+    () => getMatrixOrder(relationshipData, order, alliances, regions),
+    [relationshipData, order, alliances, regions]
+  );
+  const selectedIndex = selectedId ? codes.indexOf(selectedId) : -1;
+
+  // Fit the matrix into the available space, dropping the labels when cells get too small
+  const layout = useMemo(() => {
+    const available = Math.min(dimensions.width, dimensions.height) - PADDING * 2;
+    const n = Math.max(codes.length, 1);
+    const labeledCell = Math.floor((available - LABEL_MARGIN) / n);
+    const showLabels = labeledCell >= MIN_LABELED_CELL;
+    const cellSize = showLabels ? labeledCell : Math.max(1, Math.floor(available / n));
+    const margin = showLabels ? LABEL_MARGIN : 0;
+    return { cellSize, margin, showLabels, size: margin + codes.length * cellSize };
+  }, [dimensions, codes.length]);
+
+  // Effect to manage responsive dimensions
+  useEffect(() => {
+    if (!wrapperRef.current) return;
+    const updateDimensions = () => {
+      const { width, height } = wrapperRef.current!.getBoundingClientRect();
+      setDimensions({ width, height });
+    };
+
+    const resizeObserver = new ResizeObserver(updateDimensions);
+    resizeObserver.observe(wrapperRef.current);
+    updateDimensions();
+
+    return () => resizeObserver.disconnect();
+  }, []);
+
+  // Effect for painting the cells; the canvas keeps thousands of cells cheap to redraw
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || dimensions.width === 0) return;
+    const { cellSize, margin, size } = layout;
+    const ratio = window.devicePixelRatio || 1;
+
+    canvas.width = size * ratio;
+    canvas.height = size * ratio;
+    canvas.style.width = `${size}px`;
+    canvas.style.height = `${size}px`;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+    ctx.clearRect(0, 0, size, size);
+
+    codes.forEach((rowCode, i) => {
+      const relations = relationshipData[rowCode].relations;
+      codes.forEach((colCode, j) => {
+        if (i === j) return;
+        const score = relations[colCode];
+        ctx.fillStyle = score === undefined ? NEUTRAL_FILL : ColorScale(score);
+        ctx.fillRect(margin + j * cellSize, margin + i * cellSize, cellSize, cellSize);
+      });
+    });
+  }, [codes, relationshipData, layout, dimensions.width]);
+
+  const cellAt = useCallback((event: React.MouseEvent<SVGSVGElement>) => {
+    const { cellSize, margin } = layout;
+    const [x, y] = d3.pointer(event);
+    const row = Math.floor((y - margin) / cellSize);
+    const col = Math.floor((x - margin) / cellSize);
+    if (row < 0 || col < 0 || row >= codes.length || col >= codes.length) return null;
+    return { row, col };
+  }, [layout, codes.length]);
+
+  const handleMouseMove = useCallback((event: React.MouseEvent<SVGSVGElement>) => {
+    const cell = cellAt(event);
+    if (!cell) {
+      setHovered(null);
+      return;
+    }
+    const [x, y] = d3.pointer(event, wrapperRef.current);
+    setHovered({ ...cell, x, y });
+  }, [cellAt]);
+
+  // Clicking a cell opens the pair in compare mode; the diagonal selects the country alone
+  const handleClick = useCallback((event: React.MouseEvent<SVGSVGElement>) => {
+    const cell = cellAt(event);
+    if (!cell) {
+      dispatch(selectCountryAction(null));
+      return;
+    }
+    const rowCountry = countryMap.get(codes[cell.row]);
+    const colCountry = countryMap.get(codes[cell.col]);
+    if (!rowCountry) return;
+    dispatch(selectCountryAction(rowCountry));
+    if (cell.row !== cell.col && colCountry) dispatch(compareCountry(colCountry));
+  }, [cellAt, countryMap, codes, dispatch]);
+
+  const exportAsPNG = async () => {
+    const { source, size } = createMatrixSvgString(relationshipData, codes, selectedId);
+    setExportError(null);
+    try {
+      await saveSvgStringAsPng(source, size, size, `worldties-matrix-${getExportDate()}.png`);
+    } catch (err) {
+      setExportError((err as Error).message);
+    }
+  };
+
+  const exportAsSVG = () => {
+    const { source } = createMatrixSvgString(relationshipData, codes, selectedId);
+    saveSvgString(source, `worldties-matrix-${getExportDate()}.svg`);
+  };
+
+  const { cellSize, margin, showLabels, size } = layout;
+  const extent = codes.length * cellSize;
+  const nameOf = (code: string) => relationshipData[code]?.name || code;
+  const hoveredScore = hovered && hovered.row !== hovered.col
+    ? relationshipData[codes[hovered.row]]?.relations[codes[hovered.col]]
+    : undefined;
+
+  return (
+    <div ref={wrapperRef} className="w-full h-full flex items-center justify-center relative">
+      {codes.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Loading relationship data...</p>
+      ) : (
+        <div className="relative" style={{ width: size, height: size }}>
+          <canvas ref={canvasRef} className="absolute inset-0" />
+          <svg
+            width={size}
+            height={size}
+            className="absolute inset-0 cursor-pointer"
+            onMouseMove={handleMouseMove}
+            onMouseLeave={() => setHovered(null)}
+            onClick={handleClick}
+          >
+            {showLabels && (
+              <g fontSize={Math.min(cellSize - 1, 11)} className="fill-gray-600 dark:fill-gray-300 select-none">
+                {codes.map((code, i) => (
+                  <g key={code} fontWeight={i === selectedIndex || i === hovered?.row || i === hovered?.col ? 'bold' : undefined}>
+                    <text x={margin - 4} y={margin + (i + 1) * cellSize - 1} textAnchor="end">{code}</text>
+                    <text transform={`translate(${margin + (i + 1) * cellSize - 1},${margin - 4}) rotate(-90)`}>{code}</text>
+                  </g>
+                ))}
+              </g>
+            )}
+            {hovered && (
+              <g fill="white" fillOpacity={0.12} pointerEvents="none">
+                <rect x={margin} y={margin + hovered.row * cellSize} width={extent} height={cellSize} />
+                <rect x={margin + hovered.col * cellSize} y={margin} width={cellSize} height={extent} />
+              </g>
+            )}
+            {selectedIndex >= 0 && (
+              <g fill="none" stroke="#fde047" strokeWidth={1.5} pointerEvents="none">
+                <rect x={margin} y={margin + selectedIndex * cellSize} width={extent} height={cellSize} />
+                <rect x={margin + selectedIndex * cellSize} y={margin} width={cellSize} height={extent} />
+              </g>
+            )}
+          </svg>
+        </div>
+      )}
+
+      <div className="absolute bottom-4 left-4 w-64 bg-white/80 dark:bg-gray-800/60 p-4 rounded-xl shadow-2xl backdrop-blur-md border border-gray-200 dark:border-white/10 space-y-4">
+        <div>
+          <label htmlFor="matrix-order-select" className="block text-sm font-bold mb-1 text-gray-900 dark:text-white">
+            Order rows by
+          </label>
+          <select
+            id="matrix-order-select"
+            value={order}
+            onChange={(e) => setOrder(e.target.value as MatrixOrder)}
+            className="w-full bg-gray-100 dark:bg-slate-800 border border-gray-300 dark:border-slate-700 text-gray-900 dark:text-white text-sm rounded-lg focus:ring-blue-500 focus:border-blue-500 block p-2"
+          >
+            {MATRIX_ORDERS.map(({ key, label }) => (
+              <option key={key} value={key}>
+                {label}
+              </option>
+            ))}
+          </select>
+          <p className="mt-1 text-xs text-gray-600 dark:text-gray-300">Rows score columns. Click a cell to compare the pair.</p>
+        </div>
+        <Legend />
+        <div className="flex gap-2">
+          <button
+            onClick={exportAsPNG}
+            className="flex-1 px-3 py-2 text-sm font-medium text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md hover:bg-gray-50 dark:hover:bg-gray-600 transition-colors"
+            title="Export matrix as high-resolution PNG"
+          >
+            PNG
+          </button>
+          <button
+            onClick={exportAsSVG}
+            className="flex-1 px-3 py-2 text-sm font-medium text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md hover:bg-gray-50 dark:hover:bg-gray-600 transition-colors"
+            title="Export matrix as SVG"
+          >
+            SVG
+          </button>
+        </div>
+        {exportError && <p className="text-xs text-red-500">{exportError}</p>}
+      </div>
+
+      <div style={{
+        position: 'absolute',
+        left: (hovered?.x ?? 0) + 15,
+        top: hovered?.y ?? 0,
+        opacity: hovered ? 1 : 0,
+        pointerEvents: 'none',
+        backgroundColor: 'rgba(0, 0, 0, 0.7)',
+        color: 'white',
+        padding: '8px',
+        borderRadius: '4px',
+        fontSize: '14px',
+        fontFamily: 'sans-serif'
+      }}>
+        {hovered && (hovered.row === hovered.col
+          ? nameOf(codes[hovered.row])
+          : `${nameOf(codes[hovered.row])} → ${nameOf(codes[hovered.col])}: ${hoveredScore === undefined ? 'No score' : formatScore(hoveredScore)}`)}
+      </div>
+    </div>
+  );
+};
+
+const MatrixView = memo(MatrixViewInternal);
+MatrixView.displayName = 'MatrixView';
+export default MatrixView;
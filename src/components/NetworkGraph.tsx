@@ -0,0 +1,263 @@
+// src/components/NetworkGraph.tsx
+import { useRef, useEffect, memo, useCallback, useMemo, useState } from 'react';
+import * as d3 from 'd3';
+import type { Feature } from 'geojson';
+
+import { ColorScale } from '../Utils/ColorScale';
+import { getCountryCode } from '../Utils/Format_country_name';
+import { buildRelationshipNetwork, type NetworkNode, type NetworkEdge } from '../Utils/Network';
+import { NEUTRAL_FILL, SELECTED_FILL } from '../Utils/MapColoring';
+
+import { useAppSelector, useAppDispatch } from '../store/hooks';
+import { selectCountry as selectCountryAction, selectSelectedCountry } from '../store/slices/uiSlice';
+import type { RelationshipData } from '../types/data';
+
+interface NetworkGraphProps {
+  countries: Feature[];
+  relationshipData: RelationshipData;
+  alliances: { [key: string]: string[] };
+}
+
+type SimulationNode = NetworkNode & d3.SimulationNodeDatum;
+type SimulationEdge = Omit<NetworkEdge, 'source' | 'target'> & d3.SimulationLinkDatum<SimulationNode>;
+
+const NODE_RADIUS = 5;
+const SELECTED_NODE_RADIUS = 9;
+
+const NetworkGraphInternal = ({ countries, relationshipData, alliances }: NetworkGraphProps) => {
+  const dispatch = useAppDispatch();
+  const selectedCountry = useAppSelector(selectSelectedCountry);
+
+  const svgRef = useRef<SVGSVGElement>(null);
+  const wrapperRef = useRef<HTMLDivElement>(null);
+  const [dimensions, setDimensions] = useState({ width: 0, height: 0 });
+  const [threshold, setThreshold] = useState(8);
+
+  const handleCountrySelect = useCallback((country: Feature | null) => {
+    dispatch(selectCountryAction(country));
+  }, [dispatch]);
+
+  const countryMap = useMemo(() => {
+    const map = new Map<string, Feature>();
+    countries.forEach(c => {
+      const code = getCountryCode(c);
+      if (code) map.set(code, c);
+    });
+    return map;
+  }, [countries]);
+
+  const network = useMemo(
+    () => buildRelationshipNetwork(relationshipData, alliances, threshold),
+    [relationshipData, alliances, threshold]
+  );
+
+  const allianceColor = useMemo(
+    () => d3.scaleOrdinal<string, string>().domain(Object.keys(alliances)).range(d3.schemeTableau10),
+    [alliances]
+  );
+
+  // Effect to manage responsive dimensions
+  useEffect(() => {
+    if (!wrapperRef.current) return;
+    const updateDimensions = () => {
+      const { width, height } = wrapperRef.current!.getBoundingClientRect();
+      setDimensions({ width, height });
+    };
+
+    const resizeObserver = new ResizeObserver(updateDimensions);
+    resizeObserver.observe(wrapperRef.current);
+    updateDimensions();
+
+    return () => resizeObserver.disconnect();
+  }, []);
+
+  // Effect for building the force layout whenever the graph itself changes
+  useEffect(() => {
+    if (!svgRef.current || !wrapperRef.current || dimensions.width === 0) return;
+    const { width, height } = dimensions;
+
+    const svg = d3.select(svgRef.current).attr('viewBox', [0, 0, width, height].join(' '));
+    const zoomLayer = svg.select<SVGGElement>('.zoom-layer');
+    const tooltip = d3.select(wrapperRef.current).select<HTMLDivElement>('#network-tooltip');
+
+    const nodes: SimulationNode[] = network.nodes.map(n => ({ ...n }));
+    const edges: SimulationEdge[] = network.edges.map(e => ({ ...e }));
+
+    // Each alliance gets an anchor on a ring so that members settle near each other
+    const allianceNames = Object.keys(alliances);
+    const ringRadius = Math.min(width, height) / 3;
+    const anchors = new Map(allianceNames.map((name, i) => {
+      const angle = (i / allianceNames.length) * 2 * Math.PI;
+      return [name, [width / 2 + ringRadius * Math.cos(angle), height / 2 + ringRadius * Math.sin(angle)] as [number, number]];
+    }));
+    const anchorOf = (d: SimulationNode) => (d.alliance && anchors.get(d.alliance)) || [width / 2, height / 2];
+
+    const simulation = d3.forceSimulation<SimulationNode>(nodes)
+      .force('link', d3.forceLink<SimulationNode, SimulationEdge>(edges)
+        .id(d => d.id)
+        .distance(d => (d.score > 0 ? 40 : 220))
+        .strength(d => (d.score > 0 ? 0.3 : 0.02)))
+      .force('charge', d3.forceManyBody().strength(-40))
+      .force('collide', d3.forceCollide(NODE_RADIUS + 2))
+      .force('x', d3.forceX<SimulationNode>(d => anchorOf(d)[0]).strength(0.08))
+      .force('y', d3.forceY<SimulationNode>(d => anchorOf(d)[1]).strength(0.08));
+
+    const link = zoomLayer.select<SVGGElement>('.links')
+      .selectAll<SVGLineElement, SimulationEdge>('line')
+      .data(edges)
+      .join('line')
+      .attr('class', 'edge')
+      .attr('stroke', d => ColorScale(d.score))
+      .attr('stroke-width', d => 0.5 + Math.abs(d.score) / 8)
+      .attr('stroke-opacity', 0.35);
+
+    const node = zoomLayer.select<SVGGElement>('.nodes')
+      .selectAll<SVGCircleElement, SimulationNode>('circle')
+      .data(nodes, d => d.id)
+      .join('circle')
+      .attr('class', 'node')
+      .attr('r', NODE_RADIUS)
+      .style('cursor', 'pointer')
+      .on('click', (event: MouseEvent, d: SimulationNode) => {
+        event.stopPropagation();
+        const feature = countryMap.get(d.id);
+        if (feature) handleCountrySelect(feature);
+      })
+      .on('mouseover', () => tooltip.style('opacity', 1))
+      .on('mousemove', (event: MouseEvent, d: SimulationNode) => {
+        const [x, y] = d3.pointer(event, wrapperRef.current);
+        tooltip.html(d.alliance ? `${d.name} · ${d.alliance}` : d.name).style('left', `${x + 15}px`).style('top', `${y}px`);
+      })
+      .on('mouseout', () => tooltip.style('opacity', 0));
+
+    node.call(d3.drag<SVGCircleElement, SimulationNode>()
+      .on('start', (event, d) => {
+        if (!event.active) simulation.alphaTarget(0.3).restart();
+        d.fx = d.x;
+        d.fy = d.y;
+      })
+      .on('drag', (event, d) => {
+        d.fx = event.x;
+        d.fy = event.y;
+      })
+      .on('end', (event, d) => {
+        if (!event.active) simulation.alphaTarget(0);
+        d.fx = null;
+        d.fy = null;
+      }));
+
+    simulation.on('tick', () => {
+      link
+        .attr('x1', d => (d.source as SimulationNode).x ?? 0)
+        .attr('y1', d => (d.source as SimulationNode).y ?? 0)
+        .attr('x2', d => (d.target as SimulationNode).x ?? 0)
+        .attr('y2', d => (d.target as SimulationNode).y ?? 0);
+      node
+        .attr('cx', d => d.x ?? 0)
+        .attr('cy', d => d.y ?? 0);
+    });
+
+    const zoomBehavior = d3.zoom<SVGSVGElement, unknown>()
+      .scaleExtent([0.3, 6])
+      .on('zoom', (event) => zoomLayer.attr('transform', event.transform.toString()));
+    svg.call(zoomBehavior).on('dblclick.zoom', null);
+    svg.on('click', () => handleCountrySelect(null));
+
+    return () => {
+      simulation.stop();
+      svg.on('click', null);
+      svg.on('.zoom', null);
+    };
+  }, [network, alliances, dimensions, countryMap, handleCountrySelect]);
+
+  // Effect for updating styles when the selection changes, without restarting the layout
+  useEffect(() => {
+    if (!svgRef.current) return;
+
+    const svg = d3.select(svgRef.current);
+    const selectedId = getCountryCode(selectedCountry);
+    const relations = selectedId ? relationshipData[selectedId]?.relations || {} : {};
+    const edgeId = (end: string | SimulationNode) => (typeof end === 'string' ? end : end.id);
+
+    svg.selectAll<SVGCircleElement, SimulationNode>('.node')
+      .transition()
+      .duration(300)
+      .attr('r', d => (d.id === selectedId ? SELECTED_NODE_RADIUS : NODE_RADIUS))
+      .attr('fill', d => {
+        if (!selectedId) return d.alliance ? allianceColor(d.alliance) : NEUTRAL_FILL;
+        if (d.id === selectedId) return SELECTED_FILL;
+        return ColorScale(relations[d.id] || 0);
+      })
+      .attr('stroke', d => {
+        if (d.id === selectedId) return '#fde047';
+        return d.alliance ? allianceColor(d.alliance) : '#1a202c';
+      })
+      .attr('stroke-width', d => (d.id === selectedId ? 2.5 : 1.5));
+
+    svg.selectAll<SVGLineElement, SimulationEdge>('.edge')
+      .attr('stroke-opacity', d => {
+        if (!selectedId) return 0.35;
+        const touchesSelection = edgeId(d.source as string | SimulationNode) === selectedId
+          || edgeId(d.target as string | SimulationNode) === selectedId;
+        return touchesSelection ? 0.9 : 0.06;
+      });
+  }, [selectedCountry, relationshipData, allianceColor, network]);
+
+  return (
+    <div ref={wrapperRef} className="w-full h-full relative">
+      <svg ref={svgRef} className="w-full h-full">
+        <g className="zoom-layer">
+          <g className="links"></g>
+          <g className="nodes"></g>
+        </g>
+      </svg>
+
+      <div className="absolute bottom-4 left-4 w-64 bg-white/80 dark:bg-gray-800/60 p-4 rounded-xl shadow-2xl backdrop-blur-md border border-gray-200 dark:border-white/10 space-y-3">
+        <div>
+          <div className="flex justify-between text-sm font-bold text-gray-900 dark:text-white">
+            <label htmlFor="network-threshold">Tie strength ≥</label>
+            <span>{threshold}</span>
+          </div>
+          <input
+            id="network-threshold"
+            type="range"
+            min={1}
+            max={10}
+            step={0.5}
+            value={threshold}
+            onChange={(e) => setThreshold(Number(e.target.value))}
+            className="w-full accent-blue-500 cursor-pointer"
+          />
+          <p className="text-xs text-gray-600 dark:text-gray-300">{network.edges.length} ties shown</p>
+        </div>
+        <div>
+          <h4 className="font-bold text-sm mb-1 text-gray-900 dark:text-white">Alliances</h4>
+          <ul className="grid grid-cols-2 gap-1 text-xs text-gray-600 dark:text-gray-300">
+            {Object.keys(alliances).map(name => (
+              <li key={name} className="flex items-center gap-1">
+                <span className="inline-block w-3 h-3 rounded-full" style={{ backgroundColor: allianceColor(name) }} />
+                {name}
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+
+      <div id="network-tooltip" style={{
+        position: 'absolute',
+        opacity: 0,
+        pointerEvents: 'none',
+        backgroundColor: 'rgba(0, 0, 0, 0.7)',
+        color: 'white',
+        padding: '8px',
+        borderRadius: '4px',
+        fontSize: '14px',
+        fontFamily: 'sans-serif'
+      }}></div>
+    </div>
+  );
+};
+
+const NetworkGraph = memo(NetworkGraphInternal);
+NetworkGraph.displayName = 'NetworkGraph';
+export default NetworkGraph;
@@ -0,0 +1,119 @@
+// src/components/RankingsPanel.tsx
+import React, { useMemo, useState, memo, useCallback } from 'react';
+import { motion } from 'framer-motion';
+import type { Feature } from 'geojson';
+import type { RelationshipData } from '../types/data';
+import { getCountryCode } from '../Utils/Format_country_name';
+import { findCountryByCode } from '../Utils/CountryCodes';
+import { ColorScale } from '../Utils/ColorScale';
+import { RANKING_COLUMNS, getCountryRankings, sortRankings, type RankingKey } from '../Utils/Rankings';
+import { useAppSelector, useAppDispatch } from '../store/hooks';
+import { selectCountry as selectCountryAction, setAnalysisPanel, selectSelectedCountry } from '../store/slices/uiSlice';
+
+interface RankingsPanelProps {
+  countries: Feature[];
+  relationshipData: RelationshipData;
+}
+
+// Mean scores are colored like relationship scores; the other metrics are plain numbers
+const SCORE_COLUMNS = new Set<RankingKey>(['inMean', 'outMean']);
+
+const RankingsPanelInternal: React.FC<RankingsPanelProps> = ({ countries, relationshipData }) => {
+  const dispatch = useAppDispatch();
+  const selectedCountry = useAppSelector(selectSelectedCountry);
+  const selectedId = getCountryCode(selectedCountry);
+  const [sortKey, setSortKey] = useState<RankingKey>('influence');
+  const [ascending, setAscending] = useState(false);
+
+  const rankings = useMemo(() => getCountryRankings(relationshipData), [relationshipData]);
+  const sortedRankings = useMemo(() => sortRankings(rankings, sortKey, ascending), [rankings, sortKey, ascending]);
+
+  // Clicking the active column flips the direction; a new column starts from the highest values
+  const handleSort = useCallback((key: RankingKey) => {
+    if (key === sortKey) {
+      setAscending(current => !current);
+    } else {
+      setSortKey(key);
+      setAscending(false);
+    }
+  }, [sortKey]);
+
+  const handleRowClick = useCallback((code: string) => {
+    const country = findCountryByCode(countries, code);
+    if (country) dispatch(selectCountryAction(country));
+  }, [countries, dispatch]);
+
+  return (
+    <motion.div
+      className="absolute top-4 left-4 z-30 w-[26rem] max-w-[calc(100%-2rem)] max-h-[calc(100%-2rem)] flex flex-col bg-white/90 dark:bg-gray-900/90 shadow-2xl backdrop-blur-md border border-gray-200 dark:border-white/10 rounded-lg"
+      initial={{ opacity: 0, x: -50 }}
+      animate={{ opacity: 1, x: 0 }}
+      exit={{ opacity: 0, x: -50 }}
+      transition={{ type: 'spring', stiffness: 400, damping: 40 }}
+    >
+      <div className="p-4 flex-shrink-0">
+        <div className="flex justify-between items-center">
+          <h2 className="text-lg font-bold">Country Rankings</h2>
+          <button
+            onClick={() => dispatch(setAnalysisPanel(null))}
+            className="text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white hover:bg-gray-200 dark:hover:bg-white/10 rounded-full p-1 transition-colors"
+            aria-label="Close panel"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+        <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">Click a column to sort, a row to select the country. The full table can be downloaded from the map's Export menu.</p>
+      </div>
+
+      <div className="flex-grow overflow-y-auto px-4 pb-4 scrollbar-thin scrollbar-thumb-gray-600/50 hover:scrollbar-thumb-gray-500/50 scrollbar-track-transparent">
+        {sortedRankings.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No relationship data loaded.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="sticky top-0 bg-white dark:bg-gray-900">
+              <tr className="text-xs text-gray-500 dark:text-gray-400">
+                <th className="text-left font-medium pb-1">#</th>
+                <th className="text-left font-medium pb-1">Country</th>
+                {RANKING_COLUMNS.map(({ key, label, description }) => (
+                  <th key={key} className="text-right font-medium pb-1" aria-sort={sortKey === key ? (ascending ? 'ascending' : 'descending') : 'none'}>
+                    <button
+                      onClick={() => handleSort(key)}
+                      title={description}
+                      className={`hover:text-gray-900 dark:hover:text-white transition-colors ${sortKey === key ? 'text-gray-900 dark:text-white font-bold' : ''}`}
+                    >
+                      {label}{sortKey === key ? (ascending ? ' ▲' : ' ▼') : ''}
+                    </button>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {sortedRankings.map((ranking, i) => (
+                <tr
+                  key={ranking.code}
+                  className={`cursor-pointer ${ranking.code === selectedId ? 'bg-blue-500/20 dark:bg-blue-600/30' : 'hover:bg-gray-100 dark:hover:bg-white/10'}`}
+                  onClick={() => handleRowClick(ranking.code)}
+                >
+                  <td className="py-1 pr-1 text-xs text-gray-500 dark:text-gray-400 tabular-nums">{i + 1}</td>
+                  <td className="py-1 pr-2 text-gray-600 dark:text-gray-300 truncate max-w-[8rem]" title={ranking.name}>{ranking.name}</td>
+                  {RANKING_COLUMNS.map(({ key }) => (
+                    <td
+                      key={key}
+                      className="py-1 text-right tabular-nums"
+                      style={SCORE_COLUMNS.has(key) ? { color: ColorScale(ranking[key]) } : undefined}
+                    >
+                      {ranking[key]}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </motion.div>
+  );
+};
+
+const RankingsPanel = memo(RankingsPanelInternal);
+export default RankingsPanel;
@@ -0,0 +1,160 @@
+import React, { useState, useEffect, useMemo, memo, useCallback } from 'react';
+import type { RelationshipData } from '../types/data';
+import { ColorScale } from '../Utils/ColorScale';
+import { applyRelationshipOverlay, formatScore, getOverlayChanges, saveRelationshipsJson, MAX_SCORE, MIN_SCORE } from '../Utils/Overlay';
+import { useAppSelector, useAppDispatch } from '../store/hooks';
+import { setRelationshipScore, revertRelationshipScore, discardOverlay, undoOverlay, redoOverlay, selectRelationshipOverlay, selectCanUndoOverlay, selectCanRedoOverlay } from '../store/slices/dataSlice';
+
+interface RelationshipEditorProps {
+  countryId: string;
+  // Scores as fetched, before any edits
+  baselineData: RelationshipData;
+}
+
+const toolbarButtonClasses = 'px-2 py-1 text-xs rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-white/10 disabled:opacity-40 disabled:cursor-not-allowed transition-colors';
+
+const RelationshipEditorInternal: React.FC<RelationshipEditorProps> = ({ countryId, baselineData }) => {
+  const dispatch = useAppDispatch();
+  const overlay = useAppSelector(selectRelationshipOverlay);
+  const canUndo = useAppSelector(selectCanUndoOverlay);
+  const canRedo = useAppSelector(selectCanRedoOverlay);
+  const [filter, setFilter] = useState('');
+  const [showChanges, setShowChanges] = useState(false);
+
+  const nameOf = useCallback((code: string) => baselineData[code]?.name || code, [baselineData]);
+
+  const baselineRelations = baselineData[countryId]?.relations;
+  const editedRelations = overlay[countryId];
+
+  // The selected country's partners with their current score, by name
+  const partners = useMemo(() => {
+    const query = filter.trim().toLowerCase();
+    return Object.entries({ ...baselineRelations, ...editedRelations })
+      .filter(([partnerId]) => !query || nameOf(partnerId).toLowerCase().includes(query) || partnerId.toLowerCase().includes(query))
+      .sort(([a], [b]) => nameOf(a).localeCompare(nameOf(b)));
+  }, [baselineRelations, editedRelations, filter, nameOf]);
+
+  const changes = useMemo(() => getOverlayChanges(baselineData, overlay), [baselineData, overlay]);
+
+  const handleScoreChange = (partnerId: string, score: number) => {
+    dispatch(setRelationshipScore({ source: countryId, partner: partnerId, score, baseline: baselineRelations?.[partnerId] }));
+  };
+
+  const handleExport = () => saveRelationshipsJson(applyRelationshipOverlay(baselineData, overlay));
+
+  // Ctrl/Cmd+Z undoes and Ctrl/Cmd+Shift+Z or Ctrl+Y redoes, except while typing in a text field
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey)) return;
+      if ((event.target as HTMLElement | null)?.closest('input[type="text"], input[type="search"], textarea')) return;
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        dispatch(undoOverlay());
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        dispatch(redoOverlay());
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [dispatch]);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-1">
+        <button type="button" className={toolbarButtonClasses} disabled={!canUndo} onClick={() => dispatch(undoOverlay())} title="Undo (Ctrl+Z)">Undo</button>
+        <button type="button" className={toolbarButtonClasses} disabled={!canRedo} onClick={() => dispatch(redoOverlay())} title="Redo (Ctrl+Shift+Z)">Redo</button>
+        <button type="button" className={toolbarButtonClasses} aria-pressed={showChanges} onClick={() => setShowChanges(!showChanges)}>
+          {showChanges ? 'Back to scores' : `Changes (${changes.length})`}
+        </button>
+        <button type="button" className={toolbarButtonClasses} onClick={handleExport} title="Download the edited data in the format of public/data/relationships.json">Export JSON</button>
+        <button type="button" className={toolbarButtonClasses} disabled={changes.length === 0} onClick={() => dispatch(discardOverlay())}>Discard all</button>
+      </div>
+
+      {showChanges ? (
+        changes.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No scores edited yet.</p>
+        ) : (
+          <ul className="space-y-1">
+            {changes.map(({ source, partner, before, after }) => (
+              <li key={`${source}>${partner}`} className="flex items-center justify-between gap-2 text-sm p-2 rounded-md bg-gray-50 dark:bg-white/5">
+                <span className="text-gray-600 dark:text-gray-300 min-w-0 truncate" title={`${nameOf(source)} → ${nameOf(partner)}`}>
+                  {nameOf(source)} → {nameOf(partner)}
+                </span>
+                <span className="flex items-center gap-2 text-xs tabular-nums flex-shrink-0">
+                  {before === undefined ? (
+                    <span className="text-gray-400">new</span>
+                  ) : (
+                    <span className="font-bold line-through opacity-60" style={{ color: ColorScale(before) }}>{formatScore(before)}</span>
+                  )}
+                  <span className="font-bold" style={{ color: ColorScale(after) }}>{formatScore(after)}</span>
+                  <button
+                    type="button"
+                    onClick={() => dispatch(revertRelationshipScore({ source, partner }))}
+                    className="text-gray-400 hover:text-gray-900 dark:hover:text-white"
+                    aria-label={`Revert ${nameOf(source)} → ${nameOf(partner)}`}
+                  >
+                    ↺
+                  </button>
+                </span>
+              </li>
+            ))}
+          </ul>
+        )
+      ) : (
+        <>
+          <input
+            type="search"
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            placeholder="Filter partners..."
+            className="w-full px-3 py-1.5 text-sm rounded-md bg-gray-100 dark:bg-gray-800 border border-gray-300 dark:border-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <ul className="space-y-2">
+            {partners.map(([partnerId, score]) => {
+              const isEdited = editedRelations?.[partnerId] !== undefined;
+              return (
+                <li key={partnerId}>
+                  <div className="flex justify-between items-center text-sm">
+                    <label htmlFor={`score-${partnerId}`} className="text-gray-600 dark:text-gray-300">
+                      {nameOf(partnerId)}
+                      {isEdited && <span className="ml-1 text-xs text-blue-500" title="Edited">●</span>}
+                    </label>
+                    <span className="flex items-center gap-2">
+                      {isEdited && (
+                        <button
+                          type="button"
+                          onClick={() => dispatch(revertRelationshipScore({ source: countryId, partner: partnerId }))}
+                          className="text-xs text-gray-400 hover:text-gray-900 dark:hover:text-white"
+                          title={baselineRelations?.[partnerId] === undefined ? 'Remove score' : `Revert to ${formatScore(baselineRelations[partnerId])}`}
+                        >
+                          ↺
+                        </button>
+                      )}
+                      <span className="font-bold w-8 text-right tabular-nums" style={{ color: ColorScale(score) }}>{formatScore(score)}</span>
+                    </span>
+                  </div>
+                  <input
+                    id={`score-${partnerId}`}
+                    type="range"
+                    min={MIN_SCORE}
+                    max={MAX_SCORE}
+                    step={1}
+                    value={score}
+                    onChange={(e) => handleScoreChange(partnerId, Number(e.target.value))}
+                    className="w-full accent-blue-500 cursor-pointer"
+                  />
+                </li>
+              );
+            })}
+          </ul>
+          {partners.length === 0 && <p className="text-sm text-gray-500 dark:text-gray-400">No partners match.</p>}
+        </>
+      )}
+    </div>
+  );
+};
+
+const RelationshipEditor = memo(RelationshipEditorInternal);
+export default RelationshipEditor;
@@ -0,0 +1,169 @@
+// src/components/RoutesPanel.tsx
+import React, { useState, useMemo, useEffect, useCallback, memo } from 'react';
+import { motion } from 'framer-motion';
+import type { RelationshipData } from '../types/data';
+import { ColorScale } from '../Utils/ColorScale';
+import { MAX_SCORE, formatScore } from '../Utils/Overlay';
+import { getCountryCode } from '../Utils/Format_country_name';
+import { DEFAULT_ROUTE_OPTIONS, findDiplomaticRoutes } from '../Utils/Routes';
+import { useAppSelector, useAppDispatch } from '../store/hooks';
+import { setAnalysisPanel, setHighlightedRoute, selectSelectedCountry, selectComparedCountry } from '../store/slices/uiSlice';
+
+interface RoutesPanelProps {
+  relationshipData: RelationshipData;
+}
+
+const selectClasses = 'w-full min-w-0 px-2 py-1 text-sm rounded-md bg-gray-100 dark:bg-gray-800 border border-gray-300 dark:border-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const RoutesPanelInternal: React.FC<RoutesPanelProps> = ({ relationshipData }) => {
+  const dispatch = useAppDispatch();
+  const selectedCountry = useAppSelector(selectSelectedCountry);
+  const comparedCountry = useAppSelector(selectComparedCountry);
+
+  // Start from the current selection and comparison, if any
+  const [source, setSource] = useState(() => getCountryCode(selectedCountry) ?? '');
+  const [target, setTarget] = useState(() => getCountryCode(comparedCountry) ?? '');
+  const [minTie, setMinTie] = useState(DEFAULT_ROUTE_OPTIONS.minTie);
+  const [shownIndex, setShownIndex] = useState(0);
+
+  const nameOf = useCallback((code: string) => relationshipData[code]?.name || code, [relationshipData]);
+
+  const countryOptions = useMemo(
+    () => Object.entries(relationshipData).map(([code, { name }]) => ({ code, name })).sort((a, b) => a.name.localeCompare(b.name)),
+    [relationshipData]
+  );
+
+  const routes = useMemo(
+    () => (source && target ? findDiplomaticRoutes(relationshipData, source, target, { ...DEFAULT_ROUTE_OPTIONS, minTie }) : []),
+    [relationshipData, source, target, minTie]
+  );
+
+  // A new search shows its best route
+  useEffect(() => setShownIndex(0), [routes]);
+
+  const shownPath = routes[shownIndex]?.path ?? null;
+  useEffect(() => {
+    dispatch(setHighlightedRoute(shownPath));
+  }, [shownPath, dispatch]);
+
+  // The route stays on the map only while the panel is open
+  useEffect(() => () => {
+    dispatch(setHighlightedRoute(null));
+  }, [dispatch]);
+
+  const directScores = source && target
+    ? [relationshipData[source]?.relations[target], relationshipData[target]?.relations[source]]
+    : null;
+
+  const handleSwap = () => {
+    setSource(target);
+    setTarget(source);
+  };
+
+  return (
+    <motion.div
+      className="absolute top-4 left-4 z-30 w-80 max-h-[calc(100%-2rem)] flex flex-col bg-white/90 dark:bg-gray-900/90 shadow-2xl backdrop-blur-md border border-gray-200 dark:border-white/10 rounded-lg"
+      initial={{ opacity: 0, x: -50 }}
+      animate={{ opacity: 1, x: 0 }}
+      exit={{ opacity: 0, x: -50 }}
+      transition={{ type: 'spring', stiffness: 400, damping: 40 }}
+    >
+      <div className="p-4 flex-shrink-0">
+        <div className="flex justify-between items-center">
+          <h2 className="text-lg font-bold">Diplomatic Routes</h2>
+          <button
+            onClick={() => dispatch(setAnalysisPanel(null))}
+            className="text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white hover:bg-gray-200 dark:hover:bg-white/10 rounded-full p-1 transition-colors"
+            aria-label="Close panel"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+        <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+          The strongest chains of friendly countries between two others. A tie counts as friendly when both directions are positive, and its weaker direction is used.
+        </p>
+        <div className="flex items-center gap-2 mt-3">
+          <select value={source} onChange={(e) => setSource(e.target.value)} className={selectClasses} aria-label="Route from">
+            <option value="">From...</option>
+            {countryOptions.map(({ code, name }) => <option key={code} value={code}>{name}</option>)}
+          </select>
+          <button
+            type="button"
+            onClick={handleSwap}
+            className="text-gray-400 hover:text-gray-900 dark:hover:text-white"
+            aria-label="Swap countries"
+          >
+            ⇄
+          </button>
+          <select value={target} onChange={(e) => setTarget(e.target.value)} className={selectClasses} aria-label="Route to">
+            <option value="">To...</option>
+            {countryOptions.filter(({ code }) => code !== source).map(({ code, name }) => <option key={code} value={code}>{name}</option>)}
+          </select>
+        </div>
+        <div className="mt-3">
+          <div className="flex justify-between items-center text-sm">
+            <label htmlFor="routes-min-tie" className="text-gray-600 dark:text-gray-300">Weakest tie allowed</label>
+            <span className="font-bold w-8 text-right tabular-nums" style={{ color: ColorScale(minTie) }}>{formatScore(minTie)}</span>
+          </div>
+          <input
+            id="routes-min-tie"
+            type="range"
+            min={1}
+            max={MAX_SCORE}
+            step={1}
+            value={minTie}
+            onChange={(e) => setMinTie(Number(e.target.value))}
+            className="w-full accent-blue-500 cursor-pointer"
+          />
+        </div>
+        {directScores && (
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+            Direct: {nameOf(source)} → {nameOf(target)}{' '}
+            <span className="font-bold" style={directScores[0] === undefined ? undefined : { color: ColorScale(directScores[0]) }}>{directScores[0] === undefined ? '–' : formatScore(directScores[0])}</span>
+            {' · '}back{' '}
+            <span className="font-bold" style={directScores[1] === undefined ? undefined : { color: ColorScale(directScores[1]) }}>{directScores[1] === undefined ? '–' : formatScore(directScores[1])}</span>
+          </p>
+        )}
+      </div>
+
+      <div className="flex-grow overflow-y-auto px-4 pb-4 scrollbar-thin scrollbar-thumb-gray-600/50 hover:scrollbar-thumb-gray-500/50 scrollbar-track-transparent">
+        {!source || !target ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">Pick two countries to find routes between them.</p>
+        ) : routes.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No route of ties at least {formatScore(minTie)} connects them.</p>
+        ) : (
+          <ol className="space-y-1">
+            {routes.map(({ path, ties, weakestTie }, index) => (
+              <li key={path.join('>')}>
+                <button
+                  onClick={() => setShownIndex(index)}
+                  aria-pressed={shownIndex === index}
+                  className={`w-full text-left text-sm p-2 rounded-md transition-colors ${shownIndex === index ? 'bg-gray-100 dark:bg-white/10' : 'hover:bg-gray-100 dark:hover:bg-white/10'}`}
+                >
+                  <div className="text-gray-800 dark:text-gray-100">
+                    {path.map((code, i) => (
+                      <React.Fragment key={code}>
+                        {i > 0 && (
+                          <span className="text-xs font-bold tabular-nums mx-1" style={{ color: ColorScale(ties[i - 1]) }}>
+                            →{formatScore(ties[i - 1])}→
+                          </span>
+                        )}
+                        <span className={i === 0 || i === path.length - 1 ? 'font-medium' : undefined}>{nameOf(code)}</span>
+                      </React.Fragment>
+                    ))}
+                  </div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">
+                    {ties.length === 1 ? 'direct' : `${ties.length} hops`} · weakest tie <span className="font-bold" style={{ color: ColorScale(weakestTie) }}>{formatScore(weakestTie)}</span>
+                  </div>
+                </button>
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+    </motion.div>
+  );
+};
+
+const RoutesPanel = memo(RoutesPanelInternal);
+export default RoutesPanel;
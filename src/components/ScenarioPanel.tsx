@@ -0,0 +1,276 @@
+// src/components/ScenarioPanel.tsx
+import React, { useMemo, useState, memo, useCallback } from 'react';
+import { motion } from 'framer-motion';
+import type { Feature } from 'geojson';
+import type { RelationshipData } from '../types/data';
+import type { PropagationModel } from '../types/scenario';
+import { getCountryCode } from '../Utils/Format_country_name';
+import { findCountryByCode } from '../Utils/CountryCodes';
+import { ColorScale, DeltaScale } from '../Utils/ColorScale';
+import { formatScore, MAX_SCORE, MIN_SCORE } from '../Utils/Overlay';
+import { formatDelta, MAX_PROPAGATION_ROUNDS, type ScenarioResult } from '../Utils/Scenario';
+import { useAppSelector, useAppDispatch } from '../store/hooks';
+import { selectCountry as selectCountryAction, setAnalysisPanel, setMapColorMode, selectMapColorMode, selectSelectedCountry } from '../store/slices/uiSlice';
+import { addScenario, removeScenario, setActiveScenario, renameScenario, setScenarioShock, removeScenarioShock, setScenarioModel, selectScenarios, selectActiveScenario } from '../store/slices/scenarioSlice';
+
+interface ScenarioPanelProps {
+  countries: Feature[];
+  // Scores the scenario starts from
+  relationshipData: RelationshipData;
+  // Outcome of the active scenario, or null when none is active
+  result: ScenarioResult | null;
+}
+
+// Predicted changes listed before the rest are summed up
+const MAX_CHANGES_SHOWN = 50;
+
+const MODEL_SLIDERS: { key: keyof PropagationModel; label: string; min: number; max: number; step: number; description: string }[] = [
+  { key: 'allyInfluence', label: 'Ally influence', min: 0, max: 1, step: 0.05, description: 'How far countries follow a friend\'s change of view' },
+  { key: 'rivalInfluence', label: 'Rival influence', min: 0, max: 1, step: 0.05, description: 'How far countries take the opposite of a rival\'s change of view' },
+  { key: 'rounds', label: 'Rounds', min: 1, max: MAX_PROPAGATION_ROUNDS, step: 1, description: 'How many ties away from the shock the changes spread' },
+  { key: 'threshold', label: 'Tie threshold', min: 0, max: MAX_SCORE, step: 1, description: 'Ties weaker than this carry no influence' },
+];
+
+const buttonClasses = 'px-2 py-1 text-xs rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-white/10 disabled:opacity-40 disabled:cursor-not-allowed transition-colors';
+const selectClasses = 'w-full min-w-0 px-2 py-1 text-sm rounded-md bg-gray-100 dark:bg-gray-800 border border-gray-300 dark:border-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const ScenarioPanelInternal: React.FC<ScenarioPanelProps> = ({ countries, relationshipData, result }) => {
+  const dispatch = useAppDispatch();
+  const scenarios = useAppSelector(selectScenarios);
+  const scenario = useAppSelector(selectActiveScenario);
+  const colorMode = useAppSelector(selectMapColorMode);
+  const selectedCountry = useAppSelector(selectSelectedCountry);
+  const selectedId = getCountryCode(selectedCountry);
+
+  // Shock being put together; only applied to the scenario with the button
+  const [shockSource, setShockSource] = useState('');
+  const [shockTarget, setShockTarget] = useState('');
+  const [shockScore, setShockScore] = useState(0);
+  const [shockMutual, setShockMutual] = useState(true);
+  const [onlySelected, setOnlySelected] = useState(false);
+
+  const nameOf = useCallback((code: string) => relationshipData[code]?.name || code, [relationshipData]);
+
+  const countryOptions = useMemo(
+    () => Object.entries(relationshipData).map(([code, { name }]) => ({ code, name })).sort((a, b) => a.name.localeCompare(b.name)),
+    [relationshipData]
+  );
+
+  const predictedChanges = useMemo(
+    () => (result?.changes ?? []).filter(change =>
+      !change.shocked && (!onlySelected || change.source === selectedId || change.target === selectedId)),
+    [result, onlySelected, selectedId]
+  );
+
+  const baselineScore = shockSource && shockTarget ? relationshipData[shockSource]?.relations[shockTarget] : undefined;
+
+  const handleAddShock = () => {
+    if (!scenario || !shockSource || !shockTarget || shockSource === shockTarget) return;
+    dispatch(setScenarioShock({ id: scenario.id, shock: { source: shockSource, target: shockTarget, score: shockScore, mutual: shockMutual } }));
+  };
+
+  const handleRowClick = useCallback((code: string) => {
+    const country = findCountryByCode(countries, code);
+    if (country) dispatch(selectCountryAction(country));
+  }, [countries, dispatch]);
+
+  return (
+    <motion.div
+      className="absolute top-4 left-4 z-30 w-[26rem] max-w-[calc(100%-2rem)] max-h-[calc(100%-2rem)] flex flex-col bg-white/90 dark:bg-gray-900/90 shadow-2xl backdrop-blur-md border border-gray-200 dark:border-white/10 rounded-lg"
+      initial={{ opacity: 0, x: -50 }}
+      animate={{ opacity: 1, x: 0 }}
+      exit={{ opacity: 0, x: -50 }}
+      transition={{ type: 'spring', stiffness: 400, damping: 40 }}
+    >
+      <div className="p-4 flex-shrink-0">
+        <div className="flex justify-between items-center">
+          <h2 className="text-lg font-bold">Scenarios</h2>
+          <button
+            onClick={() => dispatch(setAnalysisPanel(null))}
+            className="text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white hover:bg-gray-200 dark:hover:bg-white/10 rounded-full p-1 transition-colors"
+            aria-label="Close panel"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+        <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+          Set hypothetical scores and see how third countries are predicted to react: friends of a country follow its change of view, rivals take the opposite side.
+        </p>
+        <div className="flex gap-2 mt-3">
+          <select
+            value={scenario?.id ?? ''}
+            onChange={(e) => dispatch(setActiveScenario(e.target.value || null))}
+            className={selectClasses}
+            aria-label="Scenario"
+          >
+            <option value="">No scenario (baseline)</option>
+            {scenarios.map(({ id, name }) => (
+              <option key={id} value={id}>{name}</option>
+            ))}
+          </select>
+          <button type="button" className={buttonClasses} onClick={() => dispatch(addScenario(`Scenario ${scenarios.length + 1}`))}>New</button>
+          <button type="button" className={buttonClasses} disabled={!scenario} onClick={() => scenario && dispatch(removeScenario(scenario.id))}>Delete</button>
+        </div>
+      </div>
+
+      <div className="flex-grow overflow-y-auto px-4 pb-4 space-y-4 scrollbar-thin scrollbar-thumb-gray-600/50 hover:scrollbar-thumb-gray-500/50 scrollbar-track-transparent">
+        {!scenario ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            {scenarios.length === 0 ? 'No scenarios saved yet. Create one to get started.' : 'Pick a scenario to edit it and compare it to the baseline.'}
+          </p>
+        ) : (
+          <>
+            <input
+              type="text"
+              value={scenario.name}
+              onChange={(e) => dispatch(renameScenario({ id: scenario.id, name: e.target.value }))}
+              className="w-full px-3 py-1.5 text-sm rounded-md bg-gray-100 dark:bg-gray-800 border border-gray-300 dark:border-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              aria-label="Scenario name"
+            />
+
+            <section className="space-y-2">
+              <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-200">Shocks</h3>
+              {scenario.shocks.length === 0 ? (
+                <p className="text-xs text-gray-500 dark:text-gray-400">No shocks yet; the scenario matches the baseline.</p>
+              ) : (
+                <ul className="space-y-1">
+                  {scenario.shocks.map(({ source, target, score, mutual }, index) => (
+                    <li key={`${source}>${target}`} className="flex items-center justify-between gap-2 text-sm p-2 rounded-md bg-gray-50 dark:bg-white/5">
+                      <span className="text-gray-600 dark:text-gray-300 min-w-0 truncate">
+                        {nameOf(source)} {mutual ? '↔' : '→'} {nameOf(target)}
+                      </span>
+                      <span className="flex items-center gap-2 text-xs tabular-nums flex-shrink-0">
+                        <span className="font-bold" style={{ color: ColorScale(score) }}>{formatScore(score)}</span>
+                        <button
+                          type="button"
+                          onClick={() => dispatch(removeScenarioShock({ id: scenario.id, index }))}
+                          className="text-gray-400 hover:text-gray-900 dark:hover:text-white"
+                          aria-label={`Remove shock ${nameOf(source)} → ${nameOf(target)}`}
+                        >
+                          ✕
+                        </button>
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              <div className="space-y-2 p-2 rounded-md border border-gray-200 dark:border-white/10">
+                <div className="flex items-center gap-2">
+                  <select value={shockSource} onChange={(e) => setShockSource(e.target.value)} className={selectClasses} aria-label="Country whose view changes">
+                    <option value="">Country...</option>
+                    {countryOptions.map(({ code, name }) => <option key={code} value={code}>{name}</option>)}
+                  </select>
+                  <span className="text-gray-400">{shockMutual ? '↔' : '→'}</span>
+                  <select value={shockTarget} onChange={(e) => setShockTarget(e.target.value)} className={selectClasses} aria-label="Country it views">
+                    <option value="">Partner...</option>
+                    {countryOptions.filter(({ code }) => code !== shockSource).map(({ code, name }) => <option key={code} value={code}>{name}</option>)}
+                  </select>
+                </div>
+                <div className="flex justify-between items-center text-sm">
+                  <label htmlFor="scenario-shock-score" className="text-gray-600 dark:text-gray-300">
+                    New score{baselineScore !== undefined && <span className="text-xs text-gray-400"> (now {formatScore(baselineScore)})</span>}
+                  </label>
+                  <span className="font-bold w-8 text-right tabular-nums" style={{ color: ColorScale(shockScore) }}>{formatScore(shockScore)}</span>
+                </div>
+                <input
+                  id="scenario-shock-score"
+                  type="range"
+                  min={MIN_SCORE}
+                  max={MAX_SCORE}
+                  step={1}
+                  value={shockScore}
+                  onChange={(e) => setShockScore(Number(e.target.value))}
+                  className="w-full accent-blue-500 cursor-pointer"
+                />
+                <div className="flex justify-between items-center">
+                  <label className="flex items-center gap-2 text-xs text-gray-600 dark:text-gray-300">
+                    <input type="checkbox" checked={shockMutual} onChange={(e) => setShockMutual(e.target.checked)} className="accent-blue-500" />
+                    Both directions
+                  </label>
+                  <button
+                    type="button"
+                    className={buttonClasses}
+                    disabled={!shockSource || !shockTarget || shockSource === shockTarget}
+                    onClick={handleAddShock}
+                  >
+                    Apply shock
+                  </button>
+                </div>
+              </div>
+            </section>
+
+            <section className="space-y-2">
+              <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-200">Propagation</h3>
+              {MODEL_SLIDERS.map(({ key, label, min, max, step, description }) => (
+                <div key={key}>
+                  <div className="flex justify-between items-center text-xs">
+                    <label htmlFor={`scenario-model-${key}`} className="text-gray-600 dark:text-gray-300" title={description}>{label}</label>
+                    <span className="font-medium tabular-nums">{scenario.model[key]}</span>
+                  </div>
+                  <input
+                    id={`scenario-model-${key}`}
+                    type="range"
+                    min={min}
+                    max={max}
+                    step={step}
+                    value={scenario.model[key]}
+                    onChange={(e) => dispatch(setScenarioModel({ id: scenario.id, model: { [key]: Number(e.target.value) } }))}
+                    className="w-full accent-blue-500 cursor-pointer"
+                  />
+                </div>
+              ))}
+            </section>
+
+            <section className="space-y-2">
+              <div className="flex justify-between items-center">
+                <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-200">Compared to baseline</h3>
+                <button
+                  type="button"
+                  className={buttonClasses}
+                  aria-pressed={colorMode === 'scenario'}
+                  onClick={() => dispatch(setMapColorMode(colorMode === 'scenario' ? 'relationship' : 'scenario'))}
+                >
+                  {colorMode === 'scenario' ? 'Hide on map' : 'Show on map'}
+                </button>
+              </div>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {predictedChanges.length} predicted score change(s)
+                {selectedId && (
+                  <label className="ml-2 inline-flex items-center gap-1">
+                    <input type="checkbox" checked={onlySelected} onChange={(e) => setOnlySelected(e.target.checked)} className="accent-blue-500" />
+                    only {nameOf(selectedId)}
+                  </label>
+                )}
+              </p>
+              <ul className="space-y-1">
+                {predictedChanges.slice(0, MAX_CHANGES_SHOWN).map(({ source, target, before, after, delta }) => (
+                  <li
+                    key={`${source}>${target}`}
+                    className="flex items-center justify-between gap-2 text-sm p-2 rounded-md bg-gray-50 dark:bg-white/5 cursor-pointer hover:bg-gray-100 dark:hover:bg-white/10"
+                    onClick={() => handleRowClick(source)}
+                  >
+                    <span className="text-gray-600 dark:text-gray-300 min-w-0 truncate" title={`${nameOf(source)} → ${nameOf(target)}`}>
+                      {nameOf(source)} → {nameOf(target)}
+                    </span>
+                    <span className="flex items-center gap-2 text-xs tabular-nums flex-shrink-0">
+                      <span className="opacity-60" style={before === undefined ? undefined : { color: ColorScale(before) }}>{before === undefined ? '–' : formatScore(before)}</span>
+                      <span className="font-bold" style={{ color: ColorScale(after) }}>{formatScore(after)}</span>
+                      <span className="font-bold w-10 text-right" style={{ color: DeltaScale(delta) }}>{formatDelta(delta)}</span>
+                    </span>
+                  </li>
+                ))}
+                {predictedChanges.length > MAX_CHANGES_SHOWN && (
+                  <li className="text-xs italic text-gray-500 dark:text-gray-400">and {predictedChanges.length - MAX_CHANGES_SHOWN} smaller changes</li>
+                )}
+              </ul>
+            </section>
+          </>
+        )}
+      </div>
+    </motion.div>
+  );
+};
+
+const ScenarioPanel = memo(ScenarioPanelInternal);
+export default ScenarioPanel;
@@ -3,13 +3,28 @@ import React, { useState, useMemo, useEffect, useRef, useCallback } from 'react'
 import { motion } from 'framer-motion';
 import type { Feature } from 'geojson';
 import SearchBar from './SearchBar';
+import ImportDialog from './ImportDialog';
 import { getCountryCode, getCountryName } from '../Utils/Format_country_name';
 import { useAppSelector, useAppDispatch } from '../store/hooks';
-import { selectCountry as selectCountryAction, selectAlliance as selectAllianceAction, setProjection, selectSelectedCountry, selectSelectedAlliance, selectProjectionType, setMobileMenuOpen, setSearchTerm, toggleSidebar, selectSearchTerm, selectSidebarCollapsed } from '../store/slices/uiSlice';
+import { selectCountry as selectCountryAction, compareCountry, selectAlliance as selectAllianceAction, setProjection, selectSelectedCountry, selectSelectedAlliance, selectProjectionType, setMobileMenuOpen, setSearchTerm, toggleSidebar, selectSearchTerm, selectSidebarCollapsed, setScoreDimension, setDimensionWeight, selectScoreDimension, selectDimensionWeights, setMapColorMode, selectMapColorMode, setAnalysisPanel, selectAnalysisPanel, setActiveView, selectActiveView, setShowConflicts, selectShowConflicts, setConflictFilters, selectConflictFilters, selectConflict, selectSelectedConflict, setArcSettings, selectArcSettings, setMapRenderer, selectMapRenderer, setBoundaryPerspective, selectBoundaryPerspective, type AnalysisPanel, type MapRenderer, type ProjectionType, type ViewType } from '../store/slices/uiSlice';
+import { MAP_COLOR_MODES, type MapColorMode } from '../Utils/MapColoring';
+import { RELATIONSHIP_DIMENSIONS, getScoreDimensionLabel, type ScoreDimension } from '../Utils/Dimensions';
+import type { DimensionScores, RelationshipDimension } from '../types/data';
+import { CONFLICT_INTENSITIES, CONFLICT_TYPES, type ConflictFilters, type ConflictZone } from '../types/conflict';
+import { ARC_DIRECTIONS, MAX_ARC_COUNT, MAX_ARC_THRESHOLD, type ArcSettings } from '../Utils/Arcs';
+import { CONFLICT_INTENSITY_COLORS, filterConflicts, getConflictIntensityLabel, getConflictTypeLabel, getConflictYearsLabel } from '../Utils/Conflicts';
+import { BOUNDARY_PERSPECTIVES, type BoundaryPerspective } from '../types/boundary';
+import { getBoundaryPerspectiveDescription, getBoundaryPerspectiveLabel } from '../Utils/Boundaries';
+import { selectImportedFiles, setImportedFile } from '../store/slices/dataSlice';
+import { useDatasetImport } from '../hooks/useData';
+import type { ImportKind } from '../Utils/Import';
 
 interface SidebarProps {
   countries: Feature[];
   alliances: { [key: string]: string[] };
+  // Blocs found by community detection, offered alongside the declared alliances
+  detectedBlocs: { [key: string]: string[] };
+  conflicts: ConflictZone[];
 }
 
 // Variants for the list animation
@@ -57,10 +72,60 @@ const iconAnimationVariants = {
   closed: { rotate: 0, transition: { duration: 0.4, ease: [0.32, 0.72, 0, 1] as const } }
 };
 
+const VIEWS: { key: ViewType; label: string }[] = [
+  { key: 'map', label: 'Map' },
+  { key: 'network', label: 'Network' },
+  { key: 'matrix', label: 'Matrix' },
+];
+
+const ViewSwitcher: React.FC<{
+  activeView: ViewType;
+  onViewChange: (view: ViewType) => void;
+}> = ({ activeView, onViewChange }) => {
+  return (
+    <div className="p-4 border-b border-gray-200 dark:border-slate-800/50">
+      <span className="block text-sm font-medium text-gray-500 dark:text-slate-400 mb-2">
+        View
+      </span>
+      <div className="flex rounded-lg overflow-hidden border border-gray-300 dark:border-slate-700" role="group">
+        {VIEWS.map(({ key, label }) => (
+          <button
+            key={key}
+            onClick={() => onViewChange(key)}
+            aria-pressed={activeView === key}
+            className={`flex-1 px-3 py-2 text-sm font-medium transition-colors ${
+              activeView === key
+                ? 'bg-blue-500 text-white'
+                : 'bg-gray-100 dark:bg-slate-800 text-gray-700 dark:text-slate-300 hover:bg-gray-200 dark:hover:bg-slate-700'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const PROJECTIONS: { key: ProjectionType; label: string }[] = [
+  { key: 'geoMercator', label: 'Mercator' },
+  { key: 'geoOrthographic', label: 'Orthographic' },
+  { key: 'globe3d', label: '3D Globe' },
+];
+
+const RENDERERS: { key: MapRenderer; label: string }[] = [
+  { key: 'svg', label: 'SVG' },
+  { key: 'canvas', label: 'Canvas (faster)' },
+];
+
 const ProjectionSwitcher: React.FC<{
-  projectionName: 'geoMercator' | 'geoOrthographic';
-  onProjectionChange: (name: 'geoMercator' | 'geoOrthographic') => void;
-}> = ({ projectionName, onProjectionChange }) => {
+  projectionName: ProjectionType;
+  renderer: MapRenderer;
+  perspective: BoundaryPerspective;
+  onProjectionChange: (name: ProjectionType) => void;
+  onRendererChange: (renderer: MapRenderer) => void;
+  onPerspectiveChange: (perspective: BoundaryPerspective) => void;
+}> = ({ projectionName, renderer, perspective, onProjectionChange, onRendererChange, onPerspectiveChange }) => {
   return (
     <div className="p-4 border-b border-gray-200 dark:border-slate-800/50">
       <label htmlFor="projection-select" className="block text-sm font-medium text-gray-500 dark:text-slate-400 mb-2">
@@ -69,22 +134,253 @@ const ProjectionSwitcher: React.FC<{
       <select
         id="projection-select"
         value={projectionName}
-        onChange={(e) => onProjectionChange(e.target.value as 'geoMercator' | 'geoOrthographic')}
+        onChange={(e) => onProjectionChange(e.target.value as ProjectionType)}
+        className="w-full bg-gray-100 dark:bg-slate-800 border border-gray-300 dark:border-slate-700 text-gray-900 dark:text-white text-sm rounded-lg focus:ring-blue-500 focus:border-blue-500 block p-2.5"
+      >
+        {PROJECTIONS.map(({ key, label }) => (
+          <option key={key} value={key}>
+            {label}
+          </option>
+        ))}
+      </select>
+      {projectionName !== 'globe3d' && (
+        <div className="mt-3 flex items-center justify-between gap-2">
+          <label htmlFor="renderer-select" className="text-xs text-gray-500 dark:text-slate-400">
+            Renderer
+          </label>
+          <select
+            id="renderer-select"
+            value={renderer}
+            onChange={(e) => onRendererChange(e.target.value as MapRenderer)}
+            className="bg-gray-100 dark:bg-slate-800 border border-gray-300 dark:border-slate-700 text-gray-900 dark:text-white text-xs rounded-md focus:ring-blue-500 focus:border-blue-500 p-1.5"
+          >
+            {RENDERERS.map(({ key, label }) => (
+              <option key={key} value={key}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+      <div className="mt-3 flex items-center justify-between gap-2">
+        <label htmlFor="boundaries-select" className="text-xs text-gray-500 dark:text-slate-400">
+          Boundaries
+        </label>
+        <select
+          id="boundaries-select"
+          value={perspective}
+          onChange={(e) => onPerspectiveChange(e.target.value as BoundaryPerspective)}
+          className="bg-gray-100 dark:bg-slate-800 border border-gray-300 dark:border-slate-700 text-gray-900 dark:text-white text-xs rounded-md focus:ring-blue-500 focus:border-blue-500 p-1.5"
+        >
+          {BOUNDARY_PERSPECTIVES.map(key => (
+            <option key={key} value={key}>
+              {getBoundaryPerspectiveLabel(key)}
+            </option>
+          ))}
+        </select>
+      </div>
+      <p className="mt-1 text-xs text-gray-400 dark:text-slate-500">{getBoundaryPerspectiveDescription(perspective)}</p>
+    </div>
+  );
+};
+
+const DimensionSelector: React.FC<{
+  scoreDimension: ScoreDimension;
+  weights: DimensionScores;
+  onDimensionChange: (dimension: ScoreDimension) => void;
+  onWeightChange: (dimension: RelationshipDimension, weight: number) => void;
+}> = ({ scoreDimension, weights, onDimensionChange, onWeightChange }) => {
+  const options: ScoreDimension[] = ['overall', ...RELATIONSHIP_DIMENSIONS.map(d => d.key), 'composite'];
+
+  return (
+    <div className="p-4 border-b border-gray-200 dark:border-slate-800/50">
+      <label htmlFor="dimension-select" className="block text-sm font-medium text-gray-500 dark:text-slate-400 mb-2">
+        Relationship Dimension
+      </label>
+      <select
+        id="dimension-select"
+        value={scoreDimension}
+        onChange={(e) => onDimensionChange(e.target.value as ScoreDimension)}
         className="w-full bg-gray-100 dark:bg-slate-800 border border-gray-300 dark:border-slate-700 text-gray-900 dark:text-white text-sm rounded-lg focus:ring-blue-500 focus:border-blue-500 block p-2.5"
       >
-        <option value="geoMercator">Mercator</option>
-        <option value="geoOrthographic">Orthographic</option>
+        {options.map(option => (
+          <option key={option} value={option}>
+            {getScoreDimensionLabel(option)}
+          </option>
+        ))}
       </select>
+      {scoreDimension === 'composite' && (
+        <div className="mt-3 space-y-2">
+          {RELATIONSHIP_DIMENSIONS.map(({ key, label }) => (
+            <div key={key}>
+              <div className="flex justify-between text-xs text-gray-500 dark:text-slate-400">
+                <label htmlFor={`weight-${key}`}>{label}</label>
+                <span>{weights[key]}</span>
+              </div>
+              <input
+                id={`weight-${key}`}
+                type="range"
+                min={0}
+                max={5}
+                step={1}
+                value={weights[key]}
+                onChange={(e) => onWeightChange(key, Number(e.target.value))}
+                className="w-full accent-blue-500 cursor-pointer"
+              />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const ColorModeSwitcher: React.FC<{
+  colorMode: MapColorMode;
+  onColorModeChange: (mode: MapColorMode) => void;
+}> = ({ colorMode, onColorModeChange }) => {
+  return (
+    <div className="p-4 border-b border-gray-200 dark:border-slate-800/50">
+      <label htmlFor="color-mode-select" className="block text-sm font-medium text-gray-500 dark:text-slate-400 mb-2">
+        Map Coloring
+      </label>
+      <select
+        id="color-mode-select"
+        value={colorMode}
+        onChange={(e) => onColorModeChange(e.target.value as MapColorMode)}
+        className="w-full bg-gray-100 dark:bg-slate-800 border border-gray-300 dark:border-slate-700 text-gray-900 dark:text-white text-sm rounded-lg focus:ring-blue-500 focus:border-blue-500 block p-2.5"
+      >
+        {MAP_COLOR_MODES.map(({ key, label }) => (
+          <option key={key} value={key}>
+            {label}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+};
+
+const ArcControls: React.FC<{
+  settings: ArcSettings;
+  allianceNames: string[];
+  onSettingsChange: (settings: Partial<ArcSettings>) => void;
+}> = ({ settings, allianceNames, onSettingsChange }) => {
+  return (
+    <div className="p-4 border-b border-gray-200 dark:border-slate-800/50 space-y-3">
+      <span className="block text-sm font-medium text-gray-500 dark:text-slate-400">
+        Relationship Arcs
+      </span>
+      <div className="flex gap-1">
+        {ARC_DIRECTIONS.map(({ key, label }) => (
+          <button
+            key={key}
+            onClick={() => onSettingsChange({ direction: key })}
+            aria-pressed={settings.direction === key}
+            className={`flex-1 px-2 py-1 text-xs font-medium rounded-md border transition-colors ${
+              settings.direction === key
+                ? 'bg-blue-500/20 dark:bg-blue-600/30 text-blue-800 dark:text-white border-blue-400'
+                : 'bg-gray-100 dark:bg-slate-800 text-gray-700 dark:text-slate-300 border-gray-300 dark:border-slate-700 hover:bg-gray-200 dark:hover:bg-slate-700'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      <div>
+        <div className="flex justify-between text-xs text-gray-500 dark:text-slate-400">
+          <label htmlFor="arc-count">{settings.direction === 'both' ? 'Arcs per side' : 'Arcs'}</label>
+          <span>{settings.count}</span>
+        </div>
+        <input
+          id="arc-count"
+          type="range"
+          min={1}
+          max={MAX_ARC_COUNT}
+          step={1}
+          value={settings.count}
+          onChange={(e) => onSettingsChange({ count: Number(e.target.value) })}
+          className="w-full accent-blue-500 cursor-pointer"
+        />
+      </div>
+      <div>
+        <div className="flex justify-between text-xs text-gray-500 dark:text-slate-400">
+          <label htmlFor="arc-threshold">Minimum strength</label>
+          <span>{settings.threshold === 0 ? 'Any' : `±${settings.threshold}`}</span>
+        </div>
+        <input
+          id="arc-threshold"
+          type="range"
+          min={0}
+          max={MAX_ARC_THRESHOLD}
+          step={1}
+          value={settings.threshold}
+          onChange={(e) => onSettingsChange({ threshold: Number(e.target.value) })}
+          className="w-full accent-blue-500 cursor-pointer"
+        />
+      </div>
+      <select
+        aria-label="Only draw arcs to members of"
+        value={settings.alliance || ''}
+        onChange={(e) => onSettingsChange({ alliance: e.target.value || null })}
+        className="w-full bg-gray-100 dark:bg-slate-800 border border-gray-300 dark:border-slate-700 text-gray-900 dark:text-white text-sm rounded-lg focus:ring-blue-500 focus:border-blue-500 block p-2.5"
+      >
+        <option value="">To any country</option>
+        {allianceNames.map(name => (
+          <option key={name} value={name}>
+            Only {name} members
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+};
+
+const ANALYSIS_PANELS: { key: AnalysisPanel; label: string }[] = [
+  { key: 'asymmetry', label: 'Asymmetry' },
+  { key: 'blocs', label: 'Blocs' },
+  { key: 'rankings', label: 'Rankings' },
+  { key: 'balance', label: 'Balance' },
+  { key: 'routes', label: 'Routes' },
+  { key: 'scenarios', label: 'Scenarios' },
+];
+
+const AnalysisMenu: React.FC<{
+  activePanel: AnalysisPanel | null;
+  onPanelToggle: (panel: AnalysisPanel) => void;
+}> = ({ activePanel, onPanelToggle }) => {
+  return (
+    <div className="p-4 border-b border-gray-200 dark:border-slate-800/50">
+      <span className="block text-sm font-medium text-gray-500 dark:text-slate-400 mb-2">
+        Analysis
+      </span>
+      <div className="flex flex-wrap gap-2">
+        {ANALYSIS_PANELS.map(({ key, label }) => (
+          <button
+            key={key}
+            onClick={() => onPanelToggle(key)}
+            aria-pressed={activePanel === key}
+            className={`px-3 py-1.5 text-xs font-medium rounded-md border transition-colors ${
+              activePanel === key
+                ? 'bg-blue-500/20 dark:bg-blue-600/30 text-blue-800 dark:text-white border-blue-400'
+                : 'bg-gray-100 dark:bg-slate-800 text-gray-700 dark:text-slate-300 border-gray-300 dark:border-slate-700 hover:bg-gray-200 dark:hover:bg-slate-700'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
     </div>
   );
 };
 
 const AllianceFilter: React.FC<{
   alliances: { [key: string]: string[] };
+  detectedBlocs: { [key: string]: string[] };
   selectedAlliance: string | null;
   onAllianceSelect: (alliance: string | null) => void;
-}> = ({ alliances, selectedAlliance, onAllianceSelect }) => {
+}> = ({ alliances, detectedBlocs, selectedAlliance, onAllianceSelect }) => {
   const allianceNames = Object.keys(alliances).sort();
+  const blocNames = Object.keys(detectedBlocs);
 
   return (
     <div className="p-4 border-b border-gray-200 dark:border-slate-800/50">
@@ -98,23 +394,214 @@ const AllianceFilter: React.FC<{
         className="w-full bg-gray-100 dark:bg-slate-800 border border-gray-300 dark:border-slate-700 text-gray-900 dark:text-white text-sm rounded-lg focus:ring-blue-500 focus:border-blue-500 block p-2.5"
       >
         <option value="">Select Alliance</option>
-        {allianceNames.map(name => (
-          <option key={name} value={name}>
-            {name}
-          </option>
-        ))}
+        {blocNames.length > 0 ? (
+          <>
+            <optgroup label="Declared Alliances">
+              {allianceNames.map(name => (
+                <option key={name} value={name}>
+                  {name}
+                </option>
+              ))}
+            </optgroup>
+            <optgroup label="Detected Blocs">
+              {blocNames.map(name => (
+                <option key={name} value={name}>
+                  {name} ({detectedBlocs[name].length})
+                </option>
+              ))}
+            </optgroup>
+          </>
+        ) : (
+          allianceNames.map(name => (
+            <option key={name} value={name}>
+              {name}
+            </option>
+          ))
+        )}
       </select>
     </div>
   );
 };
 
-const Sidebar: React.FC<SidebarProps> = ({ countries, alliances }) => {
+const DATASET_LABELS: Record<ImportKind, string> = {
+  relationships: 'Relationships',
+  alliances: 'Alliances',
+};
+
+const DataImport: React.FC<{
+  importedFiles: Record<ImportKind, string | null>;
+  onImportClick: () => void;
+  onRestore: (kind: ImportKind) => void;
+}> = ({ importedFiles, onImportClick, onRestore }) => {
+  const imported = (Object.keys(DATASET_LABELS) as ImportKind[]).filter(kind => importedFiles[kind]);
+
+  return (
+    <div className="p-4 border-b border-gray-200 dark:border-slate-800/50">
+      <span className="block text-sm font-medium text-gray-500 dark:text-slate-400 mb-2">
+        Data
+      </span>
+      <button
+        onClick={onImportClick}
+        className="px-3 py-1.5 text-xs font-medium rounded-md border transition-colors bg-gray-100 dark:bg-slate-800 text-gray-700 dark:text-slate-300 border-gray-300 dark:border-slate-700 hover:bg-gray-200 dark:hover:bg-slate-700"
+      >
+        Import data...
+      </button>
+      {imported.length > 0 && (
+        <ul className="mt-2 space-y-1">
+          {imported.map(kind => (
+            <li key={kind} className="flex items-center justify-between gap-2 text-xs text-gray-600 dark:text-slate-300">
+              <span className="min-w-0 truncate" title={importedFiles[kind] ?? undefined}>
+                {DATASET_LABELS[kind]}: {importedFiles[kind]}
+              </span>
+              <button
+                onClick={() => onRestore(kind)}
+                className="flex-shrink-0 text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                Restore bundled
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+// Adds the value when missing and removes it when present
+const toggleValue = <T,>(values: T[], value: T) =>
+  values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+
+const ConflictFilter: React.FC<{
+  conflicts: ConflictZone[];
+  showConflicts: boolean;
+  filters: ConflictFilters;
+  selectedConflict: string | null;
+  onShowConflictsChange: (show: boolean) => void;
+  onFiltersChange: (filters: Partial<ConflictFilters>) => void;
+  onConflictSelect: (id: string) => void;
+}> = ({ conflicts, showConflicts, filters, selectedConflict, onShowConflictsChange, onFiltersChange, onConflictSelect }) => {
+  const matchingConflicts = useMemo(() => filterConflicts(conflicts, filters), [conflicts, filters]);
+
+  const chipClass = (active: boolean) => `px-2 py-1 text-xs font-medium rounded-md border transition-colors ${
+    active
+      ? 'bg-blue-500/20 dark:bg-blue-600/30 text-blue-800 dark:text-white border-blue-400'
+      : 'bg-gray-100 dark:bg-slate-800 text-gray-700 dark:text-slate-300 border-gray-300 dark:border-slate-700 hover:bg-gray-200 dark:hover:bg-slate-700'
+  }`;
+
+  const parseYear = (value: string) => (value === '' ? null : Number(value));
+
+  return (
+    <div className="p-4 border-b border-gray-200 dark:border-slate-800/50">
+      <label className="flex items-center gap-2 text-sm font-medium text-gray-500 dark:text-slate-400">
+        <input
+          type="checkbox"
+          checked={showConflicts}
+          onChange={(e) => onShowConflictsChange(e.target.checked)}
+          className="accent-blue-500"
+        />
+        Show conflict overlay
+      </label>
+      {showConflicts && (
+        <div className="mt-3 space-y-3">
+          <div className="flex flex-wrap gap-1">
+            {CONFLICT_TYPES.map(type => (
+              <button
+                key={type}
+                onClick={() => onFiltersChange({ types: toggleValue(filters.types, type) })}
+                aria-pressed={filters.types.includes(type)}
+                className={chipClass(filters.types.includes(type))}
+              >
+                {getConflictTypeLabel(type)}
+              </button>
+            ))}
+          </div>
+          <div className="flex flex-wrap gap-1">
+            {CONFLICT_INTENSITIES.map(intensity => (
+              <button
+                key={intensity}
+                onClick={() => onFiltersChange({ intensities: toggleValue(filters.intensities, intensity) })}
+                aria-pressed={filters.intensities.includes(intensity)}
+                className={chipClass(filters.intensities.includes(intensity))}
+              >
+                <span className="inline-block w-2 h-2 rounded-full mr-1" style={{ backgroundColor: CONFLICT_INTENSITY_COLORS[intensity] }} />
+                {getConflictIntensityLabel(intensity)}
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center gap-2 text-xs text-gray-500 dark:text-slate-400">
+            <span>Active</span>
+            <input
+              type="number"
+              aria-label="Active from year"
+              placeholder="From"
+              value={filters.fromYear ?? ''}
+              onChange={(e) => onFiltersChange({ fromYear: parseYear(e.target.value) })}
+              className="w-20 bg-gray-100 dark:bg-slate-800 border border-gray-300 dark:border-slate-700 text-gray-900 dark:text-white rounded-md p-1"
+            />
+            <span>–</span>
+            <input
+              type="number"
+              aria-label="Active until year"
+              placeholder="To"
+              value={filters.toYear ?? ''}
+              onChange={(e) => onFiltersChange({ toYear: parseYear(e.target.value) })}
+              className="w-20 bg-gray-100 dark:bg-slate-800 border border-gray-300 dark:border-slate-700 text-gray-900 dark:text-white rounded-md p-1"
+            />
+          </div>
+          {matchingConflicts.length > 0 ? (
+            <ul className="space-y-1">
+              {matchingConflicts.map(conflict => (
+                <li key={conflict.id}>
+                  <button
+                    onClick={() => onConflictSelect(conflict.id)}
+                    className={`w-full text-left px-2 py-1 text-xs rounded-md transition-colors ${
+                      conflict.id === selectedConflict
+                        ? 'bg-blue-500/20 dark:bg-blue-600/30 text-blue-800 dark:text-white'
+                        : 'text-gray-700 dark:text-slate-300 hover:bg-gray-100 dark:hover:bg-slate-800'
+                    }`}
+                  >
+                    <span className="inline-block w-2 h-2 rounded-full mr-1.5" style={{ backgroundColor: CONFLICT_INTENSITY_COLORS[conflict.intensity] }} />
+                    {conflict.name}
+                    <span className="text-gray-400 dark:text-slate-500"> • {getConflictYearsLabel(conflict)}</span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-xs text-gray-500 dark:text-slate-400">No conflicts match these filters.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const Sidebar: React.FC<SidebarProps> = ({ countries, alliances, detectedBlocs, conflicts }) => {
   const dispatch = useAppDispatch();
   const selectedCountry = useAppSelector(selectSelectedCountry);
   const selectedAlliance = useAppSelector(selectSelectedAlliance);
   const projectionName = useAppSelector(selectProjectionType);
+  const mapRenderer = useAppSelector(selectMapRenderer);
+  const boundaryPerspective = useAppSelector(selectBoundaryPerspective);
   const searchTerm = useAppSelector(selectSearchTerm);
   const isCollapsed = useAppSelector(selectSidebarCollapsed);
+  const scoreDimension = useAppSelector(selectScoreDimension);
+  const dimensionWeights = useAppSelector(selectDimensionWeights);
+  const colorMode = useAppSelector(selectMapColorMode);
+  const analysisPanel = useAppSelector(selectAnalysisPanel);
+  const activeView = useAppSelector(selectActiveView);
+  const showConflicts = useAppSelector(selectShowConflicts);
+  const conflictFilters = useAppSelector(selectConflictFilters);
+  const selectedConflict = useAppSelector(selectSelectedConflict);
+  const arcSettings = useAppSelector(selectArcSettings);
+  const importedFiles = useAppSelector(selectImportedFiles);
+  const { restoreBundled } = useDatasetImport();
+  const [isImportOpen, setIsImportOpen] = useState(false);
+
+  const arcAllianceNames = useMemo(
+    () => [...Object.keys(alliances || {}).sort(), ...Object.keys(detectedBlocs)],
+    [alliances, detectedBlocs]
+  );
 
   const handleCountrySelect = useCallback((country: Feature | null) => {
     dispatch(selectCountryAction(country));
@@ -122,14 +609,72 @@ const Sidebar: React.FC<SidebarProps> = ({ countries, alliances }) => {
     dispatch(setMobileMenuOpen(false));
   }, [dispatch]);
 
+  const handleCountryCompare = useCallback((country: Feature) => {
+    dispatch(compareCountry(country));
+    dispatch(setMobileMenuOpen(false));
+  }, [dispatch]);
+
   const handleAllianceSelect = useCallback((alliance: string | null) => {
     dispatch(selectAllianceAction(alliance));
   }, [dispatch]);
 
-  const handleProjectionChange = useCallback((name: 'geoMercator' | 'geoOrthographic') => {
+  const handleProjectionChange = useCallback((name: ProjectionType) => {
     dispatch(setProjection(name));
   }, [dispatch]);
 
+  const handleRendererChange = useCallback((renderer: MapRenderer) => {
+    dispatch(setMapRenderer(renderer));
+  }, [dispatch]);
+
+  const handlePerspectiveChange = useCallback((perspective: BoundaryPerspective) => {
+    dispatch(setBoundaryPerspective(perspective));
+  }, [dispatch]);
+
+  const handleDimensionChange = useCallback((dimension: ScoreDimension) => {
+    dispatch(setScoreDimension(dimension));
+  }, [dispatch]);
+
+  const handleWeightChange = useCallback((dimension: RelationshipDimension, weight: number) => {
+    dispatch(setDimensionWeight({ dimension, weight }));
+  }, [dispatch]);
+
+  const handleViewChange = useCallback((view: ViewType) => {
+    dispatch(setActiveView(view));
+  }, [dispatch]);
+
+  const handleColorModeChange = useCallback((mode: MapColorMode) => {
+    dispatch(setMapColorMode(mode));
+  }, [dispatch]);
+
+  const handlePanelToggle = useCallback((panel: AnalysisPanel) => {
+    dispatch(setAnalysisPanel(analysisPanel === panel ? null : panel));
+  }, [dispatch, analysisPanel]);
+
+  const handleShowConflictsChange = useCallback((show: boolean) => {
+    dispatch(setShowConflicts(show));
+  }, [dispatch]);
+
+  const handleConflictFiltersChange = useCallback((filters: Partial<ConflictFilters>) => {
+    dispatch(setConflictFilters(filters));
+  }, [dispatch]);
+
+  const handleConflictSelect = useCallback((id: string) => {
+    dispatch(selectConflict(id));
+    dispatch(setMobileMenuOpen(false));
+  }, [dispatch]);
+
+  const handleArcSettingsChange = useCallback((settings: Partial<ArcSettings>) => {
+    dispatch(setArcSettings(settings));
+  }, [dispatch]);
+
+  const handleImportOpen = useCallback(() => setIsImportOpen(true), []);
+  const handleImportClose = useCallback(() => setIsImportOpen(false), []);
+
+  const handleRestoreBundled = useCallback((kind: ImportKind) => {
+    restoreBundled(kind);
+    dispatch(setImportedFile({ kind, fileName: null }));
+  }, [dispatch, restoreBundled]);
+
   const handleSearch = useCallback((term: string) => {
     dispatch(setSearchTerm(term));
   }, [dispatch]);
@@ -145,15 +690,16 @@ const Sidebar: React.FC<SidebarProps> = ({ countries, alliances }) => {
   const filteredCountries = useMemo(() => {
     let countriesToShow = countries;
 
-    if (selectedAlliance && alliances && alliances[selectedAlliance]) {
-      const memberCodes = new Set(alliances[selectedAlliance]);
+    const members = selectedAlliance ? (alliances?.[selectedAlliance] || detectedBlocs[selectedAlliance]) : null;
+    if (members) {
+      const memberCodes = new Set(members);
       countriesToShow = countries.filter(c => memberCodes.has(getCountryCode(c) ?? ''));
     }
 
     return countriesToShow
       .filter(c => c.properties?.name.toLowerCase().includes(searchTerm.toLowerCase()))
       .sort((a, b) => a.properties?.name.localeCompare(b.properties?.name));
-  }, [countries, searchTerm, selectedAlliance, alliances]);
+  }, [countries, searchTerm, selectedAlliance, alliances, detectedBlocs]);
 
   const selectedCountryCode = getCountryCode(selectedCountry);
 
@@ -248,15 +794,66 @@ const Sidebar: React.FC<SidebarProps> = ({ countries, alliances }) => {
         className="bg-white dark:bg-slate-900/95 backdrop-blur-sm border-r border-gray-200 dark:border-slate-800/50 shadow-2xl flex flex-col h-full z-20 overflow-hidden"
       >
         <div className="h-full flex flex-col w-[288px] pt-15 md:pt-0">
-          <ProjectionSwitcher
-            projectionName={projectionName}
-            onProjectionChange={handleProjectionChange}
-          />
-          <AllianceFilter
-            alliances={alliances || {}}
-            selectedAlliance={selectedAlliance}
-            onAllianceSelect={handleAllianceSelect}
-          />
+          {/* Map and analysis settings scroll on their own so the country list keeps its space */}
+          <div className="flex-shrink-0 max-h-[55%] overflow-y-auto scrollbar-thin scrollbar-track-transparent scrollbar-thumb-transparent hover:scrollbar-thumb-slate-600">
+            <ViewSwitcher
+              activeView={activeView}
+              onViewChange={handleViewChange}
+            />
+            {activeView === 'map' && (
+              <ProjectionSwitcher
+                projectionName={projectionName}
+                renderer={mapRenderer}
+                perspective={boundaryPerspective}
+                onProjectionChange={handleProjectionChange}
+                onRendererChange={handleRendererChange}
+                onPerspectiveChange={handlePerspectiveChange}
+              />
+            )}
+            <ColorModeSwitcher
+              colorMode={colorMode}
+              onColorModeChange={handleColorModeChange}
+            />
+            {activeView === 'map' && (
+              <ArcControls
+                settings={arcSettings}
+                allianceNames={arcAllianceNames}
+                onSettingsChange={handleArcSettingsChange}
+              />
+            )}
+            <DimensionSelector
+              scoreDimension={scoreDimension}
+              weights={dimensionWeights}
+              onDimensionChange={handleDimensionChange}
+              onWeightChange={handleWeightChange}
+            />
+            <AnalysisMenu
+              activePanel={analysisPanel}
+              onPanelToggle={handlePanelToggle}
+            />
+            <AllianceFilter
+              alliances={alliances || {}}
+              detectedBlocs={detectedBlocs}
+              selectedAlliance={selectedAlliance}
+              onAllianceSelect={handleAllianceSelect}
+            />
+            {activeView === 'map' && (
+              <ConflictFilter
+                conflicts={conflicts}
+                showConflicts={showConflicts}
+                filters={conflictFilters}
+                selectedConflict={selectedConflict}
+                onShowConflictsChange={handleShowConflictsChange}
+                onFiltersChange={handleConflictFiltersChange}
+                onConflictSelect={handleConflictSelect}
+              />
+            )}
+            <DataImport
+              importedFiles={importedFiles}
+              onImportClick={handleImportOpen}
+              onRestore={handleRestoreBundled}
+            />
+          </div>
           <SearchBar ref={searchInputRef} searchTerm={searchTerm} setSearchTerm={handleSearch} />
           <motion.nav 
             variants={listVariants}
@@ -283,7 +880,7 @@ const Sidebar: React.FC<SidebarProps> = ({ countries, alliances }) => {
                 return (
                   <motion.li key={uniqueKey} variants={itemVariants}>
                     <button
-                      onClick={() => handleCountrySelect(country)}
+                      onClick={(e) => (e.shiftKey ? handleCountryCompare(country) : handleCountrySelect(country))}
                       className={buttonClass}
                     >
                       {getCountryName(country)}
@@ -295,6 +892,7 @@ const Sidebar: React.FC<SidebarProps> = ({ countries, alliances }) => {
           </motion.nav>
         </div>
       </motion.aside>
+      {isImportOpen && <ImportDialog countries={countries} onClose={handleImportClose} />}
     </div>
   );
 };
@@ -0,0 +1,96 @@
+// src/components/TimelineSlider.tsx
+import React, { memo, useCallback, useEffect } from 'react';
+import { useAppSelector, useAppDispatch } from '../store/hooks';
+import { setSelectedYear, setTimelinePlaying, selectSelectedYear, selectTimelinePlaying } from '../store/slices/uiSlice';
+
+interface TimelineSliderProps {
+  years: number[];
+}
+
+// Time each year stays on screen during playback. Longer than the map's
+// fill transition so that every step finishes animating before the next one.
+const PLAYBACK_STEP_MS = 1200;
+
+const TimelineSliderInternal: React.FC<TimelineSliderProps> = ({ years }) => {
+  const dispatch = useAppDispatch();
+  const selectedYear = useAppSelector(selectSelectedYear);
+  const isPlaying = useAppSelector(selectTimelinePlaying);
+
+  const firstYear = years[0];
+  const lastYear = years[years.length - 1];
+  const currentYear = selectedYear ?? lastYear;
+
+  const handleYearChange = useCallback((year: number) => {
+    // The latest year is stored as null so that the baseline data is used as-is
+    dispatch(setSelectedYear(year >= lastYear ? null : year));
+  }, [dispatch, lastYear]);
+
+  const handleTogglePlay = useCallback(() => {
+    if (isPlaying) {
+      dispatch(setTimelinePlaying(false));
+      return;
+    }
+    // Restart from the beginning when playback is started at the end of the timeline
+    if (currentYear >= lastYear) {
+      dispatch(setSelectedYear(firstYear));
+    }
+    dispatch(setTimelinePlaying(true));
+  }, [dispatch, isPlaying, currentYear, firstYear, lastYear]);
+
+  // Effect to step through the years while playing
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    const timer = window.setTimeout(() => {
+      if (currentYear >= lastYear) {
+        dispatch(setTimelinePlaying(false));
+      } else {
+        handleYearChange(currentYear + 1);
+      }
+    }, PLAYBACK_STEP_MS);
+
+    return () => window.clearTimeout(timer);
+  }, [isPlaying, currentYear, lastYear, dispatch, handleYearChange]);
+
+  // Stop playback if the component goes away mid-animation
+  useEffect(() => () => { dispatch(setTimelinePlaying(false)); }, [dispatch]);
+
+  if (years.length < 2) return null;
+
+  return (
+    <div className="w-full flex items-center gap-3">
+      <button
+        onClick={handleTogglePlay}
+        className="flex-shrink-0 p-2 rounded-full bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
+        aria-label={isPlaying ? 'Pause timeline' : 'Play timeline'}
+      >
+        {isPlaying ? (
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="currentColor" viewBox="0 0 24 24"><path d="M6 5h4v14H6zM14 5h4v14h-4z" /></svg>
+        ) : (
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="currentColor" viewBox="0 0 24 24"><path d="M7 5v14l11-7z" /></svg>
+        )}
+      </button>
+      <div className="flex-1">
+        <label htmlFor="timeline-slider" className="sr-only">Year</label>
+        <input
+          id="timeline-slider"
+          type="range"
+          min={firstYear}
+          max={lastYear}
+          step={1}
+          value={currentYear}
+          onChange={(e) => handleYearChange(Number(e.target.value))}
+          className="w-full accent-blue-500 cursor-pointer"
+        />
+        <div className="flex justify-between text-xs text-gray-600 dark:text-gray-300">
+          <span>{firstYear}</span>
+          <span>{lastYear}</span>
+        </div>
+      </div>
+      <span className="w-12 text-right font-bold text-lg text-gray-900 dark:text-white tabular-nums">{currentYear}</span>
+    </div>
+  );
+};
+
+const TimelineSlider = memo(TimelineSliderInternal);
+export default TimelineSlider;
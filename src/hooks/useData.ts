@@ -1,13 +1,24 @@
-import { useQuery } from '@tanstack/react-query';
-import type { FeatureCollection } from 'geojson';
-import type { RelationshipData } from '../types/data';
+import { useCallback, useMemo } from 'react';
+import { keepPreviousData, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { RelationshipData, RelationshipDimensionData, RelationshipHistory } from '../types/data';
+import type { BoundaryPerspective } from '../types/boundary';
+import type { AllianceData, ImportKind } from '../Utils/Import';
+import { parseConflictZones } from '../Utils/Conflicts';
+import { getMapDetailLevel, parseWorldTopology, type MapDetail, type WorldTopology } from '../Utils/WorldMap';
 
-const fetchWorldMapData = async () => {
-  const res = await fetch('/data/world_map_medium.json');
+// Datasets the import dialog can replace. The bundled files don't change while
+// the app is open, so they're never refetched, which also keeps an import in place.
+const IMPORT_QUERY_KEYS: Record<ImportKind, string[]> = {
+  relationships: ['relationshipsData'],
+  alliances: ['alliancesData'],
+};
+
+const fetchWorldMapData = async (detail: MapDetail) => {
+  const res = await fetch(`/data/${getMapDetailLevel(detail).file}`);
   if (!res.ok) {
     throw new Error('Network response was not ok');
   }
-  return res.json() as Promise<FeatureCollection>;
+  return res.json() as Promise<WorldTopology>;
 };
 
 const fetchRelationshipsData = async () => {
@@ -18,32 +29,97 @@ const fetchRelationshipsData = async () => {
   return res.json() as Promise<RelationshipData>;
 };
 
+const fetchRelationshipHistoryData = async () => {
+  const res = await fetch('/data/relationships_history.json');
+  if (!res.ok) {
+    throw new Error('Network response was not ok');
+  }
+  return res.json() as Promise<RelationshipHistory>;
+};
+
+const fetchRelationshipDimensionsData = async () => {
+  const res = await fetch('/data/relationship_dimensions.json');
+  if (!res.ok) {
+    throw new Error('Network response was not ok');
+  }
+  return res.json() as Promise<RelationshipDimensionData>;
+};
+
 const fetchAlliancesData = async () => {
   const res = await fetch('/data/alliances.json');
   if (!res.ok) {
     throw new Error('Network response was not ok');
   }
-  return res.json() as Promise<{ [key: string]: string[] }>;
+  return res.json() as Promise<AllianceData>;
+};
+
+const fetchConflictsData = async () => {
+  const res = await fetch('/data/conflicts.json');
+  if (!res.ok) {
+    throw new Error('Network response was not ok');
+  }
+  return parseConflictZones(await res.json());
 };
 
-export const useWorldMapData = () => {
+// Keeps showing the current level of detail while the next one loads. Switching the
+// boundary perspective only re-derives the features from the cached topology.
+export const useWorldMapData = (detail: MapDetail, perspective: BoundaryPerspective) => {
+  const select = useCallback((topology: WorldTopology) => parseWorldTopology(topology, perspective), [perspective]);
   return useQuery({
-    queryKey: ['worldMapData'],
-    queryFn: fetchWorldMapData,
+    queryKey: ['worldMapData', detail],
+    queryFn: () => fetchWorldMapData(detail),
+    placeholderData: keepPreviousData,
+    select,
   });
 };
 
 export const useRelationshipsData = (options: { enabled: boolean }) => {
   return useQuery({
-    queryKey: ['relationshipsData'],
+    queryKey: IMPORT_QUERY_KEYS.relationships,
     queryFn: fetchRelationshipsData,
+    staleTime: Infinity,
+    ...options,
+  });
+};
+
+export const useRelationshipHistoryData = (options: { enabled: boolean }) => {
+  return useQuery({
+    queryKey: ['relationshipHistoryData'],
+    queryFn: fetchRelationshipHistoryData,
+    ...options,
+  });
+};
+
+export const useRelationshipDimensionsData = (options: { enabled: boolean }) => {
+  return useQuery({
+    queryKey: ['relationshipDimensionsData'],
+    queryFn: fetchRelationshipDimensionsData,
     ...options,
   });
 };
 
 export const useAlliancesData = () => {
   return useQuery({
-    queryKey: ['alliancesData'],
+    queryKey: IMPORT_QUERY_KEYS.alliances,
     queryFn: fetchAlliancesData,
+    staleTime: Infinity,
+  });
+};
+
+export const useConflictsData = (options: { enabled: boolean }) => {
+  return useQuery({
+    queryKey: ['conflictsData'],
+    queryFn: fetchConflictsData,
+    ...options,
   });
 };
+
+// Swaps imported data in behind useRelationshipsData/useAlliancesData, or goes back to the bundled file
+export const useDatasetImport = () => {
+  const queryClient = useQueryClient();
+  return useMemo(() => ({
+    importRelationships: (data: RelationshipData) => queryClient.setQueryData(IMPORT_QUERY_KEYS.relationships, data),
+    importAlliances: (data: AllianceData) => queryClient.setQueryData(IMPORT_QUERY_KEYS.alliances, data),
+    restoreBundled: (kind: ImportKind) => queryClient.resetQueries({ queryKey: IMPORT_QUERY_KEYS[kind] }),
+  }), [queryClient]);
+};
@@ -1,24 +1,48 @@
-import { useEffect } from 'react';
+import { useEffect, useRef } from 'react';
 import { useSearchParams } from 'react-router-dom';
 import { useAppDispatch, useAppSelector } from '../store/hooks';
 import {
   selectCountry,
+  compareCountry,
   selectAlliance,
   setProjection,
+  setActiveView,
+  setArcSettings,
+  setBoundaryPerspective,
   selectSelectedCountry,
+  selectComparedCountry,
   selectSelectedAlliance,
   selectProjectionType,
+  selectActiveView,
+  selectArcSettings,
+  selectBoundaryPerspective,
 } from '../store/slices/uiSlice';
 import type { Feature } from 'geojson';
 import { getCountryCode } from '../Utils/Format_country_name';
+import { findCountryByCode } from '../Utils/CountryCodes';
+import { DEFAULT_ARC_SETTINGS, MAX_ARC_COUNT, MAX_ARC_THRESHOLD, type ArcSettings } from '../Utils/Arcs';
+import { BOUNDARY_PERSPECTIVES, type BoundaryPerspective } from '../types/boundary';
+
+// Reads an integer parameter, ignoring missing or out-of-range values
+const parseIntParam = (value: string | null, min: number, max: number) => {
+  if (value === null) return undefined;
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed >= min && parsed <= max ? parsed : undefined;
+};
 
 export const useUrlState = (countries: Feature[] = []) => {
   const dispatch = useAppDispatch();
   const [searchParams, setSearchParams] = useSearchParams();
 
   const selectedCountry = useAppSelector(selectSelectedCountry);
+  const comparedCountry = useAppSelector(selectComparedCountry);
   const selectedAlliance = useAppSelector(selectSelectedAlliance);
   const projection = useAppSelector(selectProjectionType);
+  const activeView = useAppSelector(selectActiveView);
+  const arcSettings = useAppSelector(selectArcSettings);
+  const boundaryPerspective = useAppSelector(selectBoundaryPerspective);
+  // The URL is applied once, as soon as there are features to select
+  const urlApplied = useRef(false);
 
   // Update URL from state
   useEffect(() => {
@@ -29,34 +53,93 @@ export const useUrlState = (countries: Feature[] = []) => {
         params.set('country', countryCode);
       }
     }
+    if (comparedCountry) {
+      const compareCode = getCountryCode(comparedCountry);
+      if (compareCode) {
+        params.set('compare', compareCode);
+      }
+    }
     if (selectedAlliance) {
       params.set('alliance', selectedAlliance);
     }
     if (projection) {
       params.set('projection', projection);
     }
+    if (activeView !== 'map') {
+      params.set('view', activeView);
+    }
+    if (boundaryPerspective !== 'default') {
+      params.set('boundaries', boundaryPerspective);
+    }
+    // Arc settings are only written when they differ from the defaults
+    if (arcSettings.count !== DEFAULT_ARC_SETTINGS.count) {
+      params.set('arcs', String(arcSettings.count));
+    }
+    if (arcSettings.threshold !== DEFAULT_ARC_SETTINGS.threshold) {
+      params.set('arcMin', String(arcSettings.threshold));
+    }
+    if (arcSettings.direction !== DEFAULT_ARC_SETTINGS.direction) {
+      params.set('arcDir', arcSettings.direction);
+    }
+    if (arcSettings.alliance) {
+      params.set('arcAlliance', arcSettings.alliance);
+    }
     setSearchParams(params, { replace: true });
-  }, [selectedCountry, selectedAlliance, projection, setSearchParams]);
+  }, [selectedCountry, comparedCountry, selectedAlliance, projection, activeView, boundaryPerspective, arcSettings, setSearchParams]);
 
-  // Read state from URL on initial load
+  // Read state from URL on initial load. Later URL writes and level-of-detail
+  // feature swaps must not reapply it: selecting the country again would clear
+  // the comparison and the highlighted triangle
   useEffect(() => {
-    if (!countries || countries.length === 0) return;
+    if (urlApplied.current || !countries || countries.length === 0) return;
+    urlApplied.current = true;
 
     const countryId = searchParams.get('country');
+    const compareId = searchParams.get('compare');
     const allianceName = searchParams.get('alliance');
     const projectionType = searchParams.get('projection');
+    const viewType = searchParams.get('view');
+    const arcDirection = searchParams.get('arcDir');
 
     if (countryId) {
-      const countryToSelect = countries.find((c) => getCountryCode(c) === countryId);
+      const countryToSelect = findCountryByCode(countries, countryId);
       if (countryToSelect) {
         dispatch(selectCountry(countryToSelect));
+        const countryToCompare = compareId ? findCountryByCode(countries, compareId) : null;
+        if (countryToCompare) {
+          dispatch(compareCountry(countryToCompare));
+        }
       }
     } else if (allianceName) {
       dispatch(selectAlliance(allianceName));
     }
 
-    if (projectionType === 'geoMercator' || projectionType === 'geoOrthographic') {
+    if (projectionType === 'geoMercator' || projectionType === 'geoOrthographic' || projectionType === 'globe3d') {
       dispatch(setProjection(projectionType));
     }
+
+    if (viewType === 'network' || viewType === 'matrix') {
+      dispatch(setActiveView(viewType));
+    }
+
+    const arcSettingsFromUrl: Partial<ArcSettings> = {};
+    const arcCount = parseIntParam(searchParams.get('arcs'), 1, MAX_ARC_COUNT);
+    const arcThreshold = parseIntParam(searchParams.get('arcMin'), 0, MAX_ARC_THRESHOLD);
+    const arcAlliance = searchParams.get('arcAlliance');
+    if (arcCount !== undefined) arcSettingsFromUrl.count = arcCount;
+    if (arcThreshold !== undefined) arcSettingsFromUrl.threshold = arcThreshold;
+    if (arcDirection === 'allies' || arcDirection === 'adversaries') arcSettingsFromUrl.direction = arcDirection;
+    if (arcAlliance) arcSettingsFromUrl.alliance = arcAlliance;
+    dispatch(setArcSettings(arcSettingsFromUrl));
   }, [countries, dispatch, searchParams]);
-};
\ No newline at end of file
+
+  // The boundary perspective decides which features are loaded, so it's read
+  // separately: rereading it when those features change would undo a switch
+  // before the URL has caught up
+  useEffect(() => {
+    const boundaries = searchParams.get('boundaries');
+    if (BOUNDARY_PERSPECTIVES.includes(boundaries as BoundaryPerspective)) {
+      dispatch(setBoundaryPerspective(boundaries as BoundaryPerspective));
+    }
+  }, [dispatch, searchParams]);
+};
@@ -1,9 +1,16 @@
-import { useCallback, useRef } from 'react';
+import { Suspense, lazy, useCallback, useMemo, useRef } from 'react';
 
 // Import Redux hooks and actions
 import { useAppDispatch, useAppSelector } from '../store/hooks';
-import { toggleMobileMenu, setMobileMenuOpen, selectMobileMenuOpen, selectSelectedCountry } from '../store/slices/uiSlice';
-import { useWorldMapData, useRelationshipsData, useAlliancesData } from '../hooks/useData';
+import { toggleMobileMenu, setMobileMenuOpen, selectMobileMenuOpen, selectSelectedCountry, selectSelectedAlliance, selectComparedCountry, selectSelectedYear, selectScoreDimension, selectDimensionWeights, selectAnalysisPanel, selectMapColorMode, selectActiveView, selectProjectionType, selectMapRenderer, selectShowConflicts, selectSelectedConflict, selectMapDetail, selectBoundaryPerspective } from '../store/slices/uiSlice';
+import { selectRelationshipOverlay } from '../store/slices/dataSlice';
+import { selectActiveScenario } from '../store/slices/scenarioSlice';
+import { useWorldMapData, useRelationshipsData, useRelationshipHistoryData, useRelationshipDimensionsData, useAlliancesData, useConflictsData } from '../hooks/useData';
+import { getHistoryYears, getRelationshipSnapshot } from '../Utils/Timeline';
+import { applyScoreDimension } from '../Utils/Dimensions';
+import { applyRelationshipOverlay } from '../Utils/Overlay';
+import { simulateScenario, type ScenarioResult } from '../Utils/Scenario';
+import { getDetectedBlocAlliances } from '../Utils/Communities';
 import { useUrlState } from '../hooks/useUrlState';
 
 // Import components
@@ -11,17 +18,40 @@ import Header from '../components/Header';
 import Footer from '../components/Footer';
 import Sidebar from '../components/Sidebar';
 import MapChart from '../components/MapChart';
-import type { FeatureCollection } from 'geojson';
+import CanvasMapChart from '../components/CanvasMapChart';
+import NetworkGraph from '../components/NetworkGraph';
+import MatrixView from '../components/MatrixView';
 import InfoPanel from '../components/InfoPanel';
+import ComparePanel from '../components/ComparePanel';
+import AsymmetryPanel from '../components/AsymmetryPanel';
+import BlocsPanel from '../components/BlocsPanel';
+import RankingsPanel from '../components/RankingsPanel';
+import BalancePanel from '../components/BalancePanel';
+import RoutesPanel from '../components/RoutesPanel';
+import ScenarioPanel from '../components/ScenarioPanel';
+import AlliancePanel from '../components/AlliancePanel';
+import ConflictPanel from '../components/ConflictPanel';
+import TimelineSlider from '../components/TimelineSlider';
+import type { RelationshipData } from '../types/data';
+import type { AllianceData } from '../Utils/Import';
+import type { ConflictZone } from '../types/conflict';
+import type { WorldMapData } from '../Utils/WorldMap';
+
+// three.js is only downloaded once the 3D globe is picked
+const Globe3D = lazy(() => import('../components/Globe3D'));
 
 // This component will only be rendered once the data has loaded.
-const MainContent = ({ worldMapData, alliancesData, relationshipsData }: { worldMapData: FeatureCollection, alliancesData: any, relationshipsData: any }) => {
+const MainContent = ({ worldMapData, alliancesData, detectedBlocs, mapAlliances, conflicts, relationshipsData, scenarioResult, timelineYears }: { worldMapData: WorldMapData, alliancesData: AllianceData, detectedBlocs: { [key: string]: string[] }, mapAlliances: { [key: string]: string[] }, conflicts: ConflictZone[], relationshipsData: RelationshipData | undefined, scenarioResult: ScenarioResult | null, timelineYears: number[] }) => {
   const dispatch = useAppDispatch();
   const isMobileMenuOpen = useAppSelector(selectMobileMenuOpen);
+  const analysisPanel = useAppSelector(selectAnalysisPanel);
+  const activeView = useAppSelector(selectActiveView);
+  const projectionName = useAppSelector(selectProjectionType);
+  const mapRenderer = useAppSelector(selectMapRenderer);
   const mapRef = useRef<SVGSVGElement>(null);
 
   // This hook is now called here, where worldMapData is guaranteed to exist.
-  useUrlState(worldMapData.features);
+  useUrlState(worldMapData.countries.features);
 
   const closeMobileMenu = useCallback(() => dispatch(setMobileMenuOpen(false)), [dispatch]);
 
@@ -43,7 +73,7 @@ const MainContent = ({ worldMapData, alliancesData, relationshipsData }: { world
       {/* Sidebar */}
       <div className={`fixed md:static inset-y-0 left-0 z-30 transform ${isMobileMenuOpen ? 'translate-x-0' : '-translate-x-full'} md:translate-x-0 transition-transform duration-300 ease-in-out`}>
         <div className="h-full bg-white/80 dark:bg-gray-900/80 backdrop-blur-lg md:backdrop-blur-sm border-r border-gray-200 dark:border-gray-700 shadow-xl md:shadow-none">
-          <Sidebar countries={worldMapData.features} alliances={alliancesData} />
+          <Sidebar countries={worldMapData.countries.features} alliances={alliancesData} detectedBlocs={detectedBlocs} conflicts={conflicts} />
         </div>
       </div>
 
@@ -59,7 +89,42 @@ const MainContent = ({ worldMapData, alliancesData, relationshipsData }: { world
 
       {/* Map */}
       <div className="flex-1 relative w-full h-full">
-        <MapChart ref={mapRef} countries={worldMapData.features} relationshipData={relationshipsData || {}} alliances={alliancesData} />
+        {activeView === 'network' ? (
+          <NetworkGraph countries={worldMapData.countries.features} relationshipData={relationshipsData || {}} alliances={alliancesData} />
+        ) : activeView === 'matrix' ? (
+          <MatrixView countries={worldMapData.countries.features} relationshipData={relationshipsData || {}} alliances={alliancesData} />
+        ) : projectionName === 'globe3d' ? (
+          <Suspense fallback={<div className="w-full h-full flex items-center justify-center">Loading 3D globe...</div>}>
+            <Globe3D countries={worldMapData.countries.features} borders={worldMapData.borders} disputedAreas={worldMapData.disputed} relationshipData={relationshipsData || {}} alliances={mapAlliances} scenarioDeltas={scenarioResult?.deltas} />
+          </Suspense>
+        ) : mapRenderer === 'canvas' ? (
+          <CanvasMapChart countries={worldMapData.countries.features} borders={worldMapData.borders} disputedAreas={worldMapData.disputed} relationshipData={relationshipsData || {}} alliances={mapAlliances} declaredAlliances={alliancesData} conflicts={conflicts} scenarioDeltas={scenarioResult?.deltas} />
+        ) : (
+          <MapChart ref={mapRef} countries={worldMapData.countries.features} borders={worldMapData.borders} disputedAreas={worldMapData.disputed} relationshipData={relationshipsData || {}} alliances={mapAlliances} declaredAlliances={alliancesData} conflicts={conflicts} scenarioDeltas={scenarioResult?.deltas} />
+        )}
+        {relationshipsData && analysisPanel === 'asymmetry' && (
+          <AsymmetryPanel countries={worldMapData.countries.features} relationshipData={relationshipsData} />
+        )}
+        {relationshipsData && analysisPanel === 'blocs' && (
+          <BlocsPanel countries={worldMapData.countries.features} relationshipData={relationshipsData} alliances={alliancesData} />
+        )}
+        {relationshipsData && analysisPanel === 'rankings' && (
+          <RankingsPanel countries={worldMapData.countries.features} relationshipData={relationshipsData} />
+        )}
+        {relationshipsData && analysisPanel === 'balance' && (
+          <BalancePanel relationshipData={relationshipsData} alliances={alliancesData} />
+        )}
+        {relationshipsData && analysisPanel === 'routes' && (
+          <RoutesPanel relationshipData={relationshipsData} />
+        )}
+        {relationshipsData && analysisPanel === 'scenarios' && (
+          <ScenarioPanel countries={worldMapData.countries.features} relationshipData={relationshipsData} result={scenarioResult} />
+        )}
+        {relationshipsData && timelineYears.length > 1 && (
+          <div className="absolute bottom-4 left-1/2 -translate-x-1/2 w-[min(28rem,calc(100%-2rem))] md:left-auto md:right-4 md:translate-x-0 bg-white/80 dark:bg-gray-800/60 px-4 py-3 rounded-xl shadow-2xl backdrop-blur-md border border-gray-200 dark:border-white/10">
+            <TimelineSlider years={timelineYears} />
+          </div>
+        )}
       </div>
     </>
   );
@@ -68,16 +133,73 @@ const MainContent = ({ worldMapData, alliancesData, relationshipsData }: { world
 
 export default function Home() {
   const selectedCountry = useAppSelector(selectSelectedCountry);
+  const comparedCountry = useAppSelector(selectComparedCountry);
+  const analysisPanel = useAppSelector(selectAnalysisPanel);
+  const mapColorMode = useAppSelector(selectMapColorMode);
+  const activeView = useAppSelector(selectActiveView);
+  const selectedAlliance = useAppSelector(selectSelectedAlliance);
+  const showConflicts = useAppSelector(selectShowConflicts);
+  const selectedConflict = useAppSelector(selectSelectedConflict);
+
+  // Relationship data is only needed once something on screen reads the whole matrix
+  const needsRelationships = !!selectedCountry || !!selectedAlliance || selectedConflict !== null || analysisPanel !== null || mapColorMode !== 'relationship' || activeView !== 'map';
+
+  // The map outlines are refetched at a finer level of detail as the map zooms in
+  const mapDetail = useAppSelector(selectMapDetail);
+  const boundaryPerspective = useAppSelector(selectBoundaryPerspective);
 
   // Fetch all necessary data
-  const { data: worldMapData, isLoading: isLoadingMap, error: mapError } = useWorldMapData();
+  const { data: worldMapData, isLoading: isLoadingMap, error: mapError } = useWorldMapData(mapDetail, boundaryPerspective);
   const { data: alliancesData, isLoading: isLoadingAlliances, error: alliancesError } = useAlliancesData();
   // --- CHANGE: Destructure specific loading and error states for relationships ---
   const { 
     data: relationshipsData, 
     isLoading: isLoadingRelationships, 
     error: relationshipsError 
-  } = useRelationshipsData({ enabled: !!selectedCountry });
+  } = useRelationshipsData({ enabled: needsRelationships });
+  const { data: relationshipHistory } = useRelationshipHistoryData({ enabled: needsRelationships });
+
+  // Conflicts are listed in the info panel and drawn by the overlay
+  const { data: conflictsData } = useConflictsData({ enabled: !!selectedCountry || showConflicts || selectedConflict !== null });
+  const conflicts = useMemo(() => conflictsData ?? [], [conflictsData]);
+
+  // Scores edited in the info panel replace the fetched ones everywhere
+  const relationshipOverlay = useAppSelector(selectRelationshipOverlay);
+  const relationshipsEdited = useMemo<RelationshipData | undefined>(
+    () => relationshipsData && applyRelationshipOverlay(relationshipsData, relationshipOverlay),
+    [relationshipsData, relationshipOverlay]
+  );
+
+  // Relationship data as of the year picked on the timeline
+  const selectedYear = useAppSelector(selectSelectedYear);
+  const timelineYears = useMemo(() => getHistoryYears(relationshipHistory), [relationshipHistory]);
+  const relationshipsSnapshot = useMemo<RelationshipData | undefined>(
+    () => relationshipsEdited && getRelationshipSnapshot(relationshipsEdited, relationshipHistory, selectedYear),
+    [relationshipsEdited, relationshipHistory, selectedYear]
+  );
+
+  // Project the snapshot onto the selected relationship dimension or weighted composite
+  const scoreDimension = useAppSelector(selectScoreDimension);
+  const dimensionWeights = useAppSelector(selectDimensionWeights);
+  const { data: relationshipDimensions } = useRelationshipDimensionsData({ enabled: needsRelationships && scoreDimension !== 'overall' });
+  const relationshipsView = useMemo<RelationshipData | undefined>(
+    () => relationshipsSnapshot && applyScoreDimension(relationshipsSnapshot, relationshipDimensions, scoreDimension, dimensionWeights),
+    [relationshipsSnapshot, relationshipDimensions, scoreDimension, dimensionWeights]
+  );
+
+  // What-if scenario played out on top of the scores currently shown
+  const activeScenario = useAppSelector(selectActiveScenario);
+  const scenarioResult = useMemo(
+    () => (relationshipsView && activeScenario ? simulateScenario(relationshipsView, activeScenario) : null),
+    [relationshipsView, activeScenario]
+  );
+
+  // Detected blocs act as extra, read-only alliances on the map, in the sidebar filter and in the alliance panel
+  const detectedBlocs = useMemo(
+    () => (relationshipsView ? getDetectedBlocAlliances(relationshipsView) : {}),
+    [relationshipsView]
+  );
+  const mapAlliances = useMemo(() => ({ ...alliancesData, ...detectedBlocs }), [alliancesData, detectedBlocs]);
 
   const isInitialLoading = isLoadingMap || isLoadingAlliances;
   // --- CHANGE: Only handle critical errors that prevent the map from loading ---
@@ -108,15 +230,44 @@ export default function Home() {
         <MainContent
           worldMapData={worldMapData}
           alliancesData={alliancesData}
-          relationshipsData={relationshipsData}
+          detectedBlocs={detectedBlocs}
+          mapAlliances={mapAlliances}
+          conflicts={conflicts}
+          relationshipsData={relationshipsView}
+          scenarioResult={scenarioResult}
+          timelineYears={timelineYears}
         />
         {/* --- CHANGE: Pass the specific loading and error states to InfoPanel --- */}
-        <InfoPanel
-          countries={worldMapData.features}
-          relationshipData={relationshipsData || {}}
-          isLoading={isLoadingRelationships}
-          error={relationshipsError}
-        />
+        {comparedCountry ? (
+          <ComparePanel
+            countries={worldMapData.countries.features}
+            relationshipData={relationshipsView || {}}
+            alliances={alliancesData}
+          />
+        ) : selectedConflict ? (
+          <ConflictPanel
+            countries={worldMapData.countries.features}
+            relationshipData={relationshipsView || {}}
+            conflicts={conflicts}
+            isLoading={isLoadingRelationships}
+          />
+        ) : selectedAlliance ? (
+          <AlliancePanel
+            countries={worldMapData.countries.features}
+            relationshipData={relationshipsView || {}}
+            alliances={mapAlliances}
+            isLoading={isLoadingRelationships}
+          />
+        ) : (
+          <InfoPanel
+            countries={worldMapData.countries.features}
+            relationshipData={relationshipsView || {}}
+            baselineData={relationshipsData}
+            conflicts={conflicts}
+            isLoading={isLoadingRelationships}
+            error={relationshipsError}
+          />
+        )}
       </main>
       <Footer />
     </div>
@@ -1,14 +1,33 @@
 import { configureStore } from '@reduxjs/toolkit';
 import dataReducer from './slices/dataSlice';
+import scenarioReducer from './slices/scenarioSlice';
 import uiReducer from './slices/uiSlice';
+import { storeOverlay } from '../Utils/Overlay';
+import { storeScenarios } from '../Utils/Scenario';
 
 export const store = configureStore({
   reducer: {
     data: dataReducer,
+    scenario: scenarioReducer,
     ui: uiReducer,
   },
 });
 
+// Keep the edited scores and saved scenarios in localStorage so they survive a reload
+let storedOverlay = store.getState().data.overlay;
+let storedScenarios = store.getState().scenario.scenarios;
+store.subscribe(() => {
+  const { data: { overlay }, scenario: { scenarios } } = store.getState();
+  if (overlay !== storedOverlay) {
+    storedOverlay = overlay;
+    storeOverlay(overlay);
+  }
+  if (scenarios !== storedScenarios) {
+    storedScenarios = scenarios;
+    storeScenarios(scenarios);
+  }
+});
+
 // Infer the `RootState` and `AppDispatch` types from the store itself
 export type RootState = ReturnType<typeof store.getState>;
 export type AppDispatch = typeof store.dispatch;
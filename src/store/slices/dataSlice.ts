@@ -1,20 +1,122 @@
-import { createSlice } from '@reduxjs/toolkit';
+import { createSlice, current, type PayloadAction } from '@reduxjs/toolkit';
+import type { RelationshipOverlay } from '../../types/data';
+import type { ImportKind } from '../../Utils/Import';
+import { loadStoredOverlay } from '../../Utils/Overlay';
+
+// Undo steps kept; older ones are dropped
+const MAX_UNDO_STEPS = 100;
 
 // Define the shape of our slice state
 interface DataState {
-  // This slice is now empty, but we keep it for potential future use
-  // or to be removed if it's no longer needed at all.
+  // Scores edited in the app, applied on top of the fetched relationship data
+  overlay: RelationshipOverlay;
+  // Earlier overlays to undo to, oldest first, and undone ones to redo
+  past: RelationshipOverlay[];
+  future: RelationshipOverlay[];
+  // Pair changed by the last edit; further edits of it (a slider drag) share one undo step
+  lastEditedPair: string | null;
+  // Name of the file each imported dataset came from; null while the bundled file is used
+  importedFiles: Record<ImportKind, string | null>;
 }
 
-// Initial state
-const initialState: DataState = {};
+// Initial state, with the edits stored by an earlier visit
+const initialState = (): DataState => ({
+  overlay: loadStoredOverlay(),
+  past: [],
+  future: [],
+  lastEditedPair: null,
+  importedFiles: { relationships: null, alliances: null },
+});
+
+// Copy of the overlay with one score set, or removed when undefined
+function withScore(overlay: RelationshipOverlay, source: string, partner: string, score: number | undefined): RelationshipOverlay {
+  const partners = { ...overlay[source] };
+  if (score === undefined) {
+    delete partners[partner];
+  } else {
+    partners[partner] = score;
+  }
+  const next = { ...overlay, [source]: partners };
+  if (Object.keys(partners).length === 0) delete next[source];
+  return next;
+}
+
+function pushUndoStep(state: DataState) {
+  state.past = [...current(state).past, current(state).overlay].slice(-MAX_UNDO_STEPS);
+  state.future = [];
+}
 
 // Create the slice
 const dataSlice = createSlice({
   name: 'data',
   initialState,
-  reducers: {},
+  reducers: {
+    // Edit one directed score; setting it back to its fetched value drops the edit
+    setRelationshipScore: (state, action: PayloadAction<{ source: string; partner: string; score: number; baseline: number | undefined }>) => {
+      const { source, partner, score, baseline } = action.payload;
+      const pair = `${source}>${partner}`;
+      if (state.lastEditedPair !== pair) pushUndoStep(state);
+      state.lastEditedPair = pair;
+      state.overlay = withScore(current(state).overlay, source, partner, score === baseline ? undefined : score);
+    },
+
+    // Drop the edit of one score
+    revertRelationshipScore: (state, action: PayloadAction<{ source: string; partner: string }>) => {
+      const { source, partner } = action.payload;
+      if (state.overlay[source]?.[partner] === undefined) return;
+      pushUndoStep(state);
+      state.lastEditedPair = null;
+      state.overlay = withScore(current(state).overlay, source, partner, undefined);
+    },
+
+    // Drop every edit (can be undone)
+    discardOverlay: (state) => {
+      if (Object.keys(state.overlay).length === 0) return;
+      pushUndoStep(state);
+      state.lastEditedPair = null;
+      state.overlay = {};
+    },
+
+    undoOverlay: (state) => {
+      const { past, future, overlay } = current(state);
+      if (past.length === 0) return;
+      state.overlay = past[past.length - 1];
+      state.past = past.slice(0, -1);
+      state.future = [overlay, ...future];
+      state.lastEditedPair = null;
+    },
+
+    redoOverlay: (state) => {
+      const { past, future, overlay } = current(state);
+      if (future.length === 0) return;
+      state.overlay = future[0];
+      state.past = [...past, overlay];
+      state.future = future.slice(1);
+      state.lastEditedPair = null;
+    },
+
+    // Record which file a dataset was imported from, or null once the bundled file is back
+    setImportedFile: (state, action: PayloadAction<{ kind: ImportKind; fileName: string | null }>) => {
+      state.importedFiles[action.payload.kind] = action.payload.fileName;
+    },
+  },
 });
 
+// Export actions
+export const {
+  setRelationshipScore,
+  revertRelationshipScore,
+  discardOverlay,
+  undoOverlay,
+  redoOverlay,
+  setImportedFile,
+} = dataSlice.actions;
+
 // Export the reducer
 export default dataSlice.reducer;
+
+// Export selectors
+export const selectRelationshipOverlay = (state: { data: DataState }) => state.data.overlay;
+export const selectCanUndoOverlay = (state: { data: DataState }) => state.data.past.length > 0;
+export const selectCanRedoOverlay = (state: { data: DataState }) => state.data.future.length > 0;
+export const selectImportedFiles = (state: { data: DataState }) => state.data.importedFiles;
@@ -0,0 +1,91 @@
+import { createSlice, type PayloadAction } from '@reduxjs/toolkit';
+import type { PropagationModel, Scenario, ScenarioShock } from '../../types/scenario';
+import { createScenario, loadStoredScenarios } from '../../Utils/Scenario';
+
+// Define the shape of our slice state
+interface ScenarioState {
+  // Saved scenarios, kept in localStorage
+  scenarios: Scenario[];
+  // Scenario shown in the panel and on the map
+  activeScenarioId: string | null;
+}
+
+// Initial state, with the scenarios saved by an earlier visit
+const initialState = (): ScenarioState => ({
+  scenarios: loadStoredScenarios(),
+  activeScenarioId: null,
+});
+
+const findScenario = (state: ScenarioState, id: string) => state.scenarios.find(scenario => scenario.id === id);
+
+// Create the slice
+const scenarioSlice = createSlice({
+  name: 'scenario',
+  initialState,
+  reducers: {
+    // Create an empty scenario and make it the active one
+    addScenario: (state, action: PayloadAction<string>) => {
+      const scenario = createScenario(action.payload);
+      state.scenarios.push(scenario);
+      state.activeScenarioId = scenario.id;
+    },
+
+    // Delete a scenario; deleting the active one leaves no scenario active
+    removeScenario: (state, action: PayloadAction<string>) => {
+      state.scenarios = state.scenarios.filter(scenario => scenario.id !== action.payload);
+      if (state.activeScenarioId === action.payload) state.activeScenarioId = null;
+    },
+
+    // Show a saved scenario, or none with null
+    setActiveScenario: (state, action: PayloadAction<string | null>) => {
+      state.activeScenarioId = action.payload;
+    },
+
+    renameScenario: (state, action: PayloadAction<{ id: string; name: string }>) => {
+      const scenario = findScenario(state, action.payload.id);
+      if (scenario) scenario.name = action.payload.name;
+    },
+
+    // Add a shock, replacing an earlier one for the same pair
+    setScenarioShock: (state, action: PayloadAction<{ id: string; shock: ScenarioShock }>) => {
+      const scenario = findScenario(state, action.payload.id);
+      if (!scenario) return;
+      const { shock } = action.payload;
+      const index = scenario.shocks.findIndex(({ source, target }) => source === shock.source && target === shock.target);
+      if (index === -1) {
+        scenario.shocks.push(shock);
+      } else {
+        scenario.shocks[index] = shock;
+      }
+    },
+
+    removeScenarioShock: (state, action: PayloadAction<{ id: string; index: number }>) => {
+      findScenario(state, action.payload.id)?.shocks.splice(action.payload.index, 1);
+    },
+
+    // Adjust how the scenario's shocks propagate
+    setScenarioModel: (state, action: PayloadAction<{ id: string; model: Partial<PropagationModel> }>) => {
+      const scenario = findScenario(state, action.payload.id);
+      if (scenario) scenario.model = { ...scenario.model, ...action.payload.model };
+    },
+  },
+});
+
+// Export actions
+export const {
+  addScenario,
+  removeScenario,
+  setActiveScenario,
+  renameScenario,
+  setScenarioShock,
+  removeScenarioShock,
+  setScenarioModel,
+} = scenarioSlice.actions;
+
+// Export the reducer
+export default scenarioSlice.reducer;
+
+// Export selectors
+export const selectScenarios = (state: { scenario: ScenarioState }) => state.scenario.scenarios;
+export const selectActiveScenario = (state: { scenario: ScenarioState }) =>
+  state.scenario.scenarios.find(scenario => scenario.id === state.scenario.activeScenarioId) ?? null;
@@ -1,29 +1,85 @@
 import { createSlice, type PayloadAction } from '@reduxjs/toolkit';
 import type { Feature } from 'geojson';
+import type { DimensionScores, RelationshipDimension } from '../../types/data';
+import { DEFAULT_DIMENSION_WEIGHTS, type ScoreDimension } from '../../Utils/Dimensions';
+import { getCountryCode } from '../../Utils/Format_country_name';
+import type { MapColorMode } from '../../Utils/MapColoring';
+import type { ConflictFilters } from '../../types/conflict';
+import { DEFAULT_CONFLICT_FILTERS } from '../../Utils/Conflicts';
+import { DEFAULT_ARC_SETTINGS, type ArcSettings } from '../../Utils/Arcs';
+import { getMapDetailForZoom, type MapDetail } from '../../Utils/WorldMap';
+import type { BoundaryPerspective } from '../../types/boundary';
 
-// Define projection types
-export type ProjectionType = 'geoMercator' | 'geoOrthographic';
+// Define projection types ('globe3d' is the WebGL globe, the others are d3 projections of the SVG map)
+export type ProjectionType = 'geoMercator' | 'geoOrthographic' | 'globe3d';
+
+// How the flat and orthographic maps are drawn: SVG paths, or a single canvas for large geometries
+export type MapRenderer = 'svg' | 'canvas';
+
+// Main visualizations that can take the place of the map
+export type ViewType = 'map' | 'network' | 'matrix';
+
+// Analysis panels that can be opened next to the map
+export type AnalysisPanel = 'asymmetry' | 'blocs' | 'rankings' | 'balance' | 'routes' | 'scenarios';
 
 // Define the shape of our UI slice state
 interface UIState {
   selectedCountry: Feature | null;
+  comparedCountry: Feature | null;
   selectedAlliance: string | null;
   projection: ProjectionType;
+  mapRenderer: MapRenderer;
+  mapDetail: MapDetail;
+  boundaryPerspective: BoundaryPerspective;
+  activeView: ViewType;
   mobileMenuOpen: boolean;
   searchTerm: string;
   sidebarCollapsed: boolean;
   mapRotation: [number, number];
+  selectedYear: number | null;
+  timelinePlaying: boolean;
+  scoreDimension: ScoreDimension;
+  dimensionWeights: DimensionScores;
+  mapColorMode: MapColorMode;
+  analysisPanel: AnalysisPanel | null;
+  showConflicts: boolean;
+  conflictFilters: ConflictFilters;
+  selectedConflict: string | null;
+  arcSettings: ArcSettings;
+  relationshipEditMode: boolean;
+  // Unbalanced triangle around the selected country whose ties the map draws instead of its arcs
+  highlightedTriad: [string, string, string] | null;
+  // Route from the route finder, drawn as a chain of arcs instead of any other
+  highlightedRoute: string[] | null;
 }
 
 // Initial state
 const initialState: UIState = {
   selectedCountry: null,
+  comparedCountry: null,
   selectedAlliance: null,
   projection: 'geoMercator',
+  mapRenderer: 'svg',
+  mapDetail: 'low',
+  boundaryPerspective: 'default',
+  activeView: 'map',
   mobileMenuOpen: false,
   searchTerm: '',
   sidebarCollapsed: false,
   mapRotation: [20, -20],
+  selectedYear: null,
+  timelinePlaying: false,
+  scoreDimension: 'overall',
+  dimensionWeights: DEFAULT_DIMENSION_WEIGHTS,
+  mapColorMode: 'relationship',
+  analysisPanel: null,
+  showConflicts: false,
+  conflictFilters: DEFAULT_CONFLICT_FILTERS,
+  selectedConflict: null,
+  arcSettings: DEFAULT_ARC_SETTINGS,
+  relationshipEditMode: false,
+  highlightedTriad: null,
+  highlightedRoute: null,
 };
 
 // Create the slice
@@ -34,30 +90,92 @@ const uiSlice = createSlice({
     // Select a country (clears alliance selection)
     selectCountry: (state, action: PayloadAction<Feature | null>) => {
       state.selectedCountry = action.payload;
-      // Mutual exclusion: selecting a country clears alliance selection
+      // Picking a new primary country always leaves compare mode
+      state.comparedCountry = null;
+      state.highlightedTriad = null;
+      // Mutual exclusion: selecting a country clears alliance and conflict selection
       if (action.payload !== null) {
         state.selectedAlliance = null;
+        state.selectedConflict = null;
+      }
+    },
+
+    // Select a second country to compare against the selected one (shift-click).
+    // Without a primary selection this behaves like a normal selection.
+    compareCountry: (state, action: PayloadAction<Feature | null>) => {
+      if (action.payload === null) {
+        state.comparedCountry = null;
+        return;
+      }
+      if (!state.selectedCountry) {
+        state.selectedCountry = action.payload;
+        state.selectedAlliance = null;
+        state.selectedConflict = null;
+        return;
+      }
+      if (getCountryCode(state.selectedCountry) !== getCountryCode(action.payload)) {
+        state.comparedCountry = action.payload;
+        state.highlightedTriad = null;
       }
     },
     
     // Select an alliance (clears country selection)
     selectAlliance: (state, action: PayloadAction<string | null>) => {
       state.selectedAlliance = action.payload;
-      // Mutual exclusion: selecting an alliance clears country selection
+      // Mutual exclusion: selecting an alliance clears country and conflict selection
+      if (action.payload !== null) {
+        state.selectedCountry = null;
+        state.comparedCountry = null;
+        state.selectedConflict = null;
+      }
+    },
+
+    // Open a conflict's detail view (clears country and alliance selection)
+    selectConflict: (state, action: PayloadAction<string | null>) => {
+      state.selectedConflict = action.payload;
       if (action.payload !== null) {
         state.selectedCountry = null;
+        state.comparedCountry = null;
+        state.selectedAlliance = null;
       }
     },
     
     // Clear all selections
     clearSelections: (state) => {
       state.selectedCountry = null;
+      state.comparedCountry = null;
       state.selectedAlliance = null;
+      state.selectedConflict = null;
+      state.highlightedTriad = null;
     },
     
     // Set map projection
     setProjection: (state, action: PayloadAction<ProjectionType>) => {
       state.projection = action.payload;
+      // The SVG and canvas globes don't zoom, so the coarsest outlines are enough
+      if (action.payload === 'geoOrthographic') {
+        state.mapDetail = getMapDetailForZoom(1);
+      }
+    },
+    
+    // Switch between the SVG and canvas map renderers
+    setMapRenderer: (state, action: PayloadAction<MapRenderer>) => {
+      state.mapRenderer = action.payload;
+    },
+    
+    // Level of detail of the country outlines, chosen by the map's zoom level
+    setMapDetail: (state, action: PayloadAction<MapDetail>) => {
+      state.mapDetail = action.payload;
+    },
+    
+    // Whose official borders the map follows
+    setBoundaryPerspective: (state, action: PayloadAction<BoundaryPerspective>) => {
+      state.boundaryPerspective = action.payload;
+    },
+    
+    // Switch between the map and the other visualizations
+    setActiveView: (state, action: PayloadAction<ViewType>) => {
+      state.activeView = action.payload;
     },
     
     // Toggle mobile menu
@@ -87,21 +205,99 @@ const uiSlice = createSlice({
     setMapRotation: (state, action: PayloadAction<[number, number]>) => {
       state.mapRotation = action.payload;
     },
+
+    // Set the year shown on the timeline (null means the latest data)
+    setSelectedYear: (state, action: PayloadAction<number | null>) => {
+      state.selectedYear = action.payload;
+    },
+
+    // Start or stop timeline playback
+    setTimelinePlaying: (state, action: PayloadAction<boolean>) => {
+      state.timelinePlaying = action.payload;
+    },
+
+    // Choose which relationship dimension drives the map and panels
+    setScoreDimension: (state, action: PayloadAction<ScoreDimension>) => {
+      state.scoreDimension = action.payload;
+    },
+
+    // Adjust the weight of one dimension in the composite score
+    setDimensionWeight: (state, action: PayloadAction<{ dimension: RelationshipDimension; weight: number }>) => {
+      state.dimensionWeights[action.payload.dimension] = action.payload.weight;
+    },
+
+    // Choose what the country fills on the map represent
+    setMapColorMode: (state, action: PayloadAction<MapColorMode>) => {
+      state.mapColorMode = action.payload;
+    },
+
+    // Open an analysis panel, or close it with null
+    setAnalysisPanel: (state, action: PayloadAction<AnalysisPanel | null>) => {
+      state.analysisPanel = action.payload;
+    },
+
+    // Show or hide the conflict overlay on the map
+    setShowConflicts: (state, action: PayloadAction<boolean>) => {
+      state.showConflicts = action.payload;
+    },
+
+    // Narrow down which conflicts are listed and drawn
+    setConflictFilters: (state, action: PayloadAction<Partial<ConflictFilters>>) => {
+      state.conflictFilters = { ...state.conflictFilters, ...action.payload };
+    },
+
+    // Choose which relationships of the selected country get arcs
+    setArcSettings: (state, action: PayloadAction<Partial<ArcSettings>>) => {
+      state.arcSettings = { ...state.arcSettings, ...action.payload };
+    },
+
+    // Switch the info panel between reading and editing the selected country's scores
+    setRelationshipEditMode: (state, action: PayloadAction<boolean>) => {
+      state.relationshipEditMode = action.payload;
+    },
+
+    // Draw one of the selected country's unbalanced triangles on the map, or its usual arcs with null
+    setHighlightedTriad: (state, action: PayloadAction<[string, string, string] | null>) => {
+      state.highlightedTriad = action.payload;
+    },
+
+    // Draw a route found between two countries on the map, or clear it with null
+    setHighlightedRoute: (state, action: PayloadAction<string[] | null>) => {
+      state.highlightedRoute = action.payload;
+    },
   },
 });
 
 // Export actions
 export const {
   selectCountry,
+  compareCountry,
   selectAlliance,
+  selectConflict,
   clearSelections,
   setProjection,
+  setMapRenderer,
+  setMapDetail,
+  setBoundaryPerspective,
+  setActiveView,
   toggleMobileMenu,
   setMobileMenuOpen,
   resetUIState,
   setSearchTerm,
   toggleSidebar,
   setMapRotation,
+  setSelectedYear,
+  setTimelinePlaying,
+  setScoreDimension,
+  setDimensionWeight,
+  setMapColorMode,
+  setAnalysisPanel,
+  setShowConflicts,
+  setConflictFilters,
+  setArcSettings,
+  setRelationshipEditMode,
+  setHighlightedTriad,
+  setHighlightedRoute,
 } = uiSlice.actions;
 
 // Export the reducer
@@ -109,12 +305,30 @@ export default uiSlice.reducer;
 
 // Export selectors
 export const selectSelectedCountry = (state: { ui: UIState }) => state.ui.selectedCountry;
+export const selectComparedCountry = (state: { ui: UIState }) => state.ui.comparedCountry;
 export const selectSelectedAlliance = (state: { ui: UIState }) => state.ui.selectedAlliance;
 export const selectProjectionType = (state: { ui: UIState }) => state.ui.projection;
+export const selectMapRenderer = (state: { ui: UIState }) => state.ui.mapRenderer;
+export const selectMapDetail = (state: { ui: UIState }) => state.ui.mapDetail;
+export const selectBoundaryPerspective = (state: { ui: UIState }) => state.ui.boundaryPerspective;
+export const selectActiveView = (state: { ui: UIState }) => state.ui.activeView;
 export const selectMobileMenuOpen = (state: { ui: UIState }) => state.ui.mobileMenuOpen;
 export const selectSearchTerm = (state: { ui: UIState }) => state.ui.searchTerm;
 export const selectSidebarCollapsed = (state: { ui: UIState }) => state.ui.sidebarCollapsed;
 export const selectMapRotation = (state: { ui: UIState }) => state.ui.mapRotation;
+export const selectSelectedYear = (state: { ui: UIState }) => state.ui.selectedYear;
+export const selectTimelinePlaying = (state: { ui: UIState }) => state.ui.timelinePlaying;
+export const selectScoreDimension = (state: { ui: UIState }) => state.ui.scoreDimension;
+export const selectDimensionWeights = (state: { ui: UIState }) => state.ui.dimensionWeights;
+export const selectMapColorMode = (state: { ui: UIState }) => state.ui.mapColorMode;
+export const selectAnalysisPanel = (state: { ui: UIState }) => state.ui.analysisPanel;
+export const selectShowConflicts = (state: { ui: UIState }) => state.ui.showConflicts;
+export const selectConflictFilters = (state: { ui: UIState }) => state.ui.conflictFilters;
+export const selectSelectedConflict = (state: { ui: UIState }) => state.ui.selectedConflict;
+export const selectArcSettings = (state: { ui: UIState }) => state.ui.arcSettings;
+export const selectRelationshipEditMode = (state: { ui: UIState }) => state.ui.relationshipEditMode;
+export const selectHighlightedTriad = (state: { ui: UIState }) => state.ui.highlightedTriad;
+export const selectHighlightedRoute = (state: { ui: UIState }) => state.ui.highlightedRoute;
 
 // Composite selectors
 export const selectHasActiveSelection = (state: { ui: UIState }) => 
@@ -0,0 +1,26 @@
+// Whose view of contested borders the map follows: the map's own outlines, or a country's official map
+export type BoundaryPerspective = 'default' | 'IND';
+
+export const BOUNDARY_PERSPECTIVES: BoundaryPerspective[] = ['default', 'IND'];
+
+// Properties of a disputed area feature in the world topology
+export interface DisputedAreaProperties {
+  id: string;
+  name: string;
+  administeredBy: string[]; // Country codes of the de facto administrators
+  claimants: string[];
+  note: string;
+  // Perspectives whose official map draws the area as undisputed territory
+  hiddenIn: BoundaryPerspective[];
+}
+
+// Where the topology script takes an area's outline from: a whole country on the
+// map, or the part of a country inside an approximate extent
+export type DisputedAreaGeometrySource =
+  | { country: string }
+  | { within: string; extent: [number, number][] };
+
+// An entry of mapdata/data/disputed_areas.json
+export interface DisputedAreaSource extends DisputedAreaProperties {
+  geometry: DisputedAreaGeometrySource;
+}
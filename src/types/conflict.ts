@@ -1,58 +1,26 @@
+export type ConflictIntensity = 'low' | 'medium' | 'high';
+
+export type ConflictType = 'civil_war' | 'international' | 'insurgency' | 'border_dispute' | 'other';
+
 export interface ConflictZone {
   id: string;
   name: string;
   countries: string[]; // Array of country codes
-  intensity: 'low' | 'medium' | 'high';
-  type: 'civil_war' | 'international' | 'insurgency' | 'border_dispute' | 'other';
+  intensity: ConflictIntensity;
+  type: ConflictType;
   startYear: number;
-  endYear?: number;
+  endYear?: number; // Omitted while the conflict is ongoing
   description: string;
 }
 
-export const conflictZones: ConflictZone[] = [
-  {
-    id: 'syria',
-    name: 'Syrian Civil War',
-    countries: ['SYR', 'TUR', 'IRQ', 'ISR'],
-    intensity: 'high',
-    type: 'civil_war',
-    startYear: 2011,
-    description: 'Ongoing multi-sided civil war in Syria'
-  },
-  {
-    id: 'ukraine',
-    name: 'Russo-Ukrainian War',
-    countries: ['UKR', 'RUS'],
-    intensity: 'high',
-    type: 'international',
-    startYear: 2014,
-    description: 'Armed conflict between Russia and Ukraine'
-  },
-  {
-    id: 'yemen',
-    name: 'Yemeni Civil War',
-    countries: ['YEM', 'SAU'],
-    intensity: 'high',
-    type: 'civil_war',
-    startYear: 2014,
-    description: 'Ongoing conflict involving Houthi rebels and the Yemeni government'
-  },
-  {
-    id: 'kashmir',
-    name: 'Kashmir Conflict',
-    countries: ['IND', 'PAK', 'CHN'],
-    intensity: 'medium',
-    type: 'border_dispute',
-    startYear: 1947,
-    description: 'Territorial conflict primarily between India and Pakistan'
-  },
-  {
-    id: 'south_china_sea',
-    name: 'South China Sea Disputes',
-    countries: ['CHN', 'PHL', 'VNM', 'MYS', 'BRN', 'TWN'],
-    intensity: 'medium',
-    type: 'border_dispute',
-    startYear: 1947,
-    description: 'Maritime and territorial disputes in the South China Sea'
-  }
-];
+export const CONFLICT_INTENSITIES: ConflictIntensity[] = ['low', 'medium', 'high'];
+
+export const CONFLICT_TYPES: ConflictType[] = ['civil_war', 'international', 'insurgency', 'border_dispute', 'other'];
+
+export interface ConflictFilters {
+  types: ConflictType[];
+  intensities: ConflictIntensity[];
+  // Inclusive range of years in which a conflict must have been active
+  fromYear: number | null;
+  toYear: number | null;
+}
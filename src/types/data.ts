@@ -8,3 +8,30 @@ export interface CountryData {
 export interface RelationshipData {
   [key: string]: CountryData;
 }
+
+// Scores edited in the app, kept on top of the fetched RelationshipData
+export interface RelationshipOverlay {
+  [sourceCode: string]: { [partnerCode: string]: number };
+}
+
+// Dated scores for a single directed pair, keyed by year (e.g. { "2014": -8 })
+export interface RelationshipTimeline {
+  [year: string]: number;
+}
+
+// Versioned relationship data. Only pairs that changed over time are listed;
+// every other pair keeps its score from the baseline RelationshipData.
+export interface RelationshipHistory {
+  baselineYear: number;
+  relations: { [sourceCode: string]: { [partnerCode: string]: RelationshipTimeline } };
+}
+
+export type RelationshipDimension = 'diplomatic' | 'trade' | 'military' | 'cultural';
+
+export type DimensionScores = { [D in RelationshipDimension]: number };
+
+// Per-dimension breakdown of a directed pair's score. Dimensions that are not
+// listed for a pair fall back to the pair's overall score.
+export interface RelationshipDimensionData {
+  [sourceCode: string]: { [partnerCode: string]: Partial<DimensionScores> };
+}
@@ -0,0 +1,32 @@
+// A hypothetical change: `source` now scores `target` at `score`
+export interface ScenarioShock {
+  source: string;
+  target: string;
+  score: number;
+  // Also set the reverse score
+  mutual: boolean;
+}
+
+// How a shock spreads through third countries, following balance theory
+export interface PropagationModel {
+  // How far a country follows a friend's change of view (friend of my friend, enemy of my friend)
+  allyInfluence: number;
+  // How far it takes the opposite of a rival's change of view (friend of my enemy, enemy of my enemy)
+  rivalInfluence: number;
+  // Rounds of propagation; each round spreads the previous round's changes one tie further
+  rounds: number;
+  // Ties weaker than this (absolute score) carry no influence
+  threshold: number;
+}
+
+export interface Scenario {
+  id: string;
+  name: string;
+  shocks: ScenarioShock[];
+  model: PropagationModel;
+}
+
+// Predicted change of each directed score, only for scores that change
+export interface RelationshipDeltas {
+  [sourceCode: string]: { [targetCode: string]: number };
+}